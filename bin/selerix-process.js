@@ -0,0 +1,9 @@
+#!/usr/bin/env node
+// Entry point for the selerix-process command; loads the TypeScript sources through tsx,
+// which is a runtime dependency so the command works after a production-only install
+require("tsx/cjs");
+const { main } = require("../src/cli/selerix-process.ts");
+
+main(process.argv.slice(2)).then((code) => {
+  process.exitCode = code;
+});
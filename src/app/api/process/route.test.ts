@@ -0,0 +1,109 @@
+import assert from "node:assert/strict";
+import { mkdtemp, readdir, rm } from "fs/promises";
+import os from "os";
+import path from "path";
+import { after, before, describe, it } from "node:test";
+import { serializeCSV } from "@/lib/selerix";
+import { makeRow, makeRule } from "@/lib/selerix/fixtures";
+import { POST } from "./route";
+
+// A processing request with the given multipart parts, in order
+const processRequest = (parts: [string, string][], query = "") => {
+  const form = new FormData();
+  parts.forEach(([name, value]) =>
+    form.append(name, name === "file" ? new Blob([value]) : value)
+  );
+  return new Request(`http://localhost/api/process${query}`, {
+    method: "POST",
+    body: form,
+  });
+};
+
+const rules = JSON.stringify([makeRule("30")]);
+const csv = serializeCSV([makeRow(), makeRow({ Deduction: "9999" })]);
+
+describe("POST /api/process", () => {
+  let dir: string;
+  const tmpdir = process.env.TMPDIR;
+  before(async () => {
+    dir = await mkdtemp(path.join(os.tmpdir(), "process-route-"));
+    process.env.RULE_SET_STORE_PATH = path.join(dir, "rule-sets.json");
+    // Output is spooled to the temp directory, so it can be checked for leftovers
+    process.env.TMPDIR = dir;
+  });
+  after(async () => {
+    delete process.env.RULE_SET_STORE_PATH;
+    if (tmpdir === undefined) delete process.env.TMPDIR;
+    else process.env.TMPDIR = tmpdir;
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  // Temporary output files still in the temp directory
+  const spooled = async () =>
+    (await readdir(dir)).filter((name) => name.startsWith("selerix-process-"));
+
+  it("responds with the processed CSV, exceptions and summary as JSON", async () => {
+    const response = await POST(
+      processRequest([
+        ["rules", rules],
+        ["file", csv],
+      ])
+    );
+    assert.equal(response.status, 200);
+    const body = await response.json();
+    assert.equal(body.ruleSet.name, "Inline Rules");
+    assert.equal(body.summary.rows, 2);
+    assert.equal(body.summary.matched, 1);
+    assert.equal(body.exceptions.length, 1);
+    assert.match(
+      body.processedCsv,
+      /^SSN,.*\r\n123-45-6789,30,.*AETN,1,1,HLTH/
+    );
+  });
+
+  it("responds with just the CSV and the counts in headers for format=csv", async () => {
+    const response = await POST(
+      processRequest(
+        [
+          ["rules", rules],
+          ["file", csv],
+        ],
+        "?format=csv"
+      )
+    );
+    assert.equal(
+      response.headers.get("Content-Type"),
+      "text/csv; charset=utf-8"
+    );
+    assert.equal(response.headers.get("X-Selerix-Rows"), "2");
+    assert.equal(response.headers.get("X-Selerix-Unmatched"), "1");
+    assert.equal((await response.text()).split("\r\n").length, 4);
+  });
+
+  it("uses the default rule set when no rules are sent", async () => {
+    const response = await POST(processRequest([["file", csv]]));
+    assert.equal((await response.json()).ruleSet.name, "Default Rules");
+  });
+
+  it("reports bad requests and unprocessable files without leaving output behind", async () => {
+    const status = async (request: Request) => (await POST(request)).status;
+    assert.equal(
+      await status(processRequest([["file", csv]], "?format=xml")),
+      400
+    );
+    assert.equal(
+      await status(processRequest([["file", csv]], "?ruleSetId=missing")),
+      404
+    );
+    assert.equal(
+      await status(
+        processRequest([
+          ["rules", rules],
+          ["file", "SSN,Deduction\r\n123456789,2400\r\n"],
+        ])
+      ),
+      422
+    );
+    assert.deepEqual(await spooled(), []);
+  });
+});
@@ -0,0 +1,181 @@
+import { once } from "events";
+import { createReadStream, createWriteStream } from "fs";
+import { unlink } from "fs/promises";
+import os from "os";
+import path from "path";
+import {
+  createPipelineStream,
+  exceptionsToCSV,
+  formatCSVRecord,
+  generateId,
+  parseCSVStream,
+  parseRuleSetFile,
+  type RuleSet,
+  type StreamedPipelineResult,
+} from "@/lib/selerix";
+import { BadRequestError, errorResponse } from "@/lib/server/api-errors";
+import { readMultipartUpload } from "@/lib/server/multipart";
+import { getDefaultRuleSet, getRuleSet } from "@/lib/server/rule-set-store";
+
+// Picks the rules to process with: a stored rule set by id, inline rules, or the default rule set
+// The id may also be given in the query string; inline rules may be a rule set export or a bare
+// JSON list of rules, sent as a text field or a file
+const resolveRuleSet = async (
+  fields: Map<string, string>,
+  url: URL
+): Promise<RuleSet> => {
+  const ruleSetId = fields.get("ruleSetId") ?? url.searchParams.get("ruleSetId");
+  const rules = fields.get("rules");
+  if (ruleSetId) {
+    return getRuleSet(ruleSetId);
+  }
+  if (rules !== undefined) {
+    return parseRuleSetFile(rules, "Inline Rules");
+  }
+  const ruleSet = await getDefaultRuleSet();
+  if (!ruleSet) {
+    throw new BadRequestError(
+      "Send a ruleSetId or rules; no rule sets are saved"
+    );
+  }
+  return ruleSet;
+};
+
+// Processes the upload as it arrives, writing each processed row to the target file straight away,
+// so neither the upload nor the output is held in memory
+// The upload is read no faster than the output can be written
+const processUpload = async (
+  file: ReadableStream<Uint8Array>,
+  ruleSet: RuleSet,
+  target: string
+): Promise<StreamedPipelineResult> => {
+  const out = createWriteStream(target, "utf8");
+  const written = once(out, "finish");
+  written.catch(() => {}); // Write errors are raised by the awaits below
+  const throttled = file.pipeThrough(
+    new TransformStream<Uint8Array, Uint8Array>({
+      async transform(chunk, controller) {
+        if (out.writableNeedDrain) await once(out, "drain");
+        controller.enqueue(chunk);
+      },
+    })
+  );
+
+  let run: ReturnType<typeof createPipelineStream> | null = null;
+  // The rule set and mapping are checked once the header row has been read
+  const start = (headers: string[]) => {
+    run = createPipelineStream(headers, ruleSet);
+    out.write(formatCSVRecord(run.headers));
+    return run;
+  };
+  try {
+    const headers = await parseCSVStream(throttled, (row, fileHeaders) => {
+      const stream = run ?? start(fileHeaders);
+      const processed = stream.push(row);
+      out.write(
+        formatCSVRecord(stream.headers.map((header) => processed[header] ?? ""))
+      );
+    });
+    const result = (run ?? start(headers)).finish();
+    out.end();
+    await written;
+    return result;
+  } catch (error) {
+    out.destroy();
+    throw error;
+  }
+};
+
+// Streams a temporary file as the response body and deletes it once it has been sent
+// or the client goes away; before and after wrap the file's text, and escape is applied to it
+const tempFileBody = (
+  file: string,
+  { before = "", after = "", escape = (text: string) => text } = {}
+): ReadableStream<Uint8Array> => {
+  const encoder = new TextEncoder();
+  const input = createReadStream(file, { encoding: "utf8" });
+  const chunks = input[Symbol.asyncIterator]();
+  const cleanup = () => {
+    input.destroy();
+    unlink(file).catch(() => {});
+  };
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      if (before) controller.enqueue(encoder.encode(before));
+    },
+    async pull(controller) {
+      try {
+        const { done, value } = await chunks.next();
+        if (done) {
+          if (after) controller.enqueue(encoder.encode(after));
+          controller.close();
+          cleanup();
+        } else {
+          controller.enqueue(encoder.encode(escape(value as string)));
+        }
+      } catch (error) {
+        cleanup();
+        controller.error(error);
+      }
+    },
+    cancel: cleanup,
+  });
+};
+
+// POST /api/process processes an uploaded Selerix export without the browser
+// The multipart body carries either "ruleSetId" or inline "rules", then the CSV as "file"; the default
+// rule set is used when neither is sent. The CSV is parsed and processed as it streams in and the
+// processed rows are spooled to a temporary file rather than kept in memory.
+// Responds with the processed CSV, the exceptions and the run summary as JSON, or with
+// ?format=csv with just the processed CSV, with the counts in X-Selerix-* headers
+export async function POST(request: Request) {
+  const target = path.join(os.tmpdir(), `selerix-process-${generateId()}.csv`);
+  try {
+    const url = new URL(request.url);
+    const format = url.searchParams.get("format") ?? "json";
+    if (format !== "json" && format !== "csv") {
+      throw new BadRequestError(`Unknown format "${format}"`);
+    }
+    const { ruleSet, run } = await readMultipartUpload(
+      request,
+      "file",
+      async (file, fields) => {
+        const ruleSet = await resolveRuleSet(fields, url);
+        return { ruleSet, run: await processUpload(file, ruleSet, target) };
+      }
+    );
+
+    if (format === "csv") {
+      return new Response(tempFileBody(target), {
+        headers: {
+          "Content-Type": "text/csv; charset=utf-8",
+          "Content-Disposition": 'attachment; filename="processed.csv"',
+          "X-Selerix-Rows": String(run.summary.rows),
+          "X-Selerix-Matched": String(run.summary.matched),
+          "X-Selerix-Unmatched": String(run.exceptions.length),
+          "X-Selerix-Invalid-Rows": String(run.invalidRows),
+        },
+      });
+    }
+
+    // The processed CSV goes last so it can be streamed into the JSON as a string
+    const head = JSON.stringify({
+      ruleSet: { id: ruleSet.id, name: ruleSet.name },
+      summary: { ...run.summary, invalidRows: run.invalidRows },
+      exceptions: run.exceptions,
+      rowIssues: run.rowIssues,
+      exceptionsCsv: exceptionsToCSV(run.exceptions),
+    });
+    return new Response(
+      tempFileBody(target, {
+        before: `${head.slice(0, -1)},"processedCsv":"`,
+        after: '"}',
+        escape: (text) => JSON.stringify(text).slice(1, -1),
+      }),
+      { headers: { "Content-Type": "application/json" } }
+    );
+  } catch (error) {
+    unlink(target).catch(() => {});
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,22 @@
+import { NextResponse } from "next/server";
+import { parseSaveInfo, RuleSetFormatError } from "@/lib/selerix";
+import { errorResponse, readJsonBody } from "@/lib/server/api-errors";
+import { rollbackRuleSet } from "@/lib/server/rule-set-store";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// POST /api/rule-sets/:id/rollback restores an earlier version as a new version
+// Body: { version, author, comment? }
+export async function POST(request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const body = (await readJsonBody(request)) as { version?: unknown } | null;
+    if (typeof body?.version !== "number" || !Number.isInteger(body.version)) {
+      throw new RuleSetFormatError("A version number is required");
+    }
+    const ruleSet = await rollbackRuleSet(id, body.version, parseSaveInfo(body));
+    return NextResponse.json({ ruleSet });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
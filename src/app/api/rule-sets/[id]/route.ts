@@ -0,0 +1,48 @@
+import { NextResponse } from "next/server";
+import { parseRuleSetInput, parseSaveInfo } from "@/lib/selerix";
+import { errorResponse, readJsonBody } from "@/lib/server/api-errors";
+import {
+  deleteRuleSet,
+  getRuleSet,
+  putRuleSet,
+} from "@/lib/server/rule-set-store";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// GET /api/rule-sets/:id returns a single rule set
+export async function GET(_request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    return NextResponse.json({ ruleSet: await getRuleSet(id) });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+// PUT /api/rule-sets/:id creates or replaces a rule set, recording a new version
+// The body carries the rule set plus the author and comment for the version
+export async function PUT(request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const body = await readJsonBody(request);
+    const ruleSet = await putRuleSet(
+      id,
+      parseRuleSetInput(body),
+      parseSaveInfo(body)
+    );
+    return NextResponse.json({ ruleSet });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+// DELETE /api/rule-sets/:id removes a rule set
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    await deleteRuleSet(id);
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
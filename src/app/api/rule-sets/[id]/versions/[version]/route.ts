@@ -0,0 +1,17 @@
+import { NextResponse } from "next/server";
+import { errorResponse } from "@/lib/server/api-errors";
+import { getRuleSetVersion } from "@/lib/server/rule-set-store";
+
+type RouteContext = { params: Promise<{ id: string; version: string }> };
+
+// GET /api/rule-sets/:id/versions/:version returns one saved version
+export async function GET(_request: Request, { params }: RouteContext) {
+  try {
+    const { id, version } = await params;
+    return NextResponse.json({
+      version: await getRuleSetVersion(id, Number(version)),
+    });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
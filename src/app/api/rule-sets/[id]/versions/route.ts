@@ -0,0 +1,15 @@
+import { NextResponse } from "next/server";
+import { errorResponse } from "@/lib/server/api-errors";
+import { listRuleSetVersions } from "@/lib/server/rule-set-store";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// GET /api/rule-sets/:id/versions lists every saved version, newest first
+export async function GET(_request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    return NextResponse.json({ versions: await listRuleSetVersions(id) });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
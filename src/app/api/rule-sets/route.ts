@@ -0,0 +1,28 @@
+import { NextResponse } from "next/server";
+import { parseRuleSetInput, parseSaveInfo } from "@/lib/selerix";
+import { errorResponse, readJsonBody } from "@/lib/server/api-errors";
+import { addRuleSet, listRuleSets } from "@/lib/server/rule-set-store";
+
+// GET /api/rule-sets lists every rule set
+export async function GET() {
+  try {
+    return NextResponse.json({ ruleSets: await listRuleSets() });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+// POST /api/rule-sets creates a rule set with a server-generated id
+// The body carries the rule set plus the author and comment recorded for version 1
+export async function POST(request: Request) {
+  try {
+    const body = await readJsonBody(request);
+    const ruleSet = await addRuleSet(
+      parseRuleSetInput(body),
+      parseSaveInfo(body)
+    );
+    return NextResponse.json({ ruleSet }, { status: 201 });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,111 @@
+import assert from "node:assert/strict";
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { after, before, beforeEach, describe, it, mock } from "node:test";
+import { serializeCSV } from "../lib/selerix";
+import { makeRow, makeRule } from "../lib/selerix/fixtures";
+import { EXIT_CODES, main } from "./selerix-process";
+
+describe("selerix-process", () => {
+  let dir: string;
+  let rules: string;
+  const errors: string[] = [];
+
+  // Writes a CSV input into the temp directory and returns its path
+  const input = async (name: string, text: string) => {
+    const file = path.join(dir, name);
+    await writeFile(file, text);
+    return file;
+  };
+
+  before(async () => {
+    dir = await mkdtemp(path.join(os.tmpdir(), "selerix-process-"));
+    rules = path.join(dir, "rules.json");
+    await writeFile(rules, JSON.stringify([makeRule("30")]));
+  });
+
+  after(async () => {
+    mock.restoreAll();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    errors.length = 0;
+    mock.method(console, "log", () => {});
+    mock.method(console, "error", (message: unknown) =>
+      errors.push(String(message))
+    );
+  });
+
+  it("exits 0 and writes the processed file when every row matches", async () => {
+    const file = await input("ok.csv", serializeCSV([makeRow()]));
+    const out = path.join(dir, "ok-out.csv");
+    assert.equal(
+      await main(["--rules", rules, "--in", file, "--out", out]),
+      EXIT_CODES.ok
+    );
+    assert.match(
+      await readFile(out, "utf-8"),
+      /123-45-6789,30,.*AETN,1,1,HLTH/
+    );
+  });
+
+  it("writes the headers for a file with no rows", async () => {
+    const file = await input(
+      "empty.csv",
+      "SSN,Deduction,Empe Amt/Pct,Division\r\n"
+    );
+    const out = path.join(dir, "empty-out.csv");
+    assert.equal(
+      await main(["--rules", rules, "--in", file, "--out", out]),
+      EXIT_CODES.ok
+    );
+    assert.equal(
+      await readFile(out, "utf-8"),
+      "SSN,Deduction,Empe Amt/Pct,Division," +
+        "Hlth Ins Carrie,Hlth Ins Cvrage,Hlth Ins Level,Hlth Ins Plan\r\n"
+    );
+  });
+
+  it("exits 2 for unmatched rows and 3 when rows also fail validation", async () => {
+    const unmatched = await input(
+      "unmatched.csv",
+      serializeCSV([makeRow(), makeRow({ Deduction: "9999" })])
+    );
+    assert.equal(
+      await main(["--rules", rules, "--in", unmatched, "--dry-run"]),
+      EXIT_CODES.unmatched
+    );
+    const invalid = await input(
+      "invalid.csv",
+      serializeCSV([makeRow({ SSN: "12345" }), makeRow({ Deduction: "9999" })])
+    );
+    assert.equal(
+      await main(["--rules", rules, "--in", invalid, "--dry-run"]),
+      EXIT_CODES.invalidRows
+    );
+  });
+
+  it("exits 1 with a message when the run cannot complete", async () => {
+    assert.equal(await main(["--in", "x.csv", "--dry-run"]), EXIT_CODES.error);
+    assert.match(errors[0], /^--rules is required/);
+
+    const noAmount = await input(
+      "no-amount.csv",
+      "SSN,Deduction\r\n1,2400\r\n"
+    );
+    assert.equal(
+      await main(["--rules", rules, "--in", noAmount, "--dry-run"]),
+      EXIT_CODES.error
+    );
+    assert.match(errors[1], /Missing required columns: Employee Amount/);
+
+    const legacy = await input("legacy.xls", "not a workbook");
+    assert.equal(
+      await main(["--rules", rules, "--in", legacy, "--dry-run"]),
+      EXIT_CODES.error
+    );
+    assert.match(errors[2], /only \.xlsx files are supported/);
+  });
+});
@@ -0,0 +1,269 @@
+// Command-line processor for batch and scheduled runs
+// Runs the same matching as the processor page over one or more exported files
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { parseArgs } from "node:util";
+import fg from "fast-glob";
+import {
+  CSVParseError,
+  exceptionsToRows,
+  EXCEPTION_REPORT_HEADERS,
+  formatMatchRate,
+  getSheetNames,
+  isWorkbookFile,
+  parseCSV,
+  parseRuleSetFile,
+  parseSheet,
+  readWorkbook,
+  RuleAmbiguityError,
+  RuleSetFormatError,
+  RuleValidationError,
+  runPipeline,
+  SchemaMappingError,
+  serializeCSV,
+  WorkbookError,
+  writeWorkbook,
+  type CSVRow,
+  type PipelineResult,
+  type RuleSet,
+} from "../lib/selerix";
+
+// Process exit codes, so schedulers can alert on the outcome
+// Invalid rows take precedence over unmatched rows when a run has both
+export const EXIT_CODES = {
+  ok: 0,
+  error: 1, // Bad arguments, unreadable files, invalid rules or missing columns
+  unmatched: 2, // Some rows matched no rule
+  invalidRows: 3, // Some rows failed data validation (SSN, amounts, dates)
+} as const;
+
+const USAGE = `Usage: selerix-process --rules <rules.json> --in <file or glob> [options]
+
+Options:
+  --rules <file>        Rule set exported from the processor (or a JSON list of rules)
+  --in <file or glob>   Selerix export to process (.csv or .xlsx); repeat or use a glob for several files
+  --out <file>          Where to write the processed file
+  --exceptions <file>   Where to write the exception report
+  --sheet <name>        Sheet to read from Excel inputs, defaults to the first sheet
+  --dry-run             Process and print the summary without writing any files
+  --help                Show this message
+
+With several inputs, --out and --exceptions must contain {name}, which is replaced by each input's
+file name without its extension, e.g. --out "processed/{name}.csv". Outputs ending in .xlsx are
+written as Excel workbooks, anything else as CSV.
+
+Exit codes:
+  0  every row matched and passed validation
+  1  the run could not complete (bad arguments, unreadable files, invalid rules, missing columns)
+  2  some rows matched no rule
+  3  some rows failed data validation`;
+
+// Thrown for problems with the command line itself
+class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UsageError";
+  }
+}
+
+type CliOptions = {
+  rules: string;
+  inputs: string[];
+  out?: string;
+  exceptions?: string;
+  sheet?: string;
+  dryRun: boolean;
+};
+
+// Glob patterns use forward slashes, so Windows paths are converted before matching
+const toGlob = (pattern: string): string =>
+  path.sep === "\\" ? pattern.replace(/\\/g, "/") : pattern;
+
+// Reads the command line into options, expanding globs in the inputs
+// Globs are expanded here because Windows shells pass them through unexpanded
+const readOptions = async (argv: string[]): Promise<CliOptions | null> => {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        rules: { type: "string" },
+        in: { type: "string", multiple: true },
+        out: { type: "string" },
+        exceptions: { type: "string" },
+        sheet: { type: "string" },
+        "dry-run": { type: "boolean", default: false },
+        help: { type: "boolean", default: false },
+      },
+    });
+  } catch (error) {
+    // Unknown options and missing option values
+    throw new UsageError(
+      error instanceof Error ? error.message : String(error)
+    );
+  }
+  const { values, positionals } = parsed;
+  if (values.help) return null;
+  if (!values.rules) throw new UsageError("--rules is required");
+
+  const patterns = [...(values.in ?? []), ...positionals];
+  if (patterns.length === 0) throw new UsageError("--in is required");
+  const inputs: string[] = [];
+  for (const pattern of patterns) {
+    const matches = fg.isDynamicPattern(pattern)
+      ? (await fg(toGlob(pattern), { onlyFiles: true })).sort()
+      : [pattern];
+    if (matches.length === 0)
+      throw new UsageError(`No files match "${pattern}"`);
+    matches.forEach((match) => {
+      if (!inputs.includes(match)) inputs.push(match);
+    });
+  }
+
+  const dryRun = values["dry-run"] ?? false;
+  if (!dryRun && !values.out)
+    throw new UsageError("--out is required unless --dry-run is given");
+  if (inputs.length > 1) {
+    [values.out, values.exceptions].forEach((target) => {
+      if (target && !target.includes("{name}"))
+        throw new UsageError(
+          `"${target}" must contain {name} when processing several files`
+        );
+    });
+  }
+
+  return {
+    rules: values.rules,
+    inputs,
+    out: values.out,
+    exceptions: values.exceptions,
+    sheet: values.sheet,
+    dryRun,
+  };
+};
+
+// Reads the rows of a CSV file or one sheet of a workbook
+const readInput = async (
+  file: string,
+  sheet?: string
+): Promise<{ headers: string[]; rows: CSVRow[] }> => {
+  if (isWorkbookFile(file)) {
+    const book = await readWorkbook(await readFile(file));
+    return parseSheet(book, sheet ?? getSheetNames(book)[0] ?? "");
+  }
+  return parseCSV(await readFile(file, "utf-8"));
+};
+
+// Writes rows as CSV, or as a one-sheet workbook when the target ends in .xlsx
+const writeRows = async (
+  target: string,
+  sheetName: string,
+  headers: string[],
+  rows: Record<string, string>[]
+) => {
+  await mkdir(path.dirname(path.resolve(target)), { recursive: true });
+  if (path.extname(target).toLowerCase() === ".xlsx") {
+    await writeFile(
+      target,
+      await writeWorkbook([{ name: sheetName, headers, rows }])
+    );
+  } else {
+    await writeFile(target, serializeCSV(rows, headers));
+  }
+};
+
+// Replaces {name} with the input's file name without its extension
+const targetFor = (template: string, input: string): string =>
+  template.replace(/\{name\}/g, path.parse(input).name);
+
+// Prints the outcome of one file; dry runs add the match rate per deduction
+const report = (input: string, run: PipelineResult, dryRun: boolean) => {
+  const { summary, exceptions, invalidRows } = run;
+  const rate = formatMatchRate(summary.matchRate);
+  console.log(
+    `${input}: ${summary.rows} rows, ${summary.matched} matched (${rate}), ` +
+      `${exceptions.length} unmatched, ${invalidRows} invalid`
+  );
+  if (!dryRun) return;
+  summary.byDeduction.forEach((deduction) => {
+    const premium = deduction.monthlyPremium.toFixed(2);
+    console.log(
+      `  ${deduction.deduction || "(blank)"}: ` +
+        `${deduction.matched}/${deduction.rows} matched ` +
+        `(${formatMatchRate(deduction.matchRate)}), $${premium} monthly`
+    );
+  });
+};
+
+// Processes every input with the rule set and returns the exit code for the whole run
+const processFiles = async (
+  options: CliOptions,
+  ruleSet: RuleSet
+): Promise<number> => {
+  let unmatched = false;
+  let invalid = false;
+  for (const input of options.inputs) {
+    const { headers, rows } = await readInput(input, options.sheet);
+    const run = runPipeline(rows, headers, ruleSet);
+    report(input, run, options.dryRun);
+    unmatched ||= run.exceptions.length > 0;
+    invalid ||= run.invalidRows > 0;
+    if (options.dryRun) continue;
+
+    if (options.out) {
+      await writeRows(
+        targetFor(options.out, input),
+        "Processed",
+        run.headers,
+        run.rows
+      );
+    }
+    if (options.exceptions) {
+      await writeRows(
+        targetFor(options.exceptions, input),
+        "Exceptions",
+        EXCEPTION_REPORT_HEADERS,
+        exceptionsToRows(run.exceptions)
+      );
+    }
+  }
+  if (invalid) return EXIT_CODES.invalidRows;
+  if (unmatched) return EXIT_CODES.unmatched;
+  return EXIT_CODES.ok;
+};
+
+// Errors the engine raises for bad input, reported without a stack trace
+const isExpectedError = (error: unknown): error is Error =>
+  error instanceof UsageError ||
+  error instanceof CSVParseError ||
+  error instanceof WorkbookError ||
+  error instanceof RuleSetFormatError ||
+  error instanceof RuleValidationError ||
+  error instanceof RuleAmbiguityError ||
+  error instanceof SchemaMappingError ||
+  (error instanceof Error && "code" in error && error.code === "ENOENT");
+
+export const main = async (argv: string[]): Promise<number> => {
+  try {
+    const options = await readOptions(argv);
+    if (!options) {
+      console.log(USAGE);
+      return EXIT_CODES.ok;
+    }
+    const ruleSet = parseRuleSetFile(
+      await readFile(options.rules, "utf-8"),
+      path.parse(options.rules).name
+    );
+    return await processFiles(options, ruleSet);
+  } catch (error) {
+    if (error instanceof UsageError) {
+      console.error(`${error.message}\n\n${USAGE}`);
+    } else if (isExpectedError(error)) {
+      console.error(error.message);
+    } else {
+      console.error(error);
+    }
+    return EXIT_CODES.error;
+  }
+};
@@ -0,0 +1,345 @@
+"use client";
+import React, { useEffect, useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select } from "@/components/ui/select";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Download, FileText } from "lucide-react";
+import FixedWidthLayoutEditor from "@/components/fixed-width-layout-editor";
+import { downloadFile } from "@/lib/download";
+import {
+  loadEdi834Options,
+  loadFixedWidthLayouts,
+  saveEdi834Options,
+  saveFixedWidthLayouts,
+} from "@/lib/carrier-export-storage";
+import {
+  createEdi834Exporter,
+  createFixedWidthExporter,
+  DEFAULT_EDI_834_OPTIONS,
+  nextControlNumber,
+  readOutput,
+  type CSVRow,
+  type Edi834Options,
+  type ExportResult,
+  type FixedWidthLayout,
+  type OutputColumn,
+} from "@/lib/selerix";
+
+type CarrierExportPanelProps = {
+  rows: CSVRow[]; // Processed rows with overrides applied, in canonical form
+  outputColumns: OutputColumn[];
+};
+
+// The 834 settings kept per code, edited as one input per code found in the rows
+type Edi834CodeSetting =
+  | "receiverIds"
+  | "carrierNames"
+  | "carrierTaxIds"
+  | "policyNumbers"
+  | "insuranceLines"
+  | "coverageLevels";
+
+// Distinct non-blank values of an output column, in order of first appearance
+const distinctOutputs = (
+  rows: CSVRow[],
+  outputColumns: OutputColumn[],
+  key: string
+): string[] => [
+  ...new Set(
+    rows.map((row) => readOutput(row, outputColumns, key)).filter(Boolean)
+  ),
+];
+
+// Generates carrier outbound files from the processed rows, one file per carrier,
+// as fixed-width records or an EDI 834 enrollment
+// Layouts and 834 settings are kept in this browser; the 834 control number advances with each run
+const CarrierExportPanel = ({
+  rows,
+  outputColumns,
+}: CarrierExportPanelProps) => {
+  const [exporterId, setExporterId] = useState("fixed-width");
+  const [edi, setEdi] = useState<Edi834Options>(DEFAULT_EDI_834_OPTIONS);
+  const [layouts, setLayouts] = useState<FixedWidthLayout[]>([]);
+  const [loadError, setLoadError] = useState<string | null>(null); // Saved settings are not overwritten while set
+  const [result, setResult] = useState<ExportResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Saved settings live in localStorage, which is only available in the browser
+  useEffect(() => {
+    try {
+      setEdi(loadEdi834Options());
+      setLayouts(loadFixedWidthLayouts());
+    } catch (err) {
+      setLoadError(
+        err instanceof Error
+          ? err.message
+          : "Saved export settings could not be read"
+      );
+    }
+  }, []);
+
+  const updateEdi = (options: Edi834Options) => {
+    setEdi(options);
+    if (!loadError) saveEdi834Options(options);
+  };
+
+  const updateLayouts = (updated: FixedWidthLayout[]) => {
+    setLayouts(updated);
+    if (!loadError) saveFixedWidthLayouts(updated);
+  };
+
+  const updateCode = (setting: Edi834CodeSetting, code: string, value: string) =>
+    updateEdi({ ...edi, [setting]: { ...edi[setting], [code]: value } });
+
+  const exporters = useMemo(
+    () => [createFixedWidthExporter(layouts), createEdi834Exporter(edi)],
+    [layouts, edi]
+  );
+  const exporter = exporters.find((e) => e.id === exporterId) ?? exporters[0];
+
+  const carriers = useMemo(
+    () => distinctOutputs(rows, outputColumns, "carrier"),
+    [rows, outputColumns]
+  );
+  const plans = useMemo(
+    () => distinctOutputs(rows, outputColumns, "plan"),
+    [rows, outputColumns]
+  );
+  const coverages = useMemo(
+    () => distinctOutputs(rows, outputColumns, "coverage"),
+    [rows, outputColumns]
+  );
+
+  // Generated files no longer match once the rows change
+  useEffect(() => {
+    setResult(null);
+    setError(null);
+  }, [rows]);
+
+  // Builds the files for every carrier in the processed rows
+  // Each 834 interchange uses up a control number, so the next run starts after the last one
+  const generate = () => {
+    try {
+      const generated = exporter.export(rows, { outputColumns });
+      setResult(generated);
+      setError(null);
+      if (exporter.id === "edi-834") {
+        updateEdi({ ...edi, controlNumber: nextControlNumber(edi, generated) });
+      }
+    } catch (err) {
+      setResult(null);
+      setError(err instanceof Error ? err.message : "Export failed");
+    }
+  };
+
+  // One labelled input per code for a per-code 834 setting
+  const codeInputs = (
+    title: string,
+    codes: string[],
+    setting: Edi834CodeSetting,
+    placeholder: string
+  ) =>
+    codes.length > 0 && (
+      <div className="space-y-1">
+        <p className="text-sm font-medium">{title}</p>
+        <div className="grid grid-cols-4 gap-2">
+          {codes.map((code) => (
+            <label key={code} className="flex items-center gap-2 text-sm">
+              <span className="w-16 font-mono">{code}</span>
+              <Input
+                placeholder={placeholder}
+                value={edi[setting][code] ?? ""}
+                onChange={(e) => updateCode(setting, code, e.target.value)}
+              />
+            </label>
+          ))}
+        </div>
+      </div>
+    );
+
+  return (
+    <div className="mt-6 space-y-2">
+      <h3 className="text-lg font-medium">Carrier Files</h3>
+      <div className="flex gap-2 items-end">
+        <div className="flex-1 space-y-2">
+          <label className="block text-sm font-medium">Format</label>
+          <Select
+            value={exporter.id}
+            onChange={(e) => {
+              setExporterId(e.target.value);
+              setResult(null);
+            }}
+          >
+            {exporters.map((e) => (
+              <option key={e.id} value={e.id}>
+                {e.label}
+              </option>
+            ))}
+          </Select>
+        </div>
+        <Button onClick={generate} disabled={rows.length === 0}>
+          <FileText className="w-4 h-4 mr-2" />
+          Generate
+        </Button>
+      </div>
+
+      {loadError && (
+        <Alert variant="destructive">
+          <AlertTitle>Saved export settings were not loaded</AlertTitle>
+          <AlertDescription>
+            {loadError}. Changes made now will not be saved.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {exporter.id === "fixed-width" && (
+        <FixedWidthLayoutEditor
+          layouts={layouts}
+          onChange={updateLayouts}
+          carriers={carriers}
+          outputColumns={outputColumns}
+        />
+      )}
+
+      {exporter.id === "edi-834" && (
+        <div className="space-y-3">
+          <div className="grid grid-cols-4 gap-2">
+            <Input
+              placeholder="Sender ID"
+              value={edi.senderId}
+              onChange={(e) => updateEdi({ ...edi, senderId: e.target.value })}
+            />
+            <Input
+              placeholder="Sponsor name"
+              value={edi.sponsorName}
+              onChange={(e) =>
+                updateEdi({ ...edi, sponsorName: e.target.value })
+              }
+            />
+            <Input
+              placeholder="Sponsor tax ID"
+              value={edi.sponsorTaxId}
+              onChange={(e) =>
+                updateEdi({ ...edi, sponsorTaxId: e.target.value })
+              }
+            />
+            <Select
+              value={edi.usageIndicator}
+              onChange={(e) =>
+                updateEdi({
+                  ...edi,
+                  usageIndicator: e.target.value as "P" | "T",
+                })
+              }
+            >
+              <option value="P">Production</option>
+              <option value="T">Test</option>
+            </Select>
+            <label className="flex items-center gap-2 text-sm">
+              <span className="whitespace-nowrap">Next control number</span>
+              <Input
+                type="number"
+                min={1}
+                value={edi.controlNumber}
+                onChange={(e) =>
+                  updateEdi({
+                    ...edi,
+                    controlNumber: parseInt(e.target.value, 10) || 0,
+                  })
+                }
+              />
+            </label>
+            <Input
+              placeholder="Last name column"
+              value={edi.nameColumns.last}
+              onChange={(e) =>
+                updateEdi({
+                  ...edi,
+                  nameColumns: { ...edi.nameColumns, last: e.target.value },
+                })
+              }
+            />
+            <Input
+              placeholder="First name column"
+              value={edi.nameColumns.first}
+              onChange={(e) =>
+                updateEdi({
+                  ...edi,
+                  nameColumns: { ...edi.nameColumns, first: e.target.value },
+                })
+              }
+            />
+          </div>
+          {codeInputs("Carrier names", carriers, "carrierNames", "Name")}
+          {codeInputs("Receiver IDs", carriers, "receiverIds", "Receiver ID")}
+          {codeInputs("Carrier tax IDs", carriers, "carrierTaxIds", "FEIN")}
+          {codeInputs(
+            "Policy numbers",
+            carriers,
+            "policyNumbers",
+            "Policy number"
+          )}
+          {codeInputs(
+            "Insurance lines (HD03)",
+            plans,
+            "insuranceLines",
+            "e.g. HLT"
+          )}
+          {codeInputs(
+            "Coverage levels (HD05)",
+            coverages,
+            "coverageLevels",
+            "e.g. EMP"
+          )}
+        </div>
+      )}
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertTitle>Could not generate files</AlertTitle>
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {result && (
+        <div className="space-y-2">
+          {result.files.map((file) => (
+            <div
+              key={file.fileName}
+              className="flex justify-between items-center border rounded-lg p-2"
+            >
+              <span className="text-sm">
+                {file.fileName}{" "}
+                <span className="text-gray-500">
+                  ({file.recordCount}{" "}
+                  {file.recordCount === 1 ? "record" : "records"})
+                </span>
+              </span>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() =>
+                  downloadFile(file.content, file.fileName, file.mimeType)
+                }
+              >
+                <Download className="w-4 h-4 mr-2" />
+                Download
+              </Button>
+            </div>
+          ))}
+          {(result.skippedCarriers.length > 0 || result.unassignedRows > 0) && (
+            <p className="text-sm text-gray-500">
+              {result.skippedCarriers.length > 0 &&
+                `No layout for ${result.skippedCarriers.join(", ")}. `}
+              {result.unassignedRows > 0 &&
+                `${result.unassignedRows} rows without a carrier were left out.`}
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CarrierExportPanel;
@@ -0,0 +1,155 @@
+"use client";
+import React, { useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Download } from "lucide-react";
+import {
+  CHANGE_KIND_LABELS,
+  listChanges,
+  summarizeChanges,
+  type ChangeKind,
+  type CSVRow,
+  type ProcessResult,
+} from "@/lib/selerix";
+
+type ChangeDiffPanelProps = {
+  result: ProcessResult; // Rule output of the latest run, before manual overrides
+  inputRows: CSVRow[]; // Rows as uploaded
+  onDownload: () => void;
+};
+
+// Changes listed before the rest are summarized, to keep large files readable
+const MAX_LISTED_CHANGES = 200;
+
+const KIND_CLASSES: Record<ChangeKind, string> = {
+  filled: "bg-green-100 text-green-800",
+  overwritten: "bg-blue-100 text-blue-800",
+  unchanged: "bg-gray-100 text-gray-700",
+  kept: "bg-gray-100 text-gray-700",
+  conflict: "bg-orange-100 text-orange-800",
+};
+
+// Shows how the latest run changed the output columns: counts per change kind and a before/after
+// list of every cell whose original value differed from the rule value
+const ChangeDiffPanel = ({
+  result,
+  inputRows,
+  onDownload,
+}: ChangeDiffPanelProps) => {
+  const [kind, setKind] = useState<ChangeKind | "all">("all");
+  const counts = useMemo(() => summarizeChanges(result), [result]);
+  const changes = useMemo(
+    () => listChanges(result, inputRows),
+    [result, inputRows]
+  );
+  const listed =
+    kind === "all" ? changes : changes.filter((change) => change.kind === kind);
+
+  return (
+    <div className="mt-6 space-y-2">
+      <div className="flex justify-between items-center">
+        <h3 className="text-lg font-medium">Changes ({changes.length})</h3>
+        <Button
+          onClick={onDownload}
+          variant="outline"
+          size="sm"
+          disabled={changes.length === 0}
+        >
+          <Download className="w-4 h-4 mr-2" />
+          Download Changes
+        </Button>
+      </div>
+
+      <div className="flex gap-2 flex-wrap">
+        <Button
+          variant={kind === "all" ? "default" : "outline"}
+          size="sm"
+          onClick={() => setKind("all")}
+        >
+          All ({changes.length})
+        </Button>
+        {(Object.keys(CHANGE_KIND_LABELS) as ChangeKind[]).map((value) => (
+          <Button
+            key={value}
+            variant={kind === value ? "default" : "outline"}
+            size="sm"
+            onClick={() => setKind(value)}
+            disabled={value === "unchanged"}
+            title={
+              value === "unchanged"
+                ? "Cells that already held the rule value are counted but not listed"
+                : undefined
+            }
+          >
+            {CHANGE_KIND_LABELS[value]} ({counts[value]})
+          </Button>
+        ))}
+      </div>
+
+      {listed.length > 0 && (
+        <div className="border rounded-lg overflow-x-auto max-h-96 overflow-y-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50 sticky top-0">
+              <tr>
+                {[
+                  "Row",
+                  "SSN",
+                  "Column",
+                  "Original",
+                  "Rule Value",
+                  "Output",
+                  "Change",
+                ].map((header) => (
+                  <th
+                    key={header}
+                    className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
+                  >
+                    {header}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {listed.slice(0, MAX_LISTED_CHANGES).map((change) => (
+                <tr key={`${change.rowIndex}-${change.columnKey}`}>
+                  <td className="px-6 py-2 whitespace-nowrap text-sm text-gray-500">
+                    {change.rowIndex + 1}
+                  </td>
+                  <td className="px-6 py-2 whitespace-nowrap text-sm text-gray-500">
+                    {change.ssn}
+                  </td>
+                  <td className="px-6 py-2 whitespace-nowrap text-sm text-gray-500">
+                    {change.header}
+                  </td>
+                  <td className="px-6 py-2 whitespace-nowrap text-sm text-gray-500">
+                    {change.before || "—"}
+                  </td>
+                  <td className="px-6 py-2 whitespace-nowrap text-sm text-gray-500">
+                    {change.ruleValue || "—"}
+                  </td>
+                  <td className="px-6 py-2 whitespace-nowrap text-sm font-medium text-gray-900">
+                    {change.after || "—"}
+                  </td>
+                  <td className="px-6 py-2 whitespace-nowrap text-sm">
+                    <span
+                      className={`rounded px-2 text-xs ${KIND_CLASSES[change.kind]}`}
+                    >
+                      {CHANGE_KIND_LABELS[change.kind]}
+                    </span>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {listed.length > MAX_LISTED_CHANGES && (
+            <p className="px-6 py-2 text-sm text-gray-500">
+              …and {listed.length - MAX_LISTED_CHANGES} more changes in the
+              download
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ChangeDiffPanel;
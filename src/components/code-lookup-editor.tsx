@@ -0,0 +1,262 @@
+"use client";
+import React from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select } from "@/components/ui/select";
+import { Plus, Trash2 } from "lucide-react";
+import type { CodeLookup } from "@/lib/selerix";
+
+type CodeLookupEditorProps = {
+  lookup: CodeLookup; // Code lookup of the rule set being edited
+  onChange: (lookup: CodeLookup) => void;
+};
+
+// Replaces one entry of a list
+const replaceAt = <T,>(list: T[], index: number, changes: Partial<T>): T[] =>
+  list.map((entry, i) => (i === index ? { ...entry, ...changes } : entry));
+
+// Edits the carrier, plan and coverage codes rules may use and their descriptions
+// Plans belong to a carrier and coverage tiers list the plans they are valid for,
+// which is what the rule editor's dropdowns and rule validation check against
+const CodeLookupEditor = ({ lookup, onChange }: CodeLookupEditorProps) => {
+  const { carriers, plans, coverages } = lookup;
+  const count = carriers.length + plans.length + coverages.length;
+
+  return (
+    <details className="border rounded-lg p-3">
+      <summary className="cursor-pointer text-sm font-medium">
+        Code Lookup ({count})
+      </summary>
+      <div className="mt-3 space-y-4">
+        <p className="text-sm text-gray-500">
+          Rules may only use the codes listed here. Leave a list empty to allow
+          any code.
+        </p>
+
+        <div className="space-y-2">
+          <h4 className="text-sm font-medium">Carriers</h4>
+          {carriers.map((carrier, index) => (
+            <div key={index} className="flex gap-2 items-center">
+              <Input
+                placeholder="Code"
+                value={carrier.code}
+                onChange={(e) =>
+                  onChange({
+                    ...lookup,
+                    carriers: replaceAt(carriers, index, {
+                      code: e.target.value,
+                    }),
+                  })
+                }
+                className="w-32"
+              />
+              <Input
+                placeholder="Description"
+                value={carrier.description}
+                onChange={(e) =>
+                  onChange({
+                    ...lookup,
+                    carriers: replaceAt(carriers, index, {
+                      description: e.target.value,
+                    }),
+                  })
+                }
+                className="flex-1"
+              />
+              <Button
+                variant="destructive"
+                size="icon"
+                onClick={() =>
+                  onChange({
+                    ...lookup,
+                    carriers: carriers.filter((_, i) => i !== index),
+                  })
+                }
+                title="Remove carrier"
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+          <Button
+            onClick={() =>
+              onChange({
+                ...lookup,
+                carriers: [...carriers, { code: "", description: "" }],
+              })
+            }
+            variant="outline"
+            size="sm"
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            Add Carrier
+          </Button>
+        </div>
+
+        <div className="space-y-2">
+          <h4 className="text-sm font-medium">Plans</h4>
+          {plans.map((plan, index) => (
+            <div key={index} className="flex gap-2 items-center">
+              <Input
+                placeholder="Code"
+                value={plan.code}
+                onChange={(e) =>
+                  onChange({
+                    ...lookup,
+                    plans: replaceAt(plans, index, { code: e.target.value }),
+                  })
+                }
+                className="w-32"
+              />
+              <Input
+                placeholder="Description"
+                value={plan.description}
+                onChange={(e) =>
+                  onChange({
+                    ...lookup,
+                    plans: replaceAt(plans, index, {
+                      description: e.target.value,
+                    }),
+                  })
+                }
+                className="flex-1"
+              />
+              <Select
+                title="Carrier offering the plan"
+                value={plan.carrier}
+                onChange={(e) =>
+                  onChange({
+                    ...lookup,
+                    plans: replaceAt(plans, index, {
+                      carrier: e.target.value,
+                    }),
+                  })
+                }
+                className="w-40"
+              >
+                <option value="">Any carrier</option>
+                {carriers
+                  .filter((carrier) => carrier.code)
+                  .map((carrier) => (
+                    <option key={carrier.code} value={carrier.code}>
+                      {carrier.code}
+                    </option>
+                  ))}
+              </Select>
+              <Button
+                variant="destructive"
+                size="icon"
+                onClick={() =>
+                  onChange({
+                    ...lookup,
+                    plans: plans.filter((_, i) => i !== index),
+                  })
+                }
+                title="Remove plan"
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+          <Button
+            onClick={() =>
+              onChange({
+                ...lookup,
+                plans: [
+                  ...plans,
+                  { code: "", description: "", carrier: carriers[0]?.code ?? "" },
+                ],
+              })
+            }
+            variant="outline"
+            size="sm"
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            Add Plan
+          </Button>
+        </div>
+
+        <div className="space-y-2">
+          <h4 className="text-sm font-medium">Coverage Tiers</h4>
+          {coverages.map((coverage, index) => (
+            <div key={index} className="flex gap-2 items-center">
+              <Input
+                placeholder="Code"
+                value={coverage.code}
+                onChange={(e) =>
+                  onChange({
+                    ...lookup,
+                    coverages: replaceAt(coverages, index, {
+                      code: e.target.value,
+                    }),
+                  })
+                }
+                className="w-32"
+              />
+              <Input
+                placeholder="Description"
+                value={coverage.description}
+                onChange={(e) =>
+                  onChange({
+                    ...lookup,
+                    coverages: replaceAt(coverages, index, {
+                      description: e.target.value,
+                    }),
+                  })
+                }
+                className="flex-1"
+              />
+              <Input
+                placeholder="Plans (comma-separated)"
+                value={coverage.plans.join(", ")}
+                onChange={(e) =>
+                  onChange({
+                    ...lookup,
+                    coverages: replaceAt(coverages, index, {
+                      // Blank entries are kept while typing and dropped when the rule set is loaded
+                      plans: e.target.value
+                        .split(",")
+                        .map((plan) => plan.trim()),
+                    }),
+                  })
+                }
+                className="flex-1"
+              />
+              <Button
+                variant="destructive"
+                size="icon"
+                onClick={() =>
+                  onChange({
+                    ...lookup,
+                    coverages: coverages.filter((_, i) => i !== index),
+                  })
+                }
+                title="Remove coverage tier"
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+          <Button
+            onClick={() =>
+              onChange({
+                ...lookup,
+                coverages: [
+                  ...coverages,
+                  { code: "", description: "", plans: [] },
+                ],
+              })
+            }
+            variant="outline"
+            size="sm"
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            Add Coverage Tier
+          </Button>
+        </div>
+      </div>
+    </details>
+  );
+};
+
+export default CodeLookupEditor;
@@ -0,0 +1,99 @@
+"use client";
+import React from "react";
+import { Button } from "@/components/ui/button";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Download } from "lucide-react";
+import {
+  EXCEPTION_REASON_LABELS,
+  groupExceptionsByDeduction,
+  type ExceptionRow,
+} from "@/lib/selerix";
+
+type ExceptionsPanelProps = {
+  exceptions: ExceptionRow[]; // Unmatched rows from the last processing run
+  onDownload: () => void;
+};
+
+// Lists every row no rule matched, grouped by deduction code
+const ExceptionsPanel = ({ exceptions, onDownload }: ExceptionsPanelProps) => {
+  if (exceptions.length === 0) {
+    return (
+      <Alert className="mt-6">
+        <AlertTitle>No Exceptions</AlertTitle>
+        <AlertDescription>Every row matched a rule.</AlertDescription>
+      </Alert>
+    );
+  }
+
+  const groups = groupExceptionsByDeduction(exceptions);
+
+  return (
+    <div className="mt-6 space-y-4">
+      <div className="flex justify-between items-center">
+        <h3 className="text-lg font-medium">
+          Exceptions ({exceptions.length} unmatched{" "}
+          {exceptions.length === 1 ? "row" : "rows"})
+        </h3>
+        <Button onClick={onDownload} variant="outline" size="sm">
+          <Download className="w-4 h-4 mr-2" />
+          Download Exceptions
+        </Button>
+      </div>
+
+      {groups.map((group) => (
+        <div key={group.deduction} className="space-y-2">
+          <h4 className="font-medium">
+            Deduction {group.deduction || "(blank)"}{" "}
+            <span className="text-sm text-gray-500">
+              {group.exceptions.length}{" "}
+              {group.exceptions.length === 1 ? "row" : "rows"}
+            </span>
+          </h4>
+          <div className="border rounded-lg overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  {["Row", "SSN", "Empe Amt/Pct", "Matched Amount", "Reason"].map(
+                    (header) => (
+                      <th
+                        key={header}
+                        className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
+                      >
+                        {header}
+                      </th>
+                    )
+                  )}
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {group.exceptions.map((exception) => (
+                  <tr key={exception.rowIndex}>
+                    <td className="px-6 py-2 whitespace-nowrap text-sm text-gray-500">
+                      {exception.rowIndex + 1}
+                    </td>
+                    <td className="px-6 py-2 whitespace-nowrap text-sm text-gray-500">
+                      {exception.ssn}
+                    </td>
+                    <td className="px-6 py-2 whitespace-nowrap text-sm text-gray-500">
+                      {exception.amount}
+                    </td>
+                    <td className="px-6 py-2 whitespace-nowrap text-sm text-gray-500">
+                      {isNaN(exception.matchedAmount)
+                        ? "—"
+                        : exception.matchedAmount.toFixed(2)}
+                    </td>
+                    <td className="px-6 py-2 whitespace-nowrap text-sm text-gray-500">
+                      {EXCEPTION_REASON_LABELS[exception.reason]}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default ExceptionsPanel;
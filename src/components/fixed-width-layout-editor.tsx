@@ -0,0 +1,329 @@
+"use client";
+import React, { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select } from "@/components/ui/select";
+import { Plus, Trash2 } from "lucide-react";
+import {
+  createFixedWidthLayout,
+  layoutWidth,
+  validateFixedWidthLayout,
+  type FieldFormat,
+  type FieldSource,
+  type FixedWidthField,
+  type FixedWidthLayout,
+  type OutputColumn,
+} from "@/lib/selerix";
+
+type FixedWidthLayoutEditorProps = {
+  layouts: FixedWidthLayout[];
+  onChange: (layouts: FixedWidthLayout[]) => void;
+  carriers: string[]; // Carrier codes in the processed rows, offered when adding a layout
+  outputColumns: OutputColumn[];
+};
+
+type SourceKind = "column" | "output" | "constant";
+
+const SOURCE_LABELS: Record<SourceKind, string> = {
+  column: "Column",
+  output: "Output",
+  constant: "Fixed value",
+};
+
+const FORMAT_LABELS: Record<FieldFormat, string> = {
+  text: "Text",
+  digits: "Digits",
+  date: "Date (CCYYMMDD)",
+  amount: "Amount (cents)",
+};
+
+const sourceKind = (source: FieldSource): SourceKind =>
+  "column" in source ? "column" : "output" in source ? "output" : "constant";
+
+const sourceValue = (source: FieldSource): string =>
+  "column" in source
+    ? source.column
+    : "output" in source
+      ? source.output
+      : source.constant;
+
+const makeSource = (kind: SourceKind, value: string): FieldSource =>
+  kind === "column"
+    ? { column: value }
+    : kind === "output"
+      ? { output: value }
+      : { constant: value };
+
+// Edits the fixed-width record layouts, one per carrier, as given in each carrier's file spec
+const FixedWidthLayoutEditor = ({
+  layouts,
+  onChange,
+  carriers,
+  outputColumns,
+}: FixedWidthLayoutEditorProps) => {
+  const [newCarrier, setNewCarrier] = useState("");
+
+  const updateLayout = (index: number, layout: FixedWidthLayout) =>
+    onChange(layouts.map((l, i) => (i === index ? layout : l)));
+
+  const updateField = (
+    layoutIndex: number,
+    fieldIndex: number,
+    changes: Partial<FixedWidthField>
+  ) => {
+    const layout = layouts[layoutIndex];
+    updateLayout(layoutIndex, {
+      ...layout,
+      fields: layout.fields.map((field, i) =>
+        i === fieldIndex ? { ...field, ...changes } : field
+      ),
+    });
+  };
+
+  const addLayout = () => {
+    const carrier = newCarrier.trim();
+    if (!carrier) return;
+    onChange([...layouts, createFixedWidthLayout(carrier)]);
+    setNewCarrier("");
+  };
+
+  const missing = carriers.filter(
+    (carrier) => !layouts.some((layout) => layout.carrier === carrier)
+  );
+
+  return (
+    <div className="space-y-3">
+      {layouts.map((layout, layoutIndex) => {
+        const errors = validateFixedWidthLayout(layout);
+        return (
+          <details key={layoutIndex} className="border rounded-lg p-3">
+            <summary className="cursor-pointer text-sm font-medium">
+              {layout.name || layout.carrier} ({layout.carrier},{" "}
+              {layoutWidth(layout)} characters)
+            </summary>
+            <div className="mt-3 space-y-2">
+              <div className="flex gap-2 items-center">
+                <Input
+                  placeholder="Carrier code"
+                  value={layout.carrier}
+                  onChange={(e) =>
+                    updateLayout(layoutIndex, {
+                      ...layout,
+                      carrier: e.target.value,
+                    })
+                  }
+                  className="w-32"
+                />
+                <Input
+                  placeholder="Layout name"
+                  value={layout.name}
+                  onChange={(e) =>
+                    updateLayout(layoutIndex, { ...layout, name: e.target.value })
+                  }
+                  className="flex-1"
+                />
+                <Select
+                  value={layout.lineEnding ?? "\r\n"}
+                  onChange={(e) =>
+                    updateLayout(layoutIndex, {
+                      ...layout,
+                      lineEnding: e.target.value,
+                    })
+                  }
+                  className="w-32"
+                >
+                  <option value={"\r\n"}>CRLF</option>
+                  <option value={"\n"}>LF</option>
+                </Select>
+                <Button
+                  variant="destructive"
+                  size="icon"
+                  onClick={() =>
+                    onChange(layouts.filter((_, i) => i !== layoutIndex))
+                  }
+                  title="Remove layout"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+
+              {layout.fields.map((field, fieldIndex) => {
+                const kind = sourceKind(field.source);
+                const value = sourceValue(field.source);
+                return (
+                  <div key={fieldIndex} className="flex gap-2 items-center">
+                    <Input
+                      placeholder="Field name"
+                      value={field.name}
+                      onChange={(e) =>
+                        updateField(layoutIndex, fieldIndex, {
+                          name: e.target.value,
+                        })
+                      }
+                      className="flex-1"
+                    />
+                    <Input
+                      type="number"
+                      min={1}
+                      placeholder="Width"
+                      value={field.width || ""}
+                      onChange={(e) =>
+                        updateField(layoutIndex, fieldIndex, {
+                          width: parseInt(e.target.value, 10) || 0,
+                        })
+                      }
+                      className="w-20"
+                    />
+                    <Select
+                      value={kind}
+                      onChange={(e) =>
+                        updateField(layoutIndex, fieldIndex, {
+                          source: makeSource(e.target.value as SourceKind, ""),
+                        })
+                      }
+                      className="w-32"
+                    >
+                      {Object.entries(SOURCE_LABELS).map(([k, label]) => (
+                        <option key={k} value={k}>
+                          {label}
+                        </option>
+                      ))}
+                    </Select>
+                    {kind === "output" ? (
+                      <Select
+                        value={value}
+                        onChange={(e) =>
+                          updateField(layoutIndex, fieldIndex, {
+                            source: makeSource(kind, e.target.value),
+                          })
+                        }
+                        className="flex-1"
+                      >
+                        <option value="">Choose output</option>
+                        {outputColumns.map((column) => (
+                          <option key={column.key} value={column.key}>
+                            {column.label}
+                          </option>
+                        ))}
+                      </Select>
+                    ) : (
+                      <Input
+                        placeholder={kind === "column" ? "CSV header" : "Value"}
+                        value={value}
+                        onChange={(e) =>
+                          updateField(layoutIndex, fieldIndex, {
+                            source: makeSource(kind, e.target.value),
+                          })
+                        }
+                        className="flex-1"
+                      />
+                    )}
+                    <Select
+                      value={field.format ?? "text"}
+                      onChange={(e) =>
+                        updateField(layoutIndex, fieldIndex, {
+                          format: e.target.value as FieldFormat,
+                        })
+                      }
+                      className="w-40"
+                    >
+                      {Object.entries(FORMAT_LABELS).map(([format, label]) => (
+                        <option key={format} value={format}>
+                          {label}
+                        </option>
+                      ))}
+                    </Select>
+                    <Select
+                      value={field.align ?? ""}
+                      onChange={(e) =>
+                        updateField(layoutIndex, fieldIndex, {
+                          align:
+                            (e.target.value as "left" | "right") || undefined,
+                        })
+                      }
+                      className="w-28"
+                    >
+                      <option value="">Default</option>
+                      <option value="left">Left</option>
+                      <option value="right">Right</option>
+                    </Select>
+                    <Input
+                      placeholder="Pad"
+                      value={field.pad ?? ""}
+                      maxLength={1}
+                      onChange={(e) =>
+                        updateField(layoutIndex, fieldIndex, {
+                          pad: e.target.value || undefined,
+                        })
+                      }
+                      className="w-16"
+                    />
+                    <Button
+                      variant="destructive"
+                      size="icon"
+                      onClick={() =>
+                        updateLayout(layoutIndex, {
+                          ...layout,
+                          fields: layout.fields.filter(
+                            (_, i) => i !== fieldIndex
+                          ),
+                        })
+                      }
+                      title="Remove field"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                );
+              })}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() =>
+                  updateLayout(layoutIndex, {
+                    ...layout,
+                    fields: [
+                      ...layout.fields,
+                      { name: "", width: 0, source: { constant: "" } },
+                    ],
+                  })
+                }
+              >
+                <Plus className="w-4 h-4 mr-2" />
+                Add Field
+              </Button>
+              {errors.length > 0 && (
+                <ul className="text-sm text-red-600 list-disc pl-5">
+                  {errors.map((error) => (
+                    <li key={error}>{error}</li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </details>
+        );
+      })}
+
+      <div className="flex gap-2 items-center">
+        <Input
+          placeholder="Carrier code"
+          value={newCarrier}
+          onChange={(e) => setNewCarrier(e.target.value)}
+          list="fixed-width-carriers"
+          className="w-48"
+        />
+        <datalist id="fixed-width-carriers">
+          {missing.map((carrier) => (
+            <option key={carrier} value={carrier} />
+          ))}
+        </datalist>
+        <Button variant="outline" size="sm" onClick={addLayout}>
+          <Plus className="w-4 h-4 mr-2" />
+          Add Layout
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default FixedWidthLayoutEditor;
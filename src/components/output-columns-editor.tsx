@@ -0,0 +1,101 @@
+"use client";
+import React from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Plus, Trash2 } from "lucide-react";
+import type { OutputColumn } from "@/lib/selerix";
+
+type OutputColumnsEditorProps = {
+  columns: OutputColumn[]; // Output columns of the rule set being edited
+  onChange: (columns: OutputColumn[]) => void;
+};
+
+// Edits the columns rules populate, e.g. group number, policy number or a Life/STD/LTD carrier
+// The key links rule values to a column, so renaming a header keeps existing rule values
+const OutputColumnsEditor = ({ columns, onChange }: OutputColumnsEditorProps) => {
+  const updateColumn = (index: number, changes: Partial<OutputColumn>) =>
+    onChange(
+      columns.map((column, i) =>
+        i === index ? { ...column, ...changes } : column
+      )
+    );
+
+  // Generates a key that is not used by another column yet
+  const addColumn = () => {
+    let n = columns.length + 1;
+    while (columns.some((column) => column.key === `column${n}`)) n++;
+    onChange([
+      ...columns,
+      { key: `column${n}`, header: "", label: `Column ${n}` },
+    ]);
+  };
+
+  return (
+    <details className="border rounded-lg p-3">
+      <summary className="cursor-pointer text-sm font-medium">
+        Output Columns ({columns.length})
+      </summary>
+      <div className="mt-3 space-y-2">
+        {columns.map((column, index) => (
+          <div key={index} className="flex gap-2 items-center">
+            <Input
+              placeholder="Key"
+              value={column.key}
+              onChange={(e) => updateColumn(index, { key: e.target.value })}
+              className="w-32"
+            />
+            <Input
+              placeholder="CSV header"
+              value={column.header}
+              onChange={(e) => updateColumn(index, { header: e.target.value })}
+              className="flex-1"
+            />
+            <Input
+              placeholder="Label"
+              value={column.label}
+              onChange={(e) => updateColumn(index, { label: e.target.value })}
+              className="flex-1"
+            />
+            <Input
+              placeholder="Default value"
+              value={column.defaultValue ?? ""}
+              onChange={(e) =>
+                updateColumn(index, {
+                  defaultValue: e.target.value || undefined,
+                })
+              }
+              className="w-32"
+            />
+            <label className="flex items-center gap-1 text-sm whitespace-nowrap">
+              <input
+                type="checkbox"
+                checked={column.required === true}
+                onChange={(e) =>
+                  updateColumn(index, {
+                    required: e.target.checked || undefined,
+                  })
+                }
+              />
+              Required
+            </label>
+            <Button
+              variant="destructive"
+              size="icon"
+              onClick={() => onChange(columns.filter((_, i) => i !== index))}
+              disabled={columns.length <= 1}
+              title="Remove column"
+            >
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          </div>
+        ))}
+        <Button onClick={addColumn} variant="outline" size="sm">
+          <Plus className="w-4 h-4 mr-2" />
+          Add Column
+        </Button>
+      </div>
+    </details>
+  );
+};
+
+export default OutputColumnsEditor;
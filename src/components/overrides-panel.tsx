@@ -0,0 +1,116 @@
+"use client";
+import React from "react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Download, Trash2 } from "lucide-react";
+import type { OutputColumn, Override, OverrideReportRow } from "@/lib/selerix";
+
+type OverridesPanelProps = {
+  report: OverrideReportRow[]; // Every override with the value the rules produced for it
+  outputColumns: OutputColumn[];
+  error: string | null; // Why the overrides saved for the file could not be read; editing is disabled while set
+  onRemove: (override: Override) => void;
+  onDownload: () => void;
+};
+
+// Lists the manual overrides applied on top of rule output, with the rule value each one replaces
+const OverridesPanel = ({
+  report,
+  outputColumns,
+  error,
+  onRemove,
+  onDownload,
+}: OverridesPanelProps) => {
+  if (error) {
+    return (
+      <Alert variant="destructive" className="mt-6">
+        <AlertTitle>Saved overrides were not loaded</AlertTitle>
+        <AlertDescription>
+          {error}. Overrides cannot be added or removed until it is fixed or
+          cleared.
+        </AlertDescription>
+      </Alert>
+    );
+  }
+  if (report.length === 0) return null;
+
+  const headers = new Map(
+    outputColumns.map((column) => [column.key, column.header])
+  );
+
+  return (
+    <div className="mt-6 space-y-2">
+      <div className="flex justify-between items-center">
+        <h3 className="text-lg font-medium">
+          Manual Overrides ({report.length})
+        </h3>
+        <Button onClick={onDownload} variant="outline" size="sm">
+          <Download className="w-4 h-4 mr-2" />
+          Download Overrides
+        </Button>
+      </div>
+      <div className="border rounded-lg overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              {[
+                "SSN",
+                "Deduction",
+                "Start Date",
+                "Column",
+                "Rule Value",
+                "Override",
+                "",
+              ].map((header) => (
+                <th
+                  key={header}
+                  className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
+                >
+                  {header}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {report.map((row) => (
+              <tr key={`${row.key}-${row.columnKey}`}>
+                <td className="px-6 py-2 whitespace-nowrap text-sm text-gray-500">
+                  {row.ssn}
+                </td>
+                <td className="px-6 py-2 whitespace-nowrap text-sm text-gray-500">
+                  {row.deduction}
+                </td>
+                <td className="px-6 py-2 whitespace-nowrap text-sm text-gray-500">
+                  {row.startDate}
+                </td>
+                <td className="px-6 py-2 whitespace-nowrap text-sm text-gray-500">
+                  {headers.get(row.columnKey) ?? row.columnKey}
+                </td>
+                <td className="px-6 py-2 whitespace-nowrap text-sm text-gray-500">
+                  {row.ruleValue === null
+                    ? "(not in this file)"
+                    : row.ruleValue || "—"}
+                </td>
+                <td className="px-6 py-2 whitespace-nowrap text-sm font-medium text-purple-800">
+                  {row.value || "—"}
+                </td>
+                <td className="px-6 py-2 whitespace-nowrap text-sm">
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => onRemove(row)}
+                    title="Remove override"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default OverridesPanel;
@@ -0,0 +1,50 @@
+"use client";
+import React from "react";
+import { Button } from "@/components/ui/button";
+import { X } from "lucide-react";
+import type { WorkerPhase, WorkerProgress } from "@/lib/processing-worker";
+
+type ProcessingProgressProps = {
+  progress: WorkerProgress | null; // Latest progress message, null until the worker sends one
+  onCancel: () => void;
+};
+
+const PHASE_LABELS: Record<WorkerPhase, string> = {
+  parse: "Reading file",
+  process: "Matching rows",
+};
+
+// Progress bar for a file being read or processed in the background, with a button to stop it
+const ProcessingProgress = ({ progress, onCancel }: ProcessingProgressProps) => {
+  const percent =
+    progress && progress.total > 0
+      ? Math.min(100, Math.round((progress.done / progress.total) * 100))
+      : 0;
+  const detail =
+    progress?.phase === "process"
+      ? ` (${progress.done.toLocaleString()} of ${progress.total.toLocaleString()} rows)`
+      : "";
+
+  return (
+    <div className="border rounded-lg p-3 space-y-2">
+      <div className="flex justify-between items-center">
+        <span className="text-sm font-medium">
+          {progress ? PHASE_LABELS[progress.phase] : "Starting"}… {percent}%
+          <span className="text-gray-500">{detail}</span>
+        </span>
+        <Button onClick={onCancel} variant="outline" size="sm">
+          <X className="w-4 h-4 mr-2" />
+          Cancel
+        </Button>
+      </div>
+      <div className="h-2 w-full rounded bg-gray-200 overflow-hidden">
+        <div
+          className="h-2 bg-blue-600 transition-all"
+          style={{ width: `${percent}%` }}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default ProcessingProgress;
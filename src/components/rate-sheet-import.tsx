@@ -0,0 +1,259 @@
+"use client";
+import React, { useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select } from "@/components/ui/select";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Check } from "lucide-react";
+import RuleDiffView from "@/components/rule-diff-view";
+import {
+  CSVParseError,
+  DEFAULT_RATE_TOLERANCE,
+  detectRateSheetMapping,
+  diffRuleSets,
+  getSheetNames,
+  isWorkbookFile,
+  mergeRateSheetRules,
+  parseCSVStream,
+  parseSheet,
+  RATE_TOLERANCE_LABELS,
+  readWorkbook,
+  rulesFromRateSheet,
+  WorkbookError,
+  type CSVRow,
+  type RateSheetMapping,
+  type RateSheetMergeMode,
+  type RateToleranceMode,
+  type Rule,
+  type RuleSet,
+} from "@/lib/selerix";
+
+type RateSheetImportProps = {
+  ruleSet: RuleSet; // Rule set being edited, which the generated rules are previewed against
+  onApply: (rules: Rule[]) => void;
+};
+
+// Generates rules from a carrier rate sheet (plan × tier × monthly premium) and merges them into the rule set
+// Each premium becomes an amount range widened by the rounding tolerance
+const RateSheetImport = ({ ruleSet, onApply }: RateSheetImportProps) => {
+  const [fileName, setFileName] = useState("");
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [rows, setRows] = useState<CSVRow[]>([]);
+  const [mapping, setMapping] = useState<RateSheetMapping>({
+    deduction: "",
+    amount: "",
+    outputs: {},
+  }); // Which sheet header holds each field
+  const [tolerance, setTolerance] = useState(String(DEFAULT_RATE_TOLERANCE));
+  const [toleranceMode, setToleranceMode] =
+    useState<RateToleranceMode>("above");
+  const [mergeMode, setMergeMode] = useState<RateSheetMergeMode>("merge");
+  const [error, setError] = useState<string | null>(null);
+
+  // Reads the first sheet of a workbook, or a CSV file, and guesses the column mapping
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    try {
+      let sheet: { headers: string[]; rows: CSVRow[] };
+      if (isWorkbookFile(file.name)) {
+        const book = await readWorkbook(await file.arrayBuffer());
+        sheet = parseSheet(book, getSheetNames(book)[0] ?? "");
+      } else {
+        const data: CSVRow[] = [];
+        const csvHeaders = await parseCSVStream(file.stream(), (row) =>
+          data.push(row)
+        );
+        sheet = { headers: csvHeaders, rows: data };
+      }
+      setFileName(file.name);
+      setHeaders(sheet.headers);
+      setRows(sheet.rows);
+      setMapping(detectRateSheetMapping(sheet.headers, ruleSet.outputColumns));
+      setError(null);
+    } catch (err) {
+      setError(
+        err instanceof CSVParseError || err instanceof WorkbookError
+          ? err.message
+          : "Could not read the rate sheet"
+      );
+    } finally {
+      event.target.value = "";
+    }
+  };
+
+  const generated = useMemo(() => {
+    if (!mapping.deduction || !mapping.amount) return null;
+    const value = parseFloat(tolerance);
+    return rulesFromRateSheet(rows, mapping, {
+      tolerance: isNaN(value) || value < 0 ? 0 : value,
+      toleranceMode,
+      outputColumns: ruleSet.outputColumns,
+      codeLookup: ruleSet.codeLookup,
+    });
+  }, [rows, mapping, tolerance, toleranceMode, ruleSet]);
+
+  const merged = useMemo(
+    () =>
+      generated &&
+      mergeRateSheetRules(ruleSet.rules, generated.rules, mergeMode),
+    [generated, ruleSet.rules, mergeMode]
+  );
+
+  const headerSelect = (value: string, onChange: (header: string) => void) => (
+    <Select value={value} onChange={(e) => onChange(e.target.value)}>
+      <option value="">(not in sheet)</option>
+      {headers.map((header) => (
+        <option key={header} value={header}>
+          {header}
+        </option>
+      ))}
+    </Select>
+  );
+
+  return (
+    <details className="border rounded-lg p-3">
+      <summary className="cursor-pointer text-sm font-medium">
+        Import Rate Sheet
+      </summary>
+      <div className="mt-3 space-y-3">
+        <Input
+          type="file"
+          accept=".csv,.xlsx"
+          onChange={handleFile}
+          className="cursor-pointer"
+        />
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertTitle>Could not import rate sheet</AlertTitle>
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {headers.length > 0 && (
+          <>
+            <p className="text-sm text-gray-500">
+              {fileName}: {rows.length} rows
+            </p>
+            <div className="grid grid-cols-4 gap-2">
+              <div className="space-y-1">
+                <label className="block text-sm font-medium">
+                  Deduction Code
+                </label>
+                {headerSelect(mapping.deduction, (header) =>
+                  setMapping({ ...mapping, deduction: header })
+                )}
+              </div>
+              <div className="space-y-1">
+                <label className="block text-sm font-medium">
+                  Monthly Premium
+                </label>
+                {headerSelect(mapping.amount, (header) =>
+                  setMapping({ ...mapping, amount: header })
+                )}
+              </div>
+              {ruleSet.outputColumns.map((column) => (
+                <div key={column.key} className="space-y-1">
+                  <label className="block text-sm font-medium">
+                    {column.label}
+                  </label>
+                  {headerSelect(mapping.outputs[column.key] ?? "", (header) =>
+                    setMapping({
+                      ...mapping,
+                      outputs: { ...mapping.outputs, [column.key]: header },
+                    })
+                  )}
+                </div>
+              ))}
+            </div>
+
+            <div className="grid grid-cols-3 gap-2">
+              <div className="space-y-1">
+                <label className="block text-sm font-medium">Tolerance</label>
+                <Input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={tolerance}
+                  onChange={(e) => setTolerance(e.target.value)}
+                />
+              </div>
+              <div className="space-y-1">
+                <label className="block text-sm font-medium">Range</label>
+                <Select
+                  value={toleranceMode}
+                  onChange={(e) =>
+                    setToleranceMode(e.target.value as RateToleranceMode)
+                  }
+                >
+                  {Object.entries(RATE_TOLERANCE_LABELS).map(
+                    ([value, label]) => (
+                      <option key={value} value={value}>
+                        {label}
+                      </option>
+                    )
+                  )}
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <label className="block text-sm font-medium">
+                  Current Rules
+                </label>
+                <Select
+                  value={mergeMode}
+                  onChange={(e) =>
+                    setMergeMode(e.target.value as RateSheetMergeMode)
+                  }
+                >
+                  <option value="merge">Merge with current rules</option>
+                  <option value="replace">Replace current rules</option>
+                </Select>
+              </div>
+            </div>
+
+            {!generated && (
+              <p className="text-sm text-gray-500">
+                Choose the deduction code and premium columns to generate rules.
+              </p>
+            )}
+
+            {generated && generated.issues.length > 0 && (
+              <Alert>
+                <AlertTitle>
+                  {generated.issues.length} rows skipped
+                </AlertTitle>
+                <AlertDescription>
+                  {generated.issues
+                    .slice(0, 5)
+                    .map((issue) => `Row ${issue.rowIndex + 1}: ${issue.message}`)
+                    .join("; ")}
+                  {generated.issues.length > 5 && "; …"}
+                </AlertDescription>
+              </Alert>
+            )}
+
+            {generated && merged && (
+              <>
+                <RuleDiffView
+                  diff={diffRuleSets(ruleSet, { ...ruleSet, rules: merged })}
+                  beforeLabel="Current rules"
+                  afterLabel="After import"
+                />
+                <Button
+                  onClick={() => onApply(merged)}
+                  disabled={generated.rules.length === 0}
+                >
+                  <Check className="w-4 h-4 mr-2" />
+                  Apply {generated.rules.length} Rules
+                </Button>
+              </>
+            )}
+          </>
+        )}
+      </div>
+    </details>
+  );
+};
+
+export default RateSheetImport;
@@ -0,0 +1,391 @@
+"use client";
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ArrowDown, ArrowUp } from "lucide-react";
+import {
+  cellKey,
+  describeAmountBasis,
+  type CSVRow,
+  type OutputColumn,
+  type PayFrequency,
+  type RowIssue,
+  type RowResult,
+} from "@/lib/selerix";
+
+type ResultsGridProps = {
+  rows: CSVRow[]; // Rows to show: processed rows, or the input before processing
+  results: RowResult[]; // Per-row match details, empty before processing
+  outputColumns: OutputColumn[];
+  payFrequency: PayFrequency;
+  issuesByCell: Map<string, RowIssue[]>; // Data check findings, highlighted in their cells
+  onEditCell?: (rowIndex: number, columnKey: string, value: string) => void; // Called when an output cell is edited
+};
+
+type QuickFilter = "all" | "matched" | "unmatched" | "changed";
+
+const QUICK_FILTER_LABELS: Record<QuickFilter, string> = {
+  all: "All",
+  matched: "Matched",
+  unmatched: "Unmatched",
+  changed: "Changed by rule",
+};
+
+type SortState = { key: string; direction: "asc" | "desc" } | null;
+
+// A grid column: a CSV header, or one of the match detail columns shown before them
+type GridColumn = {
+  key: string;
+  label: string;
+  value: (rowIndex: number) => string;
+};
+
+// Rows are a fixed height so only the ones in view need rendering
+const ROW_HEIGHT = 36;
+const VIEWPORT_HEIGHT = 480;
+const OVERSCAN = 10; // Rows rendered beyond each edge of the viewport to avoid flicker while scrolling
+const COLUMN_WIDTH = 160;
+
+// Compares cell values numerically when both are numbers, otherwise as text with numeric runs ordered naturally
+const compareValues = (a: string, b: string): number => {
+  const x = Number(a);
+  const y = Number(b);
+  if (a !== "" && b !== "" && !isNaN(x) && !isNaN(y)) return x - y;
+  return a.localeCompare(b, undefined, { numeric: true });
+};
+
+// Virtualized grid over every row, with sorting, per-column filters, quick filters and a badge for the rule
+// that populated each row. Output cells can be edited by double-clicking once rows are processed
+const ResultsGrid = ({
+  rows,
+  results,
+  outputColumns,
+  payFrequency,
+  issuesByCell,
+  onEditCell,
+}: ResultsGridProps) => {
+  const [quickFilter, setQuickFilter] = useState<QuickFilter>("all");
+  const [filters, setFilters] = useState<Record<string, string>>({});
+  const [sort, setSort] = useState<SortState>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const viewportRef = useRef<HTMLDivElement>(null);
+  const [editing, setEditing] = useState<{
+    rowIndex: number;
+    header: string;
+    value: string;
+  } | null>(null); // Cell being edited and its unsaved value
+  const processed = results.length > 0;
+
+  // Output column keys by header, for the cells that can be edited
+  const outputKeys = useMemo(
+    () => new Map(outputColumns.map((column) => [column.header, column.key])),
+    [outputColumns]
+  );
+
+  // Rows where the rule filled or overwrote at least one output column, leaving manual overrides aside
+  const changed = useMemo(
+    () =>
+      results.map((result) =>
+        result.changes.some(
+          (change) => change.kind === "filled" || change.kind === "overwritten"
+        )
+      ),
+    [results]
+  );
+
+  const columns = useMemo<GridColumn[]>(() => {
+    const headers = Object.keys(rows[0] ?? {}).filter(
+      (header) => header.trim() !== ""
+    );
+    const details: GridColumn[] = processed
+      ? [
+          {
+            key: "__rule",
+            label: "Rule",
+            value: (i) => {
+              const ruleIndex = results[i]?.ruleIndex;
+              return ruleIndex === null || ruleIndex === undefined
+                ? ""
+                : String(ruleIndex + 1);
+            },
+          },
+          {
+            key: "__amount",
+            label: "Matched Amount",
+            value: (i) =>
+              isNaN(results[i]?.amount) ? "" : results[i].amount.toFixed(2),
+          },
+        ]
+      : [];
+    return [
+      { key: "__row", label: "Row", value: (i) => String(i + 1) },
+      ...details,
+      ...headers.map((header) => ({
+        key: header,
+        label: header,
+        value: (i: number) => rows[i][header] ?? "",
+      })),
+    ];
+  }, [rows, results, processed]);
+
+  // Row indexes that pass the filters, in display order
+  const visible = useMemo(() => {
+    const activeFilters = columns
+      .map((column) => ({
+        column,
+        text: (filters[column.key] ?? "").trim().toLowerCase(),
+      }))
+      .filter(({ text }) => text !== "");
+    const indexes = rows
+      .map((_, index) => index)
+      .filter((index) => {
+        if (processed && quickFilter !== "all") {
+          const matched = results[index]?.ruleIndex !== null;
+          if (quickFilter === "matched" && !matched) return false;
+          if (quickFilter === "unmatched" && matched) return false;
+          if (quickFilter === "changed" && !changed[index]) return false;
+        }
+        return activeFilters.every(({ column, text }) =>
+          column.value(index).toLowerCase().includes(text)
+        );
+      });
+    if (sort) {
+      const column = columns.find((c) => c.key === sort.key);
+      if (column) {
+        const direction = sort.direction === "asc" ? 1 : -1;
+        indexes.sort(
+          (a, b) => direction * compareValues(column.value(a), column.value(b))
+        );
+      }
+    }
+    return indexes;
+  }, [rows, results, processed, columns, filters, sort, quickFilter, changed]);
+
+  // Returns to the top when the filters change, so a shorter list is not scrolled past its end
+  useEffect(() => {
+    if (viewportRef.current) viewportRef.current.scrollTop = 0;
+    setScrollTop(0);
+  }, [filters, quickFilter]);
+
+  // Cycles a column through ascending, descending and unsorted
+  const toggleSort = (key: string) =>
+    setSort((prev) =>
+      prev?.key !== key
+        ? { key, direction: "asc" }
+        : prev.direction === "asc"
+        ? { key, direction: "desc" }
+        : null
+    );
+
+  const first = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN);
+  const last = Math.min(
+    visible.length,
+    Math.ceil((scrollTop + VIEWPORT_HEIGHT) / ROW_HEIGHT) + OVERSCAN
+  );
+  const gridWidth = columns.length * COLUMN_WIDTH;
+
+  // Saves the cell being edited, if its value changed
+  const commitEdit = () => {
+    if (!editing) return;
+    const key = outputKeys.get(editing.header);
+    if (key && editing.value !== rows[editing.rowIndex][editing.header]) {
+      onEditCell?.(editing.rowIndex, key, editing.value);
+    }
+    setEditing(null);
+  };
+
+  // Explains a cell on hover: its data check findings, the override marker, or its full value
+  const cellTitle = (rowIndex: number, column: GridColumn) => {
+    const cellIssues = issuesByCell.get(cellKey(rowIndex, column.key));
+    if (cellIssues) return cellIssues.map((issue) => issue.message).join("\n");
+    if (isOverridden(rowIndex, column.key))
+      return `${column.value(rowIndex)} (manual override)`;
+    const conflict = findConflict(rowIndex, column.key);
+    if (conflict)
+      return `${conflict.before} kept; the rule gives ${conflict.ruleValue}`;
+    return onEditCell && processed && outputKeys.has(column.key)
+      ? `${column.value(rowIndex)} (double-click to edit)`
+      : column.value(rowIndex);
+  };
+
+  const renderCell = (rowIndex: number, column: GridColumn) => {
+    if (editing?.rowIndex === rowIndex && editing.header === column.key) {
+      return (
+        <input
+          autoFocus
+          value={editing.value}
+          onChange={(e) => setEditing({ ...editing, value: e.target.value })}
+          onBlur={commitEdit}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") commitEdit();
+            if (e.key === "Escape") setEditing(null);
+          }}
+          className="w-full border rounded px-1 text-sm text-gray-900"
+        />
+      );
+    }
+    if (column.key === "__rule") {
+      const ruleIndex = results[rowIndex]?.ruleIndex;
+      return ruleIndex !== null && ruleIndex !== undefined ? (
+        <span
+          className="rounded bg-blue-100 text-blue-800 px-2 text-xs"
+          title={results[rowIndex].ruleKey ?? undefined}
+        >
+          #{ruleIndex + 1}
+        </span>
+      ) : (
+        <span className="rounded bg-red-100 text-red-800 px-2 text-xs">
+          none
+        </span>
+      );
+    }
+    if (column.key === "__amount") {
+      return (
+        <>
+          {column.value(rowIndex) || "—"}{" "}
+          <span className="text-xs text-gray-400 ml-1">
+            ({describeAmountBasis(results[rowIndex]?.amountBasis, payFrequency)})
+          </span>
+        </>
+      );
+    }
+    return column.value(rowIndex);
+  };
+
+  const isOverridden = (rowIndex: number, header: string) => {
+    const key = outputKeys.get(header);
+    return key !== undefined && !!results[rowIndex]?.overridden?.includes(key);
+  };
+
+  // The conflict between the original value and the rule value for a cell, when the run flagged one
+  const findConflict = (rowIndex: number, header: string) =>
+    results[rowIndex]?.changes.find(
+      (change) => change.header === header && change.kind === "conflict"
+    );
+
+  const cellClass = (rowIndex: number, key: string) => {
+    if (isOverridden(rowIndex, key))
+      return "bg-purple-50 text-purple-800 font-medium";
+    if (findConflict(rowIndex, key)) return "bg-orange-50 text-orange-800";
+    const cellIssues = issuesByCell.get(cellKey(rowIndex, key));
+    if (!cellIssues) return "text-gray-500";
+    return cellIssues.some((issue) => issue.severity === "error")
+      ? "bg-red-50 text-red-700"
+      : "bg-amber-50 text-amber-700";
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-2 items-center">
+        {processed &&
+          (Object.keys(QUICK_FILTER_LABELS) as QuickFilter[]).map((filter) => (
+            <Button
+              key={filter}
+              variant={quickFilter === filter ? "default" : "outline"}
+              size="sm"
+              onClick={() => setQuickFilter(filter)}
+            >
+              {QUICK_FILTER_LABELS[filter]}
+            </Button>
+          ))}
+        <span className="ml-auto text-sm text-gray-500">
+          Showing {visible.length} of {rows.length} rows
+        </span>
+      </div>
+
+      <div
+        ref={viewportRef}
+        className="border rounded-lg overflow-auto"
+        style={{ height: VIEWPORT_HEIGHT }}
+        onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+      >
+        <div style={{ width: gridWidth }}>
+          <div className="sticky top-0 z-10 bg-gray-50 border-b">
+            <div className="flex">
+              {columns.map((column) => (
+                <button
+                  key={column.key}
+                  type="button"
+                  onClick={() => toggleSort(column.key)}
+                  className="flex items-center gap-1 px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider truncate"
+                  style={{ width: COLUMN_WIDTH }}
+                  title={`Sort by ${column.label}`}
+                >
+                  <span className="truncate">{column.label}</span>
+                  {sort?.key === column.key &&
+                    (sort.direction === "asc" ? (
+                      <ArrowUp className="w-3 h-3 shrink-0" />
+                    ) : (
+                      <ArrowDown className="w-3 h-3 shrink-0" />
+                    ))}
+                </button>
+              ))}
+            </div>
+            <div className="flex">
+              {columns.map((column) => (
+                <div
+                  key={column.key}
+                  className="px-1 pb-1"
+                  style={{ width: COLUMN_WIDTH }}
+                >
+                  <Input
+                    placeholder="Filter"
+                    value={filters[column.key] ?? ""}
+                    onChange={(e) =>
+                      setFilters((prev) => ({
+                        ...prev,
+                        [column.key]: e.target.value,
+                      }))
+                    }
+                    className="h-7 text-xs"
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div
+            className="relative"
+            style={{ height: visible.length * ROW_HEIGHT }}
+          >
+            {visible.slice(first, last).map((rowIndex, offset) => (
+              <div
+                key={rowIndex}
+                className="absolute left-0 flex border-b bg-white"
+                style={{
+                  top: (first + offset) * ROW_HEIGHT,
+                  height: ROW_HEIGHT,
+                }}
+              >
+                {columns.map((column) => (
+                  <div
+                    key={column.key}
+                    className={`px-3 flex items-center text-sm whitespace-nowrap truncate ${cellClass(
+                      rowIndex,
+                      column.key
+                    )}`}
+                    style={{ width: COLUMN_WIDTH }}
+                    title={cellTitle(rowIndex, column)}
+                    onDoubleClick={() => {
+                      if (onEditCell && processed && outputKeys.has(column.key)) {
+                        setEditing({
+                          rowIndex,
+                          header: column.key,
+                          value: column.value(rowIndex),
+                        });
+                      }
+                    }}
+                  >
+                    {renderCell(rowIndex, column)}
+                  </div>
+                ))}
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ResultsGrid;
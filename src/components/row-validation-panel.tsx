@@ -0,0 +1,108 @@
+"use client";
+import React from "react";
+import { Select } from "@/components/ui/select";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import {
+  groupIssuesByRow,
+  ROW_CHECK_LABELS,
+  type RowCheck,
+  type RowIssue,
+  type RowIssueSeverity,
+  type RowValidationOptions,
+} from "@/lib/selerix";
+
+type RowValidationPanelProps = {
+  issues: RowIssue[]; // Problems found in the uploaded rows
+  options: RowValidationOptions;
+  onOptionsChange: (options: RowValidationOptions) => void;
+};
+
+// Rows listed before the rest are summarized, to keep large files readable
+const MAX_LISTED_ROWS = 50;
+
+// Summarizes the problems found in the uploaded data, lists them by row and lets the user choose
+// which checks run and whether they count as errors or warnings
+const RowValidationPanel = ({
+  issues,
+  options,
+  onOptionsChange,
+}: RowValidationPanelProps) => {
+  const errorCount = issues.filter((issue) => issue.severity === "error").length;
+  const warningCount = issues.length - errorCount;
+  const rows = groupIssuesByRow(issues);
+
+  return (
+    <div className="space-y-2">
+      {issues.length === 0 ? (
+        <Alert>
+          <AlertTitle>Data Checks Passed</AlertTitle>
+          <AlertDescription>
+            No problems were found in the uploaded rows.
+          </AlertDescription>
+        </Alert>
+      ) : (
+        <Alert variant={errorCount > 0 ? "destructive" : "default"}>
+          <AlertTitle>
+            {errorCount} {errorCount === 1 ? "error" : "errors"}, {warningCount}{" "}
+            {warningCount === 1 ? "warning" : "warnings"} in {rows.length}{" "}
+            {rows.length === 1 ? "row" : "rows"}
+          </AlertTitle>
+          <AlertDescription>
+            <ul className="mt-2 space-y-1 max-h-48 overflow-y-auto">
+              {rows.slice(0, MAX_LISTED_ROWS).map((row) => (
+                <li key={row.rowIndex}>
+                  Row {row.rowIndex + 1}:{" "}
+                  {row.issues.map((issue, index) => (
+                    <span
+                      key={index}
+                      className={
+                        issue.severity === "error"
+                          ? "text-red-600"
+                          : "text-amber-600"
+                      }
+                    >
+                      {index > 0 && "; "}
+                      {issue.message}
+                    </span>
+                  ))}
+                </li>
+              ))}
+              {rows.length > MAX_LISTED_ROWS && (
+                <li>…and {rows.length - MAX_LISTED_ROWS} more rows</li>
+              )}
+            </ul>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <details className="border rounded-lg p-3">
+        <summary className="cursor-pointer text-sm font-medium">
+          Data Checks
+        </summary>
+        <div className="mt-3 grid grid-cols-2 gap-2">
+          {(Object.keys(ROW_CHECK_LABELS) as RowCheck[]).map((check) => (
+            <label key={check} className="flex gap-2 items-center text-sm">
+              <span className="flex-1">{ROW_CHECK_LABELS[check]}</span>
+              <Select
+                value={options[check]}
+                onChange={(e) =>
+                  onOptionsChange({
+                    ...options,
+                    [check]: e.target.value as RowIssueSeverity | "off",
+                  })
+                }
+                className="w-32"
+              >
+                <option value="error">Error</option>
+                <option value="warning">Warning</option>
+                <option value="off">Off</option>
+              </Select>
+            </label>
+          ))}
+        </div>
+      </details>
+    </div>
+  );
+};
+
+export default RowValidationPanel;
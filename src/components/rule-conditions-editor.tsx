@@ -0,0 +1,123 @@
+"use client";
+import React from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select } from "@/components/ui/select";
+import { Plus, X } from "lucide-react";
+import {
+  CONDITION_MODE_LABELS,
+  CONDITION_OPERATOR_LABELS,
+  type ConditionMode,
+  type ConditionOperator,
+  type RuleCondition,
+} from "@/lib/selerix";
+
+type RuleConditionsEditorProps = {
+  conditions: RuleCondition[]; // Conditions of the rule being edited
+  mode: ConditionMode;
+  columnsListId?: string; // Id of a datalist offering the uploaded file's column headers
+  onChange: (conditions: RuleCondition[], mode: ConditionMode) => void;
+};
+
+const VALUE_PLACEHOLDERS: Record<ConditionOperator, string> = {
+  equals: "Value",
+  in: "Values, comma separated",
+  regex: "Pattern, e.g. ^EX",
+  range: "Range, e.g. 10-20",
+  empty: "",
+};
+
+// Edits the extra column conditions of a single rule, shown beneath its deduction and amount
+const RuleConditionsEditor = ({
+  conditions,
+  mode,
+  columnsListId,
+  onChange,
+}: RuleConditionsEditorProps) => {
+  const updateCondition = (index: number, changes: Partial<RuleCondition>) =>
+    onChange(
+      conditions.map((condition, i) =>
+        i === index ? { ...condition, ...changes } : condition
+      ),
+      mode
+    );
+
+  return (
+    <div className="pl-4 space-y-2">
+      {conditions.length > 1 && (
+        <Select
+          value={mode}
+          onChange={(e) => onChange(conditions, e.target.value as ConditionMode)}
+          className="w-64 h-9"
+        >
+          {Object.entries(CONDITION_MODE_LABELS).map(([value, label]) => (
+            <option key={value} value={value}>
+              {label}
+            </option>
+          ))}
+        </Select>
+      )}
+      {conditions.map((condition, index) => (
+        <div key={index} className="flex gap-2 items-center">
+          <Input
+            placeholder="Column, e.g. Action Flag"
+            value={condition.column}
+            onChange={(e) => updateCondition(index, { column: e.target.value })}
+            list={columnsListId}
+            className="flex-1 h-9"
+          />
+          <Select
+            value={condition.operator}
+            onChange={(e) =>
+              updateCondition(index, {
+                operator: e.target.value as ConditionOperator,
+              })
+            }
+            className="w-44 h-9"
+          >
+            {Object.entries(CONDITION_OPERATOR_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </Select>
+          <Input
+            placeholder={VALUE_PLACEHOLDERS[condition.operator]}
+            value={condition.value}
+            onChange={(e) => updateCondition(index, { value: e.target.value })}
+            disabled={condition.operator === "empty"}
+            className="flex-1 h-9"
+          />
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() =>
+              onChange(
+                conditions.filter((_, i) => i !== index),
+                mode
+              )
+            }
+            title="Remove condition"
+          >
+            <X className="w-4 h-4" />
+          </Button>
+        </div>
+      ))}
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={() =>
+          onChange(
+            [...conditions, { column: "", operator: "equals", value: "" }],
+            mode
+          )
+        }
+      >
+        <Plus className="w-4 h-4 mr-2" />
+        Add Condition
+      </Button>
+    </div>
+  );
+};
+
+export default RuleConditionsEditor;
@@ -0,0 +1,125 @@
+"use client";
+import React from "react";
+import {
+  describeConditions,
+  type Rule,
+  type RuleSetDiff,
+} from "@/lib/selerix";
+
+type RuleDiffViewProps = {
+  diff: RuleSetDiff;
+  beforeLabel?: string;
+  afterLabel?: string;
+};
+
+// Renders one side of a diff row as compact "field: value" pairs, followed by its outputs
+const RuleCell = ({
+  rule,
+  highlight = [],
+}: {
+  rule?: Rule;
+  highlight?: string[]; // Output keys to emphasize
+}) =>
+  rule ? (
+    <span className="space-x-2">
+      <span>deduction: {rule.deduction || "—"}</span>
+      <span>empAmount: {rule.empAmount || "—"}</span>
+      {rule.effectiveFrom && <span>effectiveFrom: {rule.effectiveFrom}</span>}
+      {rule.effectiveTo && <span>effectiveTo: {rule.effectiveTo}</span>}
+      {rule.conditions && <span>where: {describeConditions(rule)}</span>}
+      {[...new Set([...Object.keys(rule.outputs), ...highlight])].map((key) => (
+        <span
+          key={key}
+          className={highlight.includes(key) ? "font-semibold" : undefined}
+        >
+          {key}: {rule.outputs[key] || "—"}
+        </span>
+      ))}
+    </span>
+  ) : null;
+
+// Side-by-side view of added, removed and changed rules between two versions
+const RuleDiffView = ({
+  diff,
+  beforeLabel = "Before",
+  afterLabel = "After",
+}: RuleDiffViewProps) => {
+  const hasChanges =
+    diff.added.length > 0 ||
+    diff.removed.length > 0 ||
+    diff.changed.length > 0 ||
+    diff.renamed !== null ||
+    diff.settings.length > 0 ||
+    diff.outputColumnsChanged ||
+    diff.codeLookupChanged;
+
+  if (!hasChanges) {
+    return <p className="text-sm text-gray-500">No differences.</p>;
+  }
+
+  return (
+    <div className="space-y-2 text-sm">
+      <p className="text-gray-500">
+        {diff.added.length} added, {diff.removed.length} removed,{" "}
+        {diff.changed.length} changed, {diff.unchanged} unchanged
+      </p>
+      {diff.renamed && (
+        <p>
+          Renamed from &ldquo;{diff.renamed.before}&rdquo; to &ldquo;
+          {diff.renamed.after}&rdquo;
+        </p>
+      )}
+      {diff.settings.map((setting) => (
+        <p key={setting.key}>
+          {setting.key}: {setting.before} → {setting.after}
+        </p>
+      ))}
+      {diff.outputColumnsChanged && <p>Output columns changed</p>}
+      {diff.codeLookupChanged && <p>Code lookup changed</p>}
+      <div className="border rounded-lg overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                {beforeLabel}
+              </th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                {afterLabel}
+              </th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {diff.removed.map((rule, index) => (
+              <tr key={`removed-${index}`} className="bg-red-50">
+                <td className="px-4 py-2 whitespace-nowrap">
+                  <RuleCell rule={rule} />
+                </td>
+                <td />
+              </tr>
+            ))}
+            {diff.changed.map((change, index) => (
+              <tr key={`changed-${index}`} className="bg-amber-50">
+                <td className="px-4 py-2 whitespace-nowrap">
+                  <RuleCell rule={change.before} highlight={change.fields} />
+                </td>
+                <td className="px-4 py-2 whitespace-nowrap">
+                  <RuleCell rule={change.after} highlight={change.fields} />
+                </td>
+              </tr>
+            ))}
+            {diff.added.map((rule, index) => (
+              <tr key={`added-${index}`} className="bg-green-50">
+                <td />
+                <td className="px-4 py-2 whitespace-nowrap">
+                  <RuleCell rule={rule} />
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default RuleDiffView;
@@ -0,0 +1,56 @@
+"use client";
+import React from "react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import type { RuleIssue } from "@/lib/selerix";
+
+type RuleIssuesPanelProps = {
+  issues: RuleIssue[]; // Findings from analyzeRules for the current rules
+};
+
+// Shows overlapping, duplicate and unreachable rules, with gaps listed separately
+const RuleIssuesPanel = ({ issues }: RuleIssuesPanelProps) => {
+  const problems = issues.filter((issue) => issue.severity !== "info");
+  const gaps = issues.filter((issue) => issue.severity === "info");
+  const hasErrors = problems.some((issue) => issue.severity === "error");
+
+  if (issues.length === 0) return null;
+
+  return (
+    <Alert variant={hasErrors ? "destructive" : "default"}>
+      <AlertTitle>Rule Analysis</AlertTitle>
+      <AlertDescription className="space-y-2">
+        {problems.length > 0 ? (
+          <ul className="list-disc pl-5">
+            {problems.map((issue, index) => (
+              <li
+                key={index}
+                className={
+                  issue.severity === "error" ? "text-red-500" : "text-amber-600"
+                }
+              >
+                {issue.message}
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p>No overlapping, duplicate or unreachable rules.</p>
+        )}
+        {gaps.length > 0 && (
+          <details>
+            <summary className="cursor-pointer text-gray-500">
+              {gaps.length} amount {gaps.length === 1 ? "gap" : "gaps"} between
+              neighbouring ranges
+            </summary>
+            <ul className="list-disc pl-5 text-gray-500">
+              {gaps.map((issue, index) => (
+                <li key={index}>{issue.message}</li>
+              ))}
+            </ul>
+          </details>
+        )}
+      </AlertDescription>
+    </Alert>
+  );
+};
+
+export default RuleIssuesPanel;
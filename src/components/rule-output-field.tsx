@@ -0,0 +1,88 @@
+"use client";
+import React from "react";
+import { Input } from "@/components/ui/input";
+import { Select } from "@/components/ui/select";
+import {
+  coveragesForPlan,
+  isLookupKey,
+  lookupEntries,
+  plansForCarrier,
+  type CodeLookup,
+  type LookupCode,
+  type OutputColumn,
+  type Rule,
+} from "@/lib/selerix";
+
+type RuleOutputFieldProps = {
+  column: OutputColumn;
+  rule: Rule;
+  codeLookup: CodeLookup; // Codes offered for the carrier, plan and coverage columns
+  onChange: (value: string) => void;
+};
+
+// Codes offered for a column, narrowed by the rule's carrier and plan
+const optionsFor = (
+  column: OutputColumn,
+  rule: Rule,
+  codeLookup: CodeLookup
+): LookupCode[] => {
+  if (column.key === "plan")
+    return plansForCarrier(codeLookup, rule.outputs.carrier ?? "");
+  if (column.key === "coverage")
+    return coveragesForPlan(codeLookup, rule.outputs.plan ?? "");
+  return codeLookup.carriers;
+};
+
+// Edits the value a rule writes to one output column
+// Carrier, plan and coverage are picked from the code lookup when it lists codes for them
+const RuleOutputField = ({
+  column,
+  rule,
+  codeLookup,
+  onChange,
+}: RuleOutputFieldProps) => {
+  const value = rule.outputs[column.key] ?? "";
+
+  if (
+    !isLookupKey(column.key) ||
+    lookupEntries(codeLookup, column.key).length === 0
+  ) {
+    return (
+      <Input
+        placeholder={column.label}
+        title={column.header}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        className="flex-1"
+      />
+    );
+  }
+
+  // A value outside the lookup stays visible so the validation error can be fixed
+  const options = optionsFor(column, rule, codeLookup).filter(
+    (option, index, all) =>
+      all.findIndex((other) => other.code === option.code) === index
+  );
+  const known = !value || options.some((option) => option.code === value);
+
+  return (
+    <Select
+      title={column.header}
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      className="flex-1"
+    >
+      <option value="">{column.label}</option>
+      {!known && <option value={value}>{value} (not in lookup)</option>}
+      {options.map((option) => (
+        <option key={option.code} value={option.code}>
+          {option.description
+            ? `${option.code} — ${option.description}`
+            : option.code}
+        </option>
+      ))}
+    </Select>
+  );
+};
+
+export default RuleOutputField;
@@ -0,0 +1,96 @@
+"use client";
+import React, { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { History, RotateCcw } from "lucide-react";
+import RuleDiffView from "@/components/rule-diff-view";
+import { diffRuleSets, type RuleSetVersion } from "@/lib/selerix";
+
+type RuleSetHistoryProps = {
+  versions: RuleSetVersion[]; // Saved versions of the current rule set, newest first
+  currentVersion?: number;
+  onRollback: (version: number) => void;
+};
+
+// Lists saved versions with author and comment, shows what each save changed and offers rollback
+const RuleSetHistory = ({
+  versions,
+  currentVersion,
+  onRollback,
+}: RuleSetHistoryProps) => {
+  const [selected, setSelected] = useState<number | null>(null);
+
+  if (versions.length === 0) return null;
+
+  const selectedVersion = versions.find((v) => v.version === selected);
+  const previousVersion = versions.find(
+    (v) => selectedVersion && v.version === selectedVersion.version - 1
+  );
+
+  return (
+    <details className="border rounded-lg p-4">
+      <summary className="cursor-pointer font-medium">
+        <History className="inline w-4 h-4 mr-2" />
+        Version History ({versions.length})
+      </summary>
+      <div className="mt-4 space-y-2">
+        {versions.map((version) => (
+          <div
+            key={version.version}
+            className="flex gap-2 items-center justify-between text-sm"
+          >
+            <span>
+              <span className="font-medium">v{version.version}</span>{" "}
+              {new Date(version.createdAt).toLocaleString()} by{" "}
+              {version.author}
+              {version.comment && (
+                <span className="text-gray-500"> — {version.comment}</span>
+              )}
+              {version.version === currentVersion && (
+                <span className="text-xs text-green-600"> (current)</span>
+              )}
+            </span>
+            <span className="flex gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() =>
+                  setSelected(
+                    selected === version.version ? null : version.version
+                  )
+                }
+              >
+                {selected === version.version ? "Hide changes" : "Changes"}
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={version.version === currentVersion}
+                onClick={() => onRollback(version.version)}
+              >
+                <RotateCcw className="w-4 h-4 mr-2" />
+                Roll back
+              </Button>
+            </span>
+          </div>
+        ))}
+        {selectedVersion && (
+          <RuleDiffView
+            diff={diffRuleSets(
+              previousVersion?.snapshot ?? {
+                ...selectedVersion.snapshot,
+                rules: [],
+              },
+              selectedVersion.snapshot
+            )}
+            beforeLabel={
+              previousVersion ? `v${previousVersion.version}` : "(empty)"
+            }
+            afterLabel={`v${selectedVersion.version}`}
+          />
+        )}
+      </div>
+    </details>
+  );
+};
+
+export default RuleSetHistory;
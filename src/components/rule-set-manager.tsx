@@ -0,0 +1,175 @@
+"use client";
+import React, { useRef } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select } from "@/components/ui/select";
+import {
+  Copy,
+  Download,
+  FilePlus,
+  Save,
+  Star,
+  Trash2,
+  Upload,
+} from "lucide-react";
+import type { RuleSet } from "@/lib/selerix";
+
+type RuleSetManagerProps = {
+  ruleSets: RuleSet[]; // Saved rule sets
+  activeId: string;
+  name: string; // Name of the rule set being edited
+  dirty: boolean; // Whether the rule set being edited has unsaved changes
+  isDefault: boolean; // Whether the saved rule set is the team default
+  onSelect: (id: string) => void;
+  onRename: (name: string) => void;
+  onSave: () => void;
+  onMakeDefault: () => void;
+  onCreate: () => void;
+  onDuplicate: () => void;
+  onDelete: () => void;
+  onExport: () => void;
+  onImport: (file: File) => void;
+  author: string; // Name recorded with each saved version
+  comment: string; // Comment recorded with the next save
+  onAuthorChange: (author: string) => void;
+  onCommentChange: (comment: string) => void;
+};
+
+// Toolbar for choosing, saving, duplicating, deleting, exporting and importing rule sets
+// Saves record the author and comment entered below the toolbar
+const RuleSetManager = ({
+  ruleSets,
+  activeId,
+  name,
+  dirty,
+  isDefault,
+  onSelect,
+  onRename,
+  onSave,
+  onMakeDefault,
+  onCreate,
+  onDuplicate,
+  onDelete,
+  onExport,
+  onImport,
+  author,
+  comment,
+  onAuthorChange,
+  onCommentChange,
+}: RuleSetManagerProps) => {
+  const importInput = useRef<HTMLInputElement>(null);
+
+  return (
+    <div className="space-y-2">
+      <label className="block text-sm font-medium">
+        Rule Set{" "}
+        {dirty && (
+          <span className="text-xs text-amber-600">(unsaved changes)</span>
+        )}
+      </label>
+      <div className="flex gap-2 items-center">
+        <Select
+          value={activeId}
+          onChange={(e) => onSelect(e.target.value)}
+          className="flex-1"
+        >
+          {[...ruleSets]
+            .sort((a, b) => a.name.localeCompare(b.name))
+            .map((ruleSet) => (
+              <option key={ruleSet.id} value={ruleSet.id}>
+                {ruleSet.name}
+                {ruleSet.isDefault ? " (default)" : ""}
+              </option>
+            ))}
+        </Select>
+        <Input
+          placeholder="Rule set name"
+          value={name}
+          onChange={(e) => onRename(e.target.value)}
+          className="flex-1"
+        />
+        <Button onClick={onSave} disabled={!dirty} size="sm">
+          <Save className="w-4 h-4 mr-2" />
+          Save
+        </Button>
+        <Button
+          onClick={onMakeDefault}
+          disabled={isDefault}
+          variant="outline"
+          size="icon"
+          title={isDefault ? "This is the default rule set" : "Make default"}
+        >
+          <Star className={isDefault ? "w-4 h-4 fill-current" : "w-4 h-4"} />
+        </Button>
+        <Button
+          onClick={onCreate}
+          variant="outline"
+          size="icon"
+          title="New rule set"
+        >
+          <FilePlus className="w-4 h-4" />
+        </Button>
+        <Button
+          onClick={onDuplicate}
+          variant="outline"
+          size="icon"
+          title="Duplicate rule set"
+        >
+          <Copy className="w-4 h-4" />
+        </Button>
+        <Button
+          onClick={onExport}
+          variant="outline"
+          size="icon"
+          title="Export rule set as JSON"
+        >
+          <Download className="w-4 h-4" />
+        </Button>
+        <Button
+          onClick={() => importInput.current?.click()}
+          variant="outline"
+          size="icon"
+          title="Import rule set from JSON"
+        >
+          <Upload className="w-4 h-4" />
+        </Button>
+        <input
+          ref={importInput}
+          type="file"
+          accept=".json,application/json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) onImport(file);
+            e.target.value = "";
+          }}
+        />
+        <Button
+          onClick={onDelete}
+          disabled={ruleSets.length <= 1 || isDefault}
+          variant="destructive"
+          size="icon"
+          title="Delete rule set"
+        >
+          <Trash2 className="w-4 h-4" />
+        </Button>
+      </div>
+      <div className="flex gap-2 items-center">
+        <Input
+          placeholder="Your name"
+          value={author}
+          onChange={(e) => onAuthorChange(e.target.value)}
+          className="w-48"
+        />
+        <Input
+          placeholder="What changed? (recorded with the next save)"
+          value={comment}
+          onChange={(e) => onCommentChange(e.target.value)}
+          className="flex-1"
+        />
+      </div>
+    </div>
+  );
+};
+
+export default RuleSetManager;
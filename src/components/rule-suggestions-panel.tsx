@@ -0,0 +1,155 @@
+"use client";
+import React, { useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Plus } from "lucide-react";
+import {
+  DEFAULT_SUGGESTION_TOLERANCE,
+  suggestRules,
+  type CSVRow,
+  type ProcessOptions,
+  type Rule,
+} from "@/lib/selerix";
+
+type RuleSuggestionsPanelProps = {
+  rows: CSVRow[]; // Uploaded rows, in canonical form
+  rules: Rule[]; // Rules of the rule set being edited
+  options: ProcessOptions; // Matching settings the candidate ranges are worked out for
+  onAdd: (rules: Rule[]) => void;
+};
+
+// Proposes rules for the deduction and amount combinations in the uploaded file that no rule covers yet
+// Amounts within the tolerance of each other are grouped into one candidate range
+const RuleSuggestionsPanel = ({
+  rows,
+  rules,
+  options,
+  onAdd,
+}: RuleSuggestionsPanelProps) => {
+  const [tolerance, setTolerance] = useState(
+    String(DEFAULT_SUGGESTION_TOLERANCE)
+  );
+  const [skipped, setSkipped] = useState<Set<string>>(new Set()); // Suggestions unticked by the user, by deduction and range
+
+  const suggestions = useMemo(() => {
+    const value = parseFloat(tolerance);
+    return suggestRules(rows, rules, {
+      ...options,
+      tolerance: isNaN(value) || value < 0 ? 0 : value,
+    });
+  }, [rows, rules, options, tolerance]);
+
+  const keyOf = (index: number) =>
+    `${suggestions[index].deduction}|${suggestions[index].rule.empAmount}`;
+  const selected = suggestions.filter((_, index) => !skipped.has(keyOf(index)));
+
+  const toggle = (index: number, checked: boolean) =>
+    setSkipped((prev) => {
+      const next = new Set(prev);
+      if (checked) next.delete(keyOf(index));
+      else next.add(keyOf(index));
+      return next;
+    });
+
+  if (rows.length === 0) return null;
+
+  return (
+    <details className="border rounded-lg p-3">
+      <summary className="cursor-pointer text-sm font-medium">
+        Suggested Rules ({suggestions.length})
+      </summary>
+      <div className="mt-3 space-y-2">
+        <div className="flex gap-2 items-center">
+          <label className="text-sm whitespace-nowrap">
+            Amount tolerance
+          </label>
+          <Input
+            type="number"
+            min="0"
+            step="0.01"
+            value={tolerance}
+            onChange={(e) => setTolerance(e.target.value)}
+            className="w-32"
+          />
+          <div className="flex-1" />
+          <Button
+            onClick={() => onAdd(selected.map((suggestion) => suggestion.rule))}
+            size="sm"
+            disabled={selected.length === 0}
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            Add {selected.length} {selected.length === 1 ? "Rule" : "Rules"}
+          </Button>
+        </div>
+
+        {suggestions.length === 0 ? (
+          <p className="text-sm text-gray-500">
+            Every deduction and amount in the file is covered by a rule.
+          </p>
+        ) : (
+          <div className="border rounded-lg overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3" />
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Deduction
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Proposed Range
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Observed Amounts
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Rows
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Outputs
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {suggestions.map((suggestion, index) => (
+                  <tr key={keyOf(index)}>
+                    <td className="px-6 py-2">
+                      <input
+                        type="checkbox"
+                        checked={!skipped.has(keyOf(index))}
+                        onChange={(e) => toggle(index, e.target.checked)}
+                      />
+                    </td>
+                    <td className="px-6 py-2 whitespace-nowrap text-sm text-gray-500">
+                      {suggestion.deduction}
+                    </td>
+                    <td className="px-6 py-2 whitespace-nowrap text-sm text-gray-500">
+                      {suggestion.rule.empAmount}
+                    </td>
+                    <td className="px-6 py-2 text-sm text-gray-500">
+                      {suggestion.amounts.join(", ")}
+                    </td>
+                    <td className="px-6 py-2 whitespace-nowrap text-sm text-gray-500">
+                      {suggestion.rowCount}
+                    </td>
+                    <td className="px-6 py-2 whitespace-nowrap text-sm text-gray-500">
+                      {Object.values(suggestion.rule.outputs)
+                        .filter(Boolean)
+                        .join(" / ") || "—"}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+        <p className="text-xs text-gray-500">
+          Outputs are copied from the nearest rule for the same deduction,
+          except carrier, plan and coverage: choose those for each added rule
+          before processing.
+        </p>
+      </div>
+    </details>
+  );
+};
+
+export default RuleSuggestionsPanel;
@@ -0,0 +1,175 @@
+"use client";
+import React, { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select } from "@/components/ui/select";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Save, Trash2 } from "lucide-react";
+import {
+  findMissingFields,
+  SCHEMA_FIELDS,
+  type HeaderMapping,
+  type LogicalField,
+  type OutputColumn,
+  type SchemaProfile,
+} from "@/lib/selerix";
+
+type SchemaMappingPanelProps = {
+  headers: string[]; // Headers of the uploaded file
+  mapping: HeaderMapping;
+  outputColumns: OutputColumn[]; // Output columns of the rule set being edited
+  profiles: SchemaProfile[]; // Saved schema profiles
+  profileId: string; // Profile the mapping started from, blank when auto-detected
+  profilesError: string | null; // Why the saved profiles could not be read; saving is disabled while set
+  onMappingChange: (mapping: HeaderMapping) => void;
+  onSelectProfile: (id: string) => void;
+  onSaveProfile: (name: string) => void;
+  onDeleteProfile: (id: string) => void;
+};
+
+// Shows which file header feeds each field and output column, lets the user correct it,
+// and saves the result as a profile for the next file with the same layout
+const SchemaMappingPanel = ({
+  headers,
+  mapping,
+  outputColumns,
+  profiles,
+  profileId,
+  profilesError,
+  onMappingChange,
+  onSelectProfile,
+  onSaveProfile,
+  onDeleteProfile,
+}: SchemaMappingPanelProps) => {
+  const [profileName, setProfileName] = useState("");
+  const missing = findMissingFields(mapping);
+  const selectedProfile = profiles.find((profile) => profile.id === profileId);
+
+  const setField = (field: LogicalField, header: string) => {
+    const fields = { ...mapping.fields, [field]: header };
+    if (!header) delete fields[field];
+    onMappingChange({ ...mapping, fields });
+  };
+
+  const setOutput = (key: string, header: string) => {
+    const outputs = { ...mapping.outputs, [key]: header };
+    if (!header) delete outputs[key];
+    onMappingChange({ ...mapping, outputs });
+  };
+
+  const headerOptions = (blankLabel: string) => (
+    <>
+      <option value="">{blankLabel}</option>
+      {headers.map((header) => (
+        <option key={header} value={header}>
+          {header}
+        </option>
+      ))}
+    </>
+  );
+
+  return (
+    <details className="border rounded-lg p-3" open={missing.length > 0}>
+      <summary className="cursor-pointer text-sm font-medium">
+        Column Mapping
+        {selectedProfile ? ` (${selectedProfile.name})` : " (auto-detected)"}
+      </summary>
+      <div className="mt-3 space-y-3">
+        {profilesError && (
+          <Alert variant="destructive">
+            <AlertTitle>Saved column mappings were not loaded</AlertTitle>
+            <AlertDescription>
+              {profilesError}. Profiles cannot be saved or deleted until it is
+              fixed or cleared.
+            </AlertDescription>
+          </Alert>
+        )}
+        {missing.length > 0 && (
+          <Alert variant="destructive">
+            <AlertTitle>Missing Required Columns</AlertTitle>
+            <AlertDescription>
+              Choose the columns holding{" "}
+              {missing.map((field) => SCHEMA_FIELDS[field].label).join(", ")}{" "}
+              before processing.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <div className="flex gap-2 items-center">
+          <Select
+            value={profileId}
+            onChange={(e) => onSelectProfile(e.target.value)}
+            className="flex-1"
+          >
+            <option value="">Auto-detect</option>
+            {profiles.map((profile) => (
+              <option key={profile.id} value={profile.id}>
+                {profile.name}
+              </option>
+            ))}
+          </Select>
+          <Input
+            placeholder="Profile name"
+            value={profileName}
+            onChange={(e) => setProfileName(e.target.value)}
+            className="flex-1"
+          />
+          <Button
+            onClick={() => {
+              onSaveProfile(profileName.trim());
+              setProfileName("");
+            }}
+            disabled={!profileName.trim() || profilesError !== null}
+            size="sm"
+          >
+            <Save className="w-4 h-4 mr-2" />
+            Save Profile
+          </Button>
+          <Button
+            onClick={() => onDeleteProfile(profileId)}
+            disabled={!selectedProfile || profilesError !== null}
+            variant="destructive"
+            size="icon"
+            title="Delete profile"
+          >
+            <Trash2 className="w-4 h-4" />
+          </Button>
+        </div>
+
+        <div className="grid grid-cols-2 gap-2">
+          {(Object.keys(SCHEMA_FIELDS) as LogicalField[]).map((field) => (
+            <label key={field} className="flex gap-2 items-center text-sm">
+              <span className="w-40">
+                {SCHEMA_FIELDS[field].label}
+                {SCHEMA_FIELDS[field].required && (
+                  <span className="text-red-500"> *</span>
+                )}
+              </span>
+              <Select
+                value={mapping.fields[field] ?? ""}
+                onChange={(e) => setField(field, e.target.value)}
+                className="flex-1"
+              >
+                {headerOptions("(not in file)")}
+              </Select>
+            </label>
+          ))}
+          {outputColumns.map((column) => (
+            <label key={column.key} className="flex gap-2 items-center text-sm">
+              <span className="w-40">{column.label} (output)</span>
+              <Select
+                value={mapping.outputs[column.key] ?? ""}
+                onChange={(e) => setOutput(column.key, e.target.value)}
+                className="flex-1"
+              >
+                {headerOptions(`(add "${column.header}")`)}
+              </Select>
+            </label>
+          ))}
+        </div>
+      </div>
+    </details>
+  );
+};
+
+export default SchemaMappingPanel;
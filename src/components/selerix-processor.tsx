@@ -1,298 +1,272 @@
 "use client";
-import React, { useState, useCallback } from "react";
+import React, { useState, useCallback, useEffect, useMemo } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Select } from "@/components/ui/select";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Upload, Download, Plus, Trash2 } from "lucide-react";
+import CarrierExportPanel from "@/components/carrier-export-panel";
+import ChangeDiffPanel from "@/components/change-diff-panel";
+import CodeLookupEditor from "@/components/code-lookup-editor";
+import ExceptionsPanel from "@/components/exceptions-panel";
+import OutputColumnsEditor from "@/components/output-columns-editor";
+import RuleConditionsEditor from "@/components/rule-conditions-editor";
+import RuleIssuesPanel from "@/components/rule-issues-panel";
+import RuleOutputField from "@/components/rule-output-field";
+import RuleSuggestionsPanel from "@/components/rule-suggestions-panel";
+import OverridesPanel from "@/components/overrides-panel";
+import ProcessingProgress from "@/components/processing-progress";
+import RateSheetImport from "@/components/rate-sheet-import";
+import ResultsGrid from "@/components/results-grid";
+import RowValidationPanel from "@/components/row-validation-panel";
+import RuleSetHistory from "@/components/rule-set-history";
+import RuleSetManager from "@/components/rule-set-manager";
+import SchemaMappingPanel from "@/components/schema-mapping-panel";
+import SummaryPanel from "@/components/summary-panel";
+import { downloadFile } from "@/lib/download";
+import {
+  createProcessingWorker,
+  ProcessingCancelledError,
+  ProcessingWorkerError,
+  type WorkerProgress,
+} from "@/lib/processing-worker";
+import { loadOverrides, saveOverrides } from "@/lib/override-storage";
+import { createApiRuleSetStore } from "@/lib/rule-set-api";
+import {
+  createLocalRuleSetStore,
+  loadActiveRuleSetId,
+  loadAuthor,
+  saveActiveRuleSetId,
+  saveAuthor,
+} from "@/lib/rule-set-storage";
+import {
+  loadSchemaProfiles,
+  saveSchemaProfiles,
+} from "@/lib/schema-profile-storage";
+import {
+  analyzeRules,
+  applyOverrides,
+  assertRequiredColumns,
+  buildOverrideReport,
+  canonicalizeRows,
+  changesToCSV,
+  chooseSchemaProfile,
+  collectExceptions,
+  createEmptyRule,
+  createRuleSet,
+  createSchemaProfile,
+  DEFAULT_ROW_VALIDATION,
+  detectHeaderMapping,
+  duplicateRuleSet,
+  EXCEPTION_REPORT_HEADERS,
+  exceptionsToCSV,
+  exceptionsToRows,
+  exportRuleSet,
+  findMissingFields,
+  hasHistory,
+  indexIssuesByCell,
+  listChanges,
+  MATCH_STRATEGY_LABELS,
+  MONTHLY_COLUMN_LABELS,
+  overridesToCSV,
+  OVERWRITE_POLICY_LABELS,
+  PAY_FREQUENCY_LABELS,
+  parseRuleSetFile,
+  restoreHeaders,
+  SCHEMA_FIELDS,
+  serializeCSV,
+  setOverride,
+  summarizeRun,
+  summaryToCSV,
+  summaryToRows,
+  validateRule,
+  writeWorkbook,
+  XLSX_MIME_TYPE,
+  type ConditionMode,
+  type CodeLookup,
+  type CSVRow,
+  type ExceptionRow,
+  type HeaderMapping,
+  type MatchStrategy,
+  type MonthlyColumnMode,
+  type OverwritePolicy,
+  type OutputColumn,
+  type Override,
+  type ProcessResult,
+  type PayFrequency,
+  type RowIssue,
+  type RowValidationOptions,
+  type Rule,
+  type RuleCondition,
+  type RuleSet,
+  type RuleSetSettings,
+  type RuleSetStore,
+  type RuleSetVersion,
+  type SchemaProfile,
+} from "@/lib/selerix";
 
-// Defines the structure for processing rules that determine how to populate health insurance fields
-// Each rule maps a specific deduction code and employee amount to corresponding insurance details
-type Rule = {
-  deduction: string; // Deduction code from the CSV
-  empAmount: string; // Employee amount/percentage (can be single value "0" or range "65-65.5")
-  carrier: string; // Insurance carrier to be populated
-  coverage: string; // Coverage type to be populated
-  level: string; // Insurance level
-  plan: string; // Insurance plan
-};
-
-// Defines the structure of each row in the CSV file
-// Uses string indexing to allow dynamic access to properties
-type CSVRow = {
-  [key: string]: string; // Allows accessing properties using string keys
-  SSN: string;
-  "Empe Amt/Pct": string; // Employee amount/percentage
-  "Empe Amt/Pct Montly": string; // Monthly employee amount/percentage
-  "Start Date": string;
-  Deduction: string; // Deduction code
-  "End Date": string;
-  "Hlth Ins Carrie": string; // Health insurance carrier (to be populated)
-  "Hlth Ins Cvrage": string; // Health insurance coverage (to be populated)
-  "Hlth Ins Level": string; // Health insurance level (to be populated)
-  "Hlth Ins Plan": string; // Health insurance plan (to be populated)
-  "Action Flag": string;
-  EmployeeIdent: string;
-};
+// Rule sets are shared through the server; browser storage is the fallback when the API is unavailable
+const apiRuleSetStore = createApiRuleSetStore();
+const localRuleSetStore = createLocalRuleSetStore();
 
-// Validates if the amount string is in correct format
-// Returns true if empty, a valid number, or a valid range (e.g., "65-65.5")
-const isValidAmount = (amount: string): boolean => {
-  if (!amount) return true;
-  if (!isNaN(parseFloat(amount))) return true;
-  const parts = amount.split("-");
-  if (parts.length !== 2) return false;
-  return !isNaN(parseFloat(parts[0])) && !isNaN(parseFloat(parts[1]));
-};
-
-// Checks if a numeric value falls within the specified range or matches exact amount
-// Handles both single values and ranges (e.g., "65" or "65-65.5")
-const isWithinRange = (value: number, ruleAmount: string): boolean => {
-  if (!ruleAmount.includes("-")) {
-    return value === parseFloat(ruleAmount);
-  }
-  const [min, max] = ruleAmount.split("-").map(parseFloat);
-  return value >= min && value <= max;
-};
+// Uploads are read, checked and matched in a Web Worker so large files do not freeze the page
+const processingWorker = createProcessingWorker();
 
-// Add this after the type definitions and before the component
-
-// Define default rules based on VBA conditions
-const defaultRules: Rule[] = [
-  // Medical code 2400
-  {
-    deduction: "2400",
-    empAmount: "30-30.1",
-    carrier: "AETN",
-    coverage: "1",
-    level: "1",
-    plan: "HLTH",
-  },
-  {
-    deduction: "2400",
-    empAmount: "138-138.1",
-    carrier: "AETN",
-    coverage: "10",
-    level: "1",
-    plan: "HLTH",
-  },
-  {
-    deduction: "2400",
-    empAmount: "228-228.1",
-    carrier: "AETN",
-    coverage: "2",
-    level: "1",
-    plan: "HLTH",
-  },
-  {
-    deduction: "2400",
-    empAmount: "298-298.1",
-    carrier: "AETN",
-    coverage: "3",
-    level: "1",
-    plan: "HLTH",
-  },
-  {
-    deduction: "2400",
-    empAmount: "458-458.1",
-    carrier: "AETN",
-    coverage: "4",
-    level: "1",
-    plan: "HLTH",
-  },
-  {
-    deduction: "2400",
-    empAmount: "58-58.1",
-    carrier: "AETN",
-    coverage: "90",
-    level: "1",
-    plan: "HLTH",
-  },
-  {
-    deduction: "2400",
-    empAmount: "170-170.1",
-    carrier: "AETN",
-    coverage: "94",
-    level: "1",
-    plan: "HLTH",
-  },
-  {
-    deduction: "2400",
-    empAmount: "260-260.1",
-    carrier: "AETN",
-    coverage: "91",
-    level: "1",
-    plan: "HLTH",
-  },
-  {
-    deduction: "2400",
-    empAmount: "330-330.1",
-    carrier: "AETN",
-    coverage: "92",
-    level: "1",
-    plan: "HLTH",
-  },
-  {
-    deduction: "2400",
-    empAmount: "490-490.1",
-    carrier: "AETN",
-    coverage: "93",
-    level: "1",
-    plan: "HLTH",
-  },
-  // Medical code 2401
-  {
-    deduction: "2401",
-    empAmount: "0",
-    carrier: "AETN",
-    coverage: "1",
-    level: "1",
-    plan: "H-CD",
-  },
-  {
-    deduction: "2401",
-    empAmount: "92-92.1",
-    carrier: "AETN",
-    coverage: "10",
-    level: "1",
-    plan: "H-CD",
-  },
-  {
-    deduction: "2401",
-    empAmount: "122-122.1",
-    carrier: "AETN",
-    coverage: "2",
-    level: "1",
-    plan: "H-CD",
-  },
-  {
-    deduction: "2401",
-    empAmount: "162-162.1",
-    carrier: "AETN",
-    coverage: "3",
-    level: "1",
-    plan: "H-CD",
-  },
-  {
-    deduction: "2401",
-    empAmount: "262-262.1",
-    carrier: "AETN",
-    coverage: "4",
-    level: "1",
-    plan: "H-CD",
-  },
-  {
-    deduction: "2401",
-    empAmount: "28-28.1",
-    carrier: "AETN",
-    coverage: "90",
-    level: "1",
-    plan: "H-CD",
-  },
-  {
-    deduction: "2401",
-    empAmount: "120-120.1",
-    carrier: "AETN",
-    coverage: "94",
-    level: "1",
-    plan: "H-CD",
-  },
-  {
-    deduction: "2401",
-    empAmount: "150-150.1",
-    carrier: "AETN",
-    coverage: "91",
-    level: "1",
-    plan: "H-CD",
-  },
-  {
-    deduction: "2401",
-    empAmount: "190-190.1",
-    carrier: "AETN",
-    coverage: "92",
-    level: "1",
-    plan: "H-CD",
-  },
-  {
-    deduction: "2401",
-    empAmount: "290-290.1",
-    carrier: "AETN",
-    coverage: "93",
-    level: "1",
-    plan: "H-CD",
-  },
-  // Dental code 2410
-  {
-    deduction: "2410",
-    empAmount: "15.4-15.6",
-    carrier: "AMER",
-    coverage: "5",
-    level: "1",
-    plan: "DENT",
-  },
-  {
-    deduction: "2410",
-    empAmount: "33.4-33.6",
-    carrier: "AMER",
-    coverage: "6",
-    level: "1",
-    plan: "DENT",
-  },
-  {
-    deduction: "2410",
-    empAmount: "51.9-52.1",
-    carrier: "AMER",
-    coverage: "7",
-    level: "1",
-    plan: "DENT",
-  },
-  // Vision code 2411
-  {
-    deduction: "2411",
-    empAmount: "3.1-3.2",
-    carrier: "STAN",
-    coverage: "70",
-    level: "1",
-    plan: "VISS",
-  },
-  {
-    deduction: "2411",
-    empAmount: "6-6.1",
-    carrier: "STAN",
-    coverage: "71",
-    level: "1",
-    plan: "VISS",
-  },
-  {
-    deduction: "2411",
-    empAmount: "6.2-6.3",
-    carrier: "STAN",
-    coverage: "72",
-    level: "1",
-    plan: "VISS",
-  },
-  {
-    deduction: "2411",
-    empAmount: "9.2-9.3",
-    carrier: "STAN",
-    coverage: "73",
-    level: "1",
-    plan: "VISS",
-  },
-];
+// Compares the parts of two rule sets a user can edit
+const sameRuleSetContent = (a: RuleSet, b: RuleSet): boolean =>
+  a.name === b.name &&
+  JSON.stringify(a.rules) === JSON.stringify(b.rules) &&
+  JSON.stringify(a.settings) === JSON.stringify(b.settings) &&
+  JSON.stringify(a.outputColumns) === JSON.stringify(b.outputColumns) &&
+  JSON.stringify(a.codeLookup) === JSON.stringify(b.codeLookup);
 
 const SelerixProcessor = () => {
   // State management for the application
-  const [csvData, setCsvData] = useState<CSVRow[]>([]); // Stores original CSV data
-  const [processedData, setProcessedData] = useState<CSVRow[]>([]); // Stores processed CSV data
-  const [rules, setRules] = useState<Rule[]>(defaultRules); // Stores processing rules
+  const [rawRows, setRawRows] = useState<CSVRow[]>([]); // Stores CSV rows as read, under the file's own headers
+  const [csvHeaders, setCsvHeaders] = useState<string[]>([]); // Stores the header row of the uploaded file
+  const [uploadedFile, setUploadedFile] = useState<File | null>(null); // Stores the uploaded file, re-read when another sheet is picked
+  const [sheetNames, setSheetNames] = useState<string[]>([]); // Sheets of the uploaded workbook, empty for CSV files
+  const [sheetName, setSheetName] = useState(""); // Sheet of the workbook the rows were read from
+  const [headerMapping, setHeaderMapping] = useState<HeaderMapping>({
+    fields: {},
+    outputs: {},
+  }); // Stores which file header holds each field and output column
+  const [schemaProfiles, setSchemaProfiles] = useState<SchemaProfile[]>([]); // Stores saved header mappings
+  const [schemaProfileId, setSchemaProfileId] = useState(""); // Profile the mapping started from, blank when auto-detected
+  const [schemaProfilesError, setSchemaProfilesError] = useState<string | null>(null); // Saved profiles are not overwritten while set
+  const [ruleResult, setRuleResult] = useState<ProcessResult | null>(null); // Stores the rule output of the last run, before overrides
+  const [overrides, setOverrides] = useState<Override[]>([]); // Stores hand-entered output values for the uploaded file, kept across runs and visits
+  const [overridesError, setOverridesError] = useState<string | null>(null); // Saved overrides are not overwritten while set
+  const [exceptions, setExceptions] = useState<ExceptionRow[]>([]); // Stores rows no rule matched in the last run
+  const [ruleSetStore, setRuleSetStore] =
+    useState<RuleSetStore>(apiRuleSetStore); // Where rule sets are loaded from and saved to
+  const [ruleSets, setRuleSets] = useState<RuleSet[]>([]); // Stores saved rule sets
+  const [draft, setDraft] = useState<RuleSet>(() =>
+    createRuleSet("Default Rules")
+  ); // Stores the rule set being edited, including unsaved changes
+  const [versions, setVersions] = useState<RuleSetVersion[]>([]); // Stores the saved versions of the rule set being edited
+  const [author, setAuthor] = useState(""); // Name recorded with each saved version
+  const [comment, setComment] = useState(""); // Comment recorded with the next save
+  const [rowValidation, setRowValidation] = useState<RowValidationOptions>(
+    DEFAULT_ROW_VALIDATION
+  ); // Stores which data checks run and how severe their findings are
   const [loading, setLoading] = useState(false); // Loading state for async operations
-  const [uniqueDeductions, setUniqueDeductions] = useState<string[]>([]); // Stores unique deduction codes from CSV
-  const [uniqueAmounts, setUniqueAmounts] = useState<string[]>([]); // Stores unique amounts from CSV
+  const [progress, setProgress] = useState<WorkerProgress | null>(null); // Progress of the file being read or processed in the worker
+  const [rowIssues, setRowIssues] = useState<RowIssue[]>([]); // Problems in the uploaded data, checked in the worker
   const [validationErrors, setValidationErrors] = useState<{
     [key: string]: string;
   }>({}); // Stores validation errors for rules
 
+  const rules = draft.rules;
+  const outputColumns = draft.outputColumns;
+  const codeLookup = draft.codeLookup;
+  const { payFrequency, monthlyColumn, matchStrategy, overwritePolicy } =
+    draft.settings;
+  const savedRuleSet = ruleSets.find((ruleSet) => ruleSet.id === draft.id);
+  const dirty = !savedRuleSet || !sameRuleSetContent(savedRuleSet, draft);
+
+  // Uploaded rows with mapped columns renamed to the headers the engine reads
+  const csvData = useMemo(
+    () => canonicalizeRows(rawRows, headerMapping, outputColumns),
+    [rawRows, headerMapping, outputColumns]
+  );
+
+  // The last run with manual overrides applied on top of the rule output
+  const finalResult = useMemo(
+    () => ruleResult && applyOverrides(ruleResult, overrides, outputColumns),
+    [ruleResult, overrides, outputColumns]
+  );
+  const processedData = useMemo(() => finalResult?.rows ?? [], [finalResult]);
+  const rowResults = useMemo(() => finalResult?.results ?? [], [finalResult]);
+  const overrideReport = useMemo(
+    () => buildOverrideReport(overrides, ruleResult, outputColumns),
+    [overrides, ruleResult, outputColumns]
+  );
+
+  // Totals of the last run as it will be sent, for reconciling against carrier invoices
+  const summary = useMemo(
+    () => finalResult && summarizeRun(finalResult, outputColumns),
+    [finalResult, outputColumns]
+  );
+
+  // Rows shown in the results grid: the processed rows once available, otherwise the input
+  const processed = processedData.length > 0;
+  const previewRows = processed ? processedData : csvData;
+
+  // Checks the uploaded data in the worker whenever the rows or the checks change
+  // A result that arrives after newer rows were loaded is dropped
+  useEffect(() => {
+    if (csvData.length === 0) {
+      setRowIssues([]);
+      return;
+    }
+    let current = true;
+    processingWorker
+      .validate(csvData, rowValidation)
+      .then((issues) => {
+        if (current) setRowIssues(issues);
+      })
+      .catch(() => {
+        // Cancelled along with an upload or run; the next change checks again
+      });
+    return () => {
+      current = false;
+    };
+  }, [csvData, rowValidation]);
+
+  // Problems in the uploaded data, indexed by cell for highlighting in the preview
+  const issuesByCell = useMemo(() => indexIssuesByCell(rowIssues), [rowIssues]);
+
+  // Unique deductions and amounts from the CSV, offered when writing rules
+  const uniqueDeductions = useMemo(
+    () => [...new Set(csvData.map((row) => row.Deduction))].filter(Boolean),
+    [csvData]
+  );
+  const uniqueAmounts = useMemo(
+    () =>
+      [...new Set(csvData.map((row) => row["Empe Amt/Pct"]))].filter(Boolean),
+    [csvData]
+  );
+
+  // Matching settings the rule suggestions are worked out for
+  const suggestionOptions = useMemo(
+    () => ({ payFrequency, monthlyColumn, matchStrategy, outputColumns }),
+    [payFrequency, monthlyColumn, matchStrategy, outputColumns]
+  );
+
+  // Updates the rules of the rule set being edited
+  const setRules = useCallback((update: (rules: Rule[]) => Rule[]) => {
+    setDraft((prev) => ({ ...prev, rules: update(prev.rules) }));
+  }, []);
+
+  // Updates the matching settings of the rule set being edited
+  const updateSettings = useCallback((settings: Partial<RuleSetSettings>) => {
+    setDraft((prev) => ({
+      ...prev,
+      settings: { ...prev.settings, ...settings },
+    }));
+  }, []);
+
+  // Updates the output columns of the rule set being edited
+  const setOutputColumns = useCallback((columns: OutputColumn[]) => {
+    setDraft((prev) => ({ ...prev, outputColumns: columns }));
+  }, []);
+
+  // Updates the code lookup of the rule set being edited
+  const setCodeLookup = useCallback((lookup: CodeLookup) => {
+    setDraft((prev) => ({ ...prev, codeLookup: lookup }));
+  }, []);
+
+  // Column headers of the uploaded file, offered when writing rule conditions
+  const csvColumns = useMemo(() => Object.keys(csvData[0] ?? {}), [csvData]);
+
+  // Static analysis of the current rules, refreshed as they are edited
+  const ruleIssues = useMemo(
+    () => analyzeRules(rules, matchStrategy),
+    [rules, matchStrategy]
+  );
+
   // Notification state for user feedback
   const [notification, setNotification] = useState<{
     show: boolean;
@@ -313,8 +287,66 @@ const SelerixProcessor = () => {
     }, 3000);
   };
 
-  // Handles CSV file upload and parsing
-  // Extracts unique deduction codes and amounts for reference
+  // Loads parsed rows from an uploaded file or sheet, mapping its headers from the best-fitting profile
+  const loadRows = useCallback(
+    (data: CSVRow[], headers: string[]) => {
+      const profile = chooseSchemaProfile(headers, schemaProfiles);
+      const mapping = detectHeaderMapping(
+        headers,
+        outputColumns,
+        profile ?? undefined
+      );
+      const missing = findMissingFields(mapping);
+
+      setRawRows(data);
+      setCsvHeaders(headers);
+      // Results from the previous file no longer line up with these rows
+      setRuleResult(null);
+      setExceptions([]);
+      setHeaderMapping(mapping);
+      setSchemaProfileId(profile?.id ?? "");
+
+      const deductions = [
+        ...new Set(
+          canonicalizeRows(data, mapping, outputColumns).map(
+            (row) => row.Deduction
+          )
+        ),
+      ].filter(Boolean);
+      const source = profile ? ` using profile "${profile.name}"` : "";
+      showNotification(
+        missing.length > 0 ? "Check column mapping" : "Success",
+        missing.length > 0
+          ? `Loaded ${data.length} rows${source}, but no column was found for ${missing
+              .map((field) => SCHEMA_FIELDS[field].label)
+              .join(", ")}`
+          : `Loaded ${data.length} rows with ${deductions.length} unique deductions${source}`,
+        missing.length > 0 ? "error" : "success"
+      );
+    },
+    [schemaProfiles, outputColumns]
+  );
+
+  // Brings back the overrides saved for a file when it is uploaded again
+  const restoreOverrides = useCallback((file: File) => {
+    try {
+      setOverrides(loadOverrides(file));
+      setOverridesError(null);
+    } catch (error) {
+      setOverrides([]);
+      setOverridesError(
+        error instanceof Error ? error.message : String(error)
+      );
+    }
+  }, []);
+
+  // Saves the overrides for the uploaded file whenever they change
+  useEffect(() => {
+    if (uploadedFile && !overridesError) saveOverrides(uploadedFile, overrides);
+  }, [uploadedFile, overrides, overridesError]);
+
+  // Handles CSV or Excel file upload and parsing
+  // CSV files are parsed as they stream in; Excel workbooks are read whole, starting from the first sheet
   const handleFileUpload = useCallback(
     async (event: React.ChangeEvent<HTMLInputElement>) => {
       try {
@@ -322,101 +354,452 @@ const SelerixProcessor = () => {
         const file = event.target.files?.[0];
         if (!file) return;
 
-        const text = await file.text();
-        const rows = text.split("\n");
-        const headers = rows[0].split(",").map((h) => h.trim());
-
-        // Parse CSV rows into objects using headers as keys
-        const data = rows
-          .slice(1)
-          .filter((row) => row.trim() !== "") // Remove completely empty rows
-          .map((row) => {
-            const values = row.split(",");
-            const rowObj = headers.reduce((obj, header, index) => {
-              obj[header.trim()] = values[index]?.trim() || "";
-              return obj;
-            }, {} as CSVRow);
-            // Only include rows that have at least one non-empty value
-            const hasValues = Object.values(rowObj).some(
-              (value) => value !== ""
-            );
-            return hasValues ? rowObj : null;
-          })
-          .filter((row): row is CSVRow => row !== null); // Remove any null rows
-
-        // Extract unique deductions and amounts for reference
-        const deductions = [
-          ...new Set(data.map((row) => row.Deduction)),
-        ].filter(Boolean);
-        const amounts = [
-          ...new Set(data.map((row) => row["Empe Amt/Pct"])),
-        ].filter(Boolean);
-
-        setUniqueDeductions(deductions);
-        setUniqueAmounts(amounts);
-        setCsvData(data);
+        const upload = await processingWorker.parse(
+          file,
+          undefined,
+          setProgress
+        );
+        setUploadedFile(file);
+        restoreOverrides(file);
+        setSheetNames(upload.sheetNames);
+        setSheetName(upload.sheetName);
+        loadRows(upload.rows, upload.headers);
+      } catch (error) {
+        if (error instanceof ProcessingCancelledError) {
+          showNotification("Cancelled", "The file was not loaded", "success");
+          return;
+        }
+        showNotification(
+          "Error",
+          error instanceof ProcessingWorkerError && error.expected
+            ? `${error.message}. Please check the file format and try again`
+            : "Please check the file format and try again",
+          "error"
+        );
+      } finally {
+        setLoading(false);
+        setProgress(null);
+        // Lets the same file be chosen again after a cancelled or failed upload
+        event.target.value = "";
+      }
+    },
+    [loadRows, restoreOverrides]
+  );
+
+  // Reads the rows of another sheet of the uploaded workbook
+  const selectSheet = useCallback(
+    async (name: string) => {
+      if (!uploadedFile) return;
+      try {
+        setLoading(true);
+        const upload = await processingWorker.parse(
+          uploadedFile,
+          name,
+          setProgress
+        );
+        setSheetName(name);
+        loadRows(upload.rows, upload.headers);
+      } catch (error) {
+        if (error instanceof ProcessingCancelledError) return;
+        showNotification(
+          "Error",
+          error instanceof Error ? error.message : "Could not read sheet",
+          "error"
+        );
+      } finally {
+        setLoading(false);
+        setProgress(null);
+      }
+    },
+    [uploadedFile, loadRows]
+  );
+
+  // Stops the upload or run in progress
+  const cancelProcessing = useCallback(() => {
+    processingWorker.cancel();
+  }, []);
+
+  // Loads the schema profiles saved in this browser
+  useEffect(() => {
+    try {
+      setSchemaProfiles(loadSchemaProfiles());
+    } catch (error) {
+      setSchemaProfilesError(
+        error instanceof Error
+          ? error.message
+          : "Saved column mappings could not be read"
+      );
+    }
+  }, []);
+
+  // Re-maps the uploaded file from a saved profile, or by auto-detection when id is blank
+  const selectSchemaProfile = useCallback(
+    (id: string) => {
+      const profile = schemaProfiles.find((p) => p.id === id);
+      setSchemaProfileId(profile?.id ?? "");
+      setHeaderMapping(detectHeaderMapping(csvHeaders, outputColumns, profile));
+    },
+    [schemaProfiles, csvHeaders, outputColumns]
+  );
+
+  // Saves the current header mapping as a new profile
+  const saveSchemaProfile = useCallback(
+    (name: string) => {
+      if (schemaProfilesError) {
+        showNotification("Error", schemaProfilesError, "error");
+        return;
+      }
+      const profile = createSchemaProfile(name, headerMapping);
+      const profiles = [...schemaProfiles, profile];
+      saveSchemaProfiles(profiles);
+      setSchemaProfiles(profiles);
+      setSchemaProfileId(profile.id);
+      showNotification("Success", `Saved column mapping "${name}"`, "success");
+    },
+    [schemaProfiles, schemaProfilesError, headerMapping]
+  );
 
+  // Deletes a saved profile; the current mapping is kept
+  const deleteSchemaProfile = useCallback(
+    (id: string) => {
+      if (schemaProfilesError) {
+        showNotification("Error", schemaProfilesError, "error");
+        return;
+      }
+      const profiles = schemaProfiles.filter((profile) => profile.id !== id);
+      saveSchemaProfiles(profiles);
+      setSchemaProfiles(profiles);
+      setSchemaProfileId("");
+    },
+    [schemaProfiles, schemaProfilesError]
+  );
+
+  // Switches to a rule set, discarding any stale validation messages
+  const activateRuleSet = useCallback((ruleSet: RuleSet) => {
+    setDraft(ruleSet);
+    setValidationErrors({});
+    saveActiveRuleSetId(ruleSet.id);
+  }, []);
+
+  // Loads the shared rule sets from the server, falling back to browser storage if it cannot be reached
+  // Starts with the last rule set used in this browser, then the default set
+  useEffect(() => {
+    const load = async () => {
+      let store: RuleSetStore = apiRuleSetStore;
+      let saved: RuleSet[];
+      try {
+        saved = await store.list();
+      } catch {
+        store = localRuleSetStore;
+        saved = await store.list();
+        if (saved.length === 0) {
+          saved = [
+            await store.save({
+              ...createRuleSet("Default Rules"),
+              isDefault: true,
+            }),
+          ];
+        }
+        showNotification(
+          "Offline",
+          "Rule set server unavailable; using rule sets saved in this browser",
+          "error"
+        );
+      }
+      setRuleSetStore(store);
+      setRuleSets(saved);
+      setAuthor(loadAuthor());
+      const activeId = loadActiveRuleSetId();
+      activateRuleSet(
+        saved.find((set) => set.id === activeId) ??
+          saved.find((set) => set.isDefault) ??
+          saved[0]
+      );
+    };
+    load().catch((error) =>
+      showNotification(
+        "Error",
+        error instanceof Error
+          ? error.message
+          : "Saved rule sets could not be loaded",
+        "error"
+      )
+    );
+  }, [activateRuleSet]);
+
+  // Loads the version history of the rule set being edited whenever a new version is saved
+  useEffect(() => {
+    if (!hasHistory(ruleSetStore) || draft.version === undefined) {
+      setVersions([]);
+      return;
+    }
+    ruleSetStore
+      .listVersions(draft.id)
+      .then(setVersions)
+      .catch(() => setVersions([]));
+  }, [ruleSetStore, draft.id, draft.version]);
+
+  // Remembers the author name between visits
+  const updateAuthor = useCallback((name: string) => {
+    setAuthor(name);
+    saveAuthor(name);
+  }, []);
+
+  // Saves a rule set with the given version comment and refreshes the list of saved sets
+  // Stores that keep a history need an author for the audit trail
+  const storeRuleSet = useCallback(
+    async (ruleSet: RuleSet, versionComment: string) => {
+      if (hasHistory(ruleSetStore) && !author.trim()) {
+        throw new Error("Enter your name before saving rule sets");
+      }
+      const saved = await ruleSetStore.save(ruleSet, {
+        author,
+        comment: versionComment,
+      });
+      setRuleSets((prev) => [
+        ...prev.filter((set) => set.id !== saved.id),
+        saved,
+      ]);
+      return saved;
+    },
+    [ruleSetStore, author]
+  );
+
+  // Switches to another saved rule set, asking first if there are unsaved changes
+  const selectRuleSet = useCallback(
+    (id: string) => {
+      const ruleSet = ruleSets.find((set) => set.id === id);
+      if (!ruleSet) return;
+      if (dirty && !window.confirm("Discard unsaved changes to this rule set?"))
+        return;
+      activateRuleSet(ruleSet);
+    },
+    [ruleSets, dirty, activateRuleSet]
+  );
+
+  // Saves the rule set being edited
+  const saveRuleSet = useCallback(async () => {
+    try {
+      activateRuleSet(await storeRuleSet(draft, comment));
+      setComment("");
+      showNotification("Success", `Saved rule set "${draft.name}"`, "success");
+    } catch (error) {
+      showNotification(
+        "Error",
+        error instanceof Error ? error.message : "Rule set could not be saved",
+        "error"
+      );
+    }
+  }, [draft, comment, storeRuleSet, activateRuleSet]);
+
+  // Makes the saved version of the current rule set the team default
+  const makeDefaultRuleSet = useCallback(async () => {
+    if (!savedRuleSet) return;
+    try {
+      const updated = await storeRuleSet(
+        { ...savedRuleSet, isDefault: true },
+        "Made default rule set"
+      );
+      // Other sets lose their default flag, so reload them all
+      setRuleSets(await ruleSetStore.list());
+      setDraft((prev) => ({
+        ...prev,
+        isDefault: true,
+        version: updated.version,
+      }));
+      showNotification(
+        "Success",
+        `"${savedRuleSet.name}" is now the default rule set`,
+        "success"
+      );
+    } catch (error) {
+      showNotification(
+        "Error",
+        error instanceof Error ? error.message : "Default could not be changed",
+        "error"
+      );
+    }
+  }, [ruleSetStore, savedRuleSet, storeRuleSet]);
+
+  // Creates, duplicates or imports a rule set, saves it and switches to it
+  // Duplicating carries unsaved edits into the copy, so it skips the discard prompt
+  // Returns whether the rule set was saved
+  const addRuleSet = useCallback(
+    async (
+      ruleSet: RuleSet,
+      versionComment: string,
+      confirmDiscard = true
+    ): Promise<boolean> => {
+      if (
+        confirmDiscard &&
+        dirty &&
+        !window.confirm("Discard unsaved changes to this rule set?")
+      )
+        return false;
+      try {
+        activateRuleSet(await storeRuleSet(ruleSet, versionComment));
+        return true;
+      } catch (error) {
+        showNotification(
+          "Error",
+          error instanceof Error ? error.message : "Rule set could not be saved",
+          "error"
+        );
+        return false;
+      }
+    },
+    [dirty, storeRuleSet, activateRuleSet]
+  );
+
+  // Deletes the rule set being edited and switches to another one
+  const deleteRuleSet = useCallback(async () => {
+    const remaining = ruleSets.filter((set) => set.id !== draft.id);
+    if (remaining.length === 0) return;
+    if (!window.confirm(`Delete rule set "${draft.name}"?`)) return;
+    try {
+      await ruleSetStore.remove(draft.id);
+      setRuleSets(remaining);
+      activateRuleSet(remaining.find((set) => set.isDefault) ?? remaining[0]);
+    } catch (error) {
+      showNotification(
+        "Error",
+        error instanceof Error ? error.message : "Rule set could not be deleted",
+        "error"
+      );
+    }
+  }, [ruleSetStore, ruleSets, draft, activateRuleSet]);
+
+  // Restores an earlier version of the rule set being edited as a new version
+  const rollbackRuleSet = useCallback(
+    async (version: number) => {
+      if (!hasHistory(ruleSetStore)) return;
+      if (
+        !window.confirm(
+          dirty
+            ? `Discard unsaved changes and roll back to version ${version}?`
+            : `Roll back to version ${version}?`
+        )
+      )
+        return;
+      try {
+        if (!author.trim()) {
+          throw new Error("Enter your name before saving rule sets");
+        }
+        const restored = await ruleSetStore.rollback(draft.id, version, {
+          author,
+          comment,
+        });
+        setComment("");
+        setRuleSets((prev) =>
+          prev.map((set) => (set.id === restored.id ? restored : set))
+        );
+        activateRuleSet(restored);
         showNotification(
           "Success",
-          `Loaded ${data.length} rows with ${deductions.length} unique deductions`,
+          `Rolled back to version ${version}`,
           "success"
         );
       } catch (error) {
         showNotification(
           "Error",
-          "Please check the file format and try again",
+          error instanceof Error ? error.message : "Rollback failed",
           "error"
         );
-      } finally {
-        setLoading(false);
       }
     },
-    []
+    [ruleSetStore, dirty, author, comment, draft.id, activateRuleSet]
   );
 
-  // Validates a single rule for completeness and correct format
-  const validateRule = (rule: Rule): string[] => {
-    const errors: string[] = [];
-    if (!rule.deduction) errors.push("Deduction code is required");
-    if (!isValidAmount(rule.empAmount))
-      errors.push('Amount must be a number or range (e.g., "65" or "65-65.5")');
-    if (!rule.carrier) errors.push("Carrier is required");
-    if (!rule.coverage) errors.push("Coverage is required");
-    return errors;
-  };
+  // Downloads the rule set being edited as a versioned JSON file
+  const exportRules = useCallback(() => {
+    const filename = `${draft.name.replace(/[^\w-]+/g, "_") || "rule_set"}.json`;
+    downloadFile(exportRuleSet(draft), filename, "application/json");
+  }, [draft]);
+
+  // Reads an exported rule set file and adds it as a new rule set
+  const importRules = useCallback(
+    async (file: File) => {
+      try {
+        const imported = parseRuleSetFile(
+          await file.text(),
+          file.name.replace(/\.json$/i, "")
+        );
+        if (!(await addRuleSet(imported, `Imported from ${file.name}`))) return;
+        showNotification(
+          "Success",
+          `Imported ${imported.rules.length} rules as "${imported.name}"`,
+          "success"
+        );
+      } catch (error) {
+        showNotification(
+          "Error",
+          error instanceof Error ? error.message : "Import failed",
+          "error"
+        );
+      }
+    },
+    [addRuleSet]
+  );
 
   // Adds a new blank rule to the rules array
   const addRule = useCallback(() => {
-    setRules((prev) => [
-      ...prev,
-      {
-        deduction: "",
-        empAmount: "",
-        carrier: "",
-        coverage: "",
-        level: "1",
-        plan: "",
-      },
-    ]);
-  }, []);
+    setRules((prev) => [...prev, createEmptyRule(outputColumns)]);
+  }, [setRules, outputColumns]);
+
+  // Appends the rules accepted from the suggestions
+  const addSuggestedRules = useCallback(
+    (suggested: Rule[]) => {
+      setRules((prev) => [...prev, ...suggested]);
+      showNotification(
+        "Rules added",
+        `Added ${suggested.length} suggested ${
+          suggested.length === 1 ? "rule" : "rules"
+        }. Review their outputs before processing.`,
+        "success"
+      );
+    },
+    [setRules]
+  );
+
+  // Replaces the rules with the result of a rate sheet import
+  // Rule positions change, so per-rule validation messages no longer apply
+  const applyRateSheet = useCallback(
+    (imported: Rule[]) => {
+      setRules(() => imported);
+      setValidationErrors({});
+      showNotification(
+        "Rate sheet imported",
+        `The rule set now has ${imported.length} rules. Save it to keep the changes.`,
+        "success"
+      );
+    },
+    [setRules]
+  );
 
   // Removes a rule at the specified index
-  const removeRule = useCallback((index: number) => {
-    setRules((rules) => rules.filter((_, i) => i !== index));
-    setValidationErrors((prev) => {
-      const newErrors = { ...prev };
-      delete newErrors[`rule-${index}`];
-      return newErrors;
-    });
-  }, []);
+  const removeRule = useCallback(
+    (index: number) => {
+      setRules((rules) => rules.filter((_, i) => i !== index));
+      setValidationErrors((prev) => {
+        const newErrors = { ...prev };
+        delete newErrors[`rule-${index}`];
+        return newErrors;
+      });
+    },
+    [setRules]
+  );
 
-  // Updates a specific field in a rule and validates the updated rule
-  const updateRule = useCallback(
-    (index: number, field: keyof Rule, value: string) => {
+  // Replaces a rule and validates the updated rule
+  const replaceRule = useCallback(
+    (index: number, change: (rule: Rule) => Rule) => {
       setRules((rules) => {
         const newRules = [...rules];
-        newRules[index][field] = value;
-        const errors = validateRule(newRules[index]);
+        newRules[index] = change(newRules[index]);
+        const errors = validateRule(
+          newRules[index],
+          outputColumns,
+          codeLookup
+        );
         setValidationErrors((prev) => ({
           ...prev,
           [`rule-${index}`]: errors.join(", "),
@@ -424,60 +807,108 @@ const SelerixProcessor = () => {
         return newRules;
       });
     },
-    []
+    [setRules, outputColumns, codeLookup]
+  );
+
+  // Updates a specific field in a rule
+  const updateRule = useCallback(
+    (
+      index: number,
+      field: Exclude<keyof Rule, "outputs">,
+      value: string
+    ) => {
+      replaceRule(index, (rule) => {
+        const updated = { ...rule, [field]: value };
+        // Cleared effective dates are removed so the rule is open-ended again
+        if (!value && (field === "effectiveFrom" || field === "effectiveTo")) {
+          delete updated[field];
+        }
+        return updated;
+      });
+    },
+    [replaceRule]
+  );
+
+  // Updates the value a rule writes to one output column
+  const updateRuleOutput = useCallback(
+    (index: number, key: string, value: string) => {
+      replaceRule(index, (rule) => ({
+        ...rule,
+        outputs: { ...rule.outputs, [key]: value },
+      }));
+    },
+    [replaceRule]
+  );
+
+  // Replaces a rule's column conditions; rules without conditions drop both fields
+  const updateRuleConditions = useCallback(
+    (index: number, conditions: RuleCondition[], mode: ConditionMode) => {
+      replaceRule(index, (rule) => {
+        const updated: Rule = { ...rule, conditions, conditionMode: mode };
+        if (conditions.length === 0) delete updated.conditions;
+        if (conditions.length === 0 || mode === "all")
+          delete updated.conditionMode;
+        return updated;
+      });
+    },
+    [replaceRule]
   );
 
   // Processes the CSV data using the defined rules
   // Validates all rules before processing
-  const processData = useCallback(() => {
+  const processData = useCallback(async () => {
     try {
       setLoading(true);
 
-      // Validate all rules before processing
-      const allErrors = rules
-        .map((rule, index) => ({
-          index,
-          errors: validateRule(rule),
-        }))
-        .filter((result) => result.errors.length > 0);
-
-      if (allErrors.length > 0) {
-        const errorMessages = allErrors.map(
-          (error) => `Rule ${error.index + 1}: ${error.errors.join(", ")}`
-        );
-        throw new Error(`Validation errors:\n${errorMessages.join("\n")}`);
-      }
-
-      // Process each row according to matching rules
-      const processed = csvData.map((row) => {
-        const newRow = { ...row };
-        const rowAmount = parseFloat(row["Empe Amt/Pct"]);
-
-        // Find the first matching rule based on deduction code and amount
-        const matchingRule = rules.find(
-          (rule) =>
-            rule.deduction === row.Deduction &&
-            isWithinRange(rowAmount, rule.empAmount)
-        );
-
-        // Apply matching rule to populate health insurance fields
-        if (matchingRule) {
-          newRow["Hlth Ins Carrie"] = matchingRule.carrier;
-          newRow["Hlth Ins Cvrage"] = matchingRule.coverage;
-          newRow["Hlth Ins Level"] = matchingRule.level;
-          newRow["Hlth Ins Plan"] = matchingRule.plan;
-        }
+      // Refuse to run without the columns matching depends on
+      assertRequiredColumns(headerMapping);
 
-        return newRow;
-      });
+      // Validates all rules, then applies the first matching rule to each row
+      const result = await processingWorker.process(
+        csvData,
+        rules,
+        {
+          payFrequency,
+          monthlyColumn,
+          matchStrategy,
+          overwritePolicy,
+          outputColumns,
+          codeLookup,
+        },
+        setProgress
+      );
+      const unmatched = collectExceptions(result, rules);
 
-      setProcessedData(processed);
+      // Overrides are applied on top of the new rule output when the results are derived
+      setRuleResult(result);
+      setExceptions(unmatched);
+      const applied = buildOverrideReport(
+        overrides,
+        result,
+        outputColumns
+      ).filter((override) => override.ruleValue !== null).length;
       showNotification(
-        "Success",
-        `Processed ${processed.length} rows of data. Bi-weekly amounts were converted to monthly for matching.`,
+        unmatched.length > 0 ? "Processed with exceptions" : "Success",
+        `Processed ${result.rows.length} rows of data, ${result.matchedCount} matched, ${unmatched.length} unmatched. ${
+          payFrequency === "monthly"
+            ? "Amounts were matched as monthly."
+            : `${PAY_FREQUENCY_LABELS[payFrequency]} amounts were converted to monthly for matching.`
+        }${
+          overrides.length > 0
+            ? ` ${applied} manual ${applied === 1 ? "override" : "overrides"} applied.`
+            : ""
+        }`,
         "success"
       );
     } catch (error) {
+      if (error instanceof ProcessingCancelledError) {
+        showNotification(
+          "Cancelled",
+          "Processing stopped; the previous results are kept",
+          "success"
+        );
+        return;
+      }
       showNotification(
         "Error",
         error instanceof Error ? error.message : "Processing failed",
@@ -485,54 +916,127 @@ const SelerixProcessor = () => {
       );
     } finally {
       setLoading(false);
+      setProgress(null);
+    }
+  }, [
+    csvData,
+    headerMapping,
+    rules,
+    payFrequency,
+    monthlyColumn,
+    matchStrategy,
+    overwritePolicy,
+    outputColumns,
+    codeLookup,
+    overrides,
+  ]);
+
+  // Records a hand-edited output cell as an override of the rule output for that row
+  const editCell = useCallback(
+    (rowIndex: number, columnKey: string, value: string) => {
+      const row = ruleResult?.rows[rowIndex];
+      const column = outputColumns.find((c) => c.key === columnKey);
+      if (!row || !column) return;
+      if (overridesError) {
+        showNotification("Error", overridesError, "error");
+        return;
+      }
+      setOverrides((prev) =>
+        setOverride(prev, row, columnKey, value, row[column.header] ?? "")
+      );
+    },
+    [ruleResult, outputColumns, overridesError]
+  );
+
+  // Downloads the overrides report
+  const downloadOverrides = useCallback(() => {
+    try {
+      downloadFile(
+        overridesToCSV(overrideReport, outputColumns),
+        "selerix_overrides.csv"
+      );
+    } catch {
+      showNotification("Error", "Download failed", "error");
+    }
+  }, [overrideReport, outputColumns]);
+
+  // Downloads the processed rows as an Excel workbook, with the exceptions and run summary on their own sheets
+  const downloadWorkbook = useCallback(async () => {
+    try {
+      if (processedData.length === 0 || !summary) return;
+      downloadFile(
+        await writeWorkbook([
+          {
+            name: "Processed",
+            rows: restoreHeaders(processedData, headerMapping, outputColumns),
+          },
+          {
+            name: "Exceptions",
+            rows: exceptionsToRows(exceptions),
+            headers: EXCEPTION_REPORT_HEADERS,
+          },
+          { name: "Summary", rows: summaryToRows(summary) },
+        ]),
+        "processed_selerix_data.xlsx",
+        XLSX_MIME_TYPE
+      );
+    } catch {
+      showNotification("Error", "Download failed", "error");
     }
-  }, [csvData, rules]);
+  }, [processedData, headerMapping, outputColumns, exceptions, summary]);
+
+  // Downloads the run summary
+  const downloadSummary = useCallback(() => {
+    if (!summary) return;
+    try {
+      downloadFile(summaryToCSV(summary), "selerix_summary.csv");
+    } catch {
+      showNotification("Error", "Download failed", "error");
+    }
+  }, [summary]);
+
+  // Downloads the before/after change list from the last run
+  const downloadChanges = useCallback(() => {
+    if (!ruleResult) return;
+    try {
+      downloadFile(
+        changesToCSV(listChanges(ruleResult, csvData)),
+        "selerix_changes.csv"
+      );
+    } catch {
+      showNotification("Error", "Download failed", "error");
+    }
+  }, [ruleResult, csvData]);
 
   // Creates and triggers download of processed data as CSV file
   const downloadCSV = useCallback(() => {
     try {
       if (processedData.length === 0) return;
 
-      // Create CSV content with headers and data
-      // Get headers but filter out any that are empty or only contain spaces
-      const headers = Object.keys(processedData[0]).filter(
-        (header) => header.trim() !== ""
+      // Write the columns back under the headers the file came with
+      downloadFile(
+        serializeCSV(restoreHeaders(processedData, headerMapping, outputColumns)),
+        "processed_selerix_data.csv"
       );
-      const csvContent = [
-        headers.join(","),
-        ...processedData
-          .filter((row) => Object.values(row).some((value) => value !== "")) // Filter out empty rows
-          .map((row) =>
-            headers
-              .map((header) => {
-                const value = row[header] || "";
-                // Handle values that contain commas by wrapping in quotes
-                return value.includes(",") ? `"${value}"` : value;
-              })
-              .join(",")
-          ),
-      ]
-        .filter((row) => row.trim() !== "") // Extra safety check for empty rows
-        .join("\n");
-
-      // Create and trigger download
-      const blob = new Blob([csvContent], { type: "text/csv" });
-      const url = window.URL.createObjectURL(blob);
-      const a = document.createElement("a");
-      a.href = url;
-      a.download = "processed_selerix_data.csv";
-      a.click();
-      window.URL.revokeObjectURL(url);
 
       showNotification(
         "Success",
         "Your processed data has been downloaded",
         "success"
       );
-    } catch (error) {
+    } catch {
       showNotification("Error", "Download failed", "error");
     }
-  }, [processedData]);
+  }, [processedData, headerMapping, outputColumns]);
+
+  // Downloads the unmatched rows from the last run as a separate CSV file
+  const downloadExceptions = useCallback(() => {
+    try {
+      downloadFile(exceptionsToCSV(exceptions), "selerix_exceptions.csv");
+    } catch {
+      showNotification("Error", "Download failed", "error");
+    }
+  }, [exceptions]);
 
   return (
     <div className="space-y-6 p-4">
@@ -556,16 +1060,177 @@ const SelerixProcessor = () => {
         <CardContent className="space-y-4">
           <div className="space-y-2">
             <label className="block text-sm font-medium">
-              Upload Selerix CSV File
+              Upload Selerix CSV or Excel File
             </label>
             <Input
               type="file"
-              accept=".csv"
+              accept=".csv,.xlsx"
               onChange={handleFileUpload}
               className="w-full"
             />
           </div>
 
+          {loading && (
+            <ProcessingProgress
+              progress={progress}
+              onCancel={cancelProcessing}
+            />
+          )}
+
+          {sheetNames.length > 1 && (
+            <div className="space-y-2">
+              <label className="block text-sm font-medium">Sheet</label>
+              <Select
+                value={sheetName}
+                onChange={(e) => selectSheet(e.target.value)}
+                disabled={loading}
+              >
+                {sheetNames.map((name) => (
+                  <option key={name} value={name}>
+                    {name}
+                  </option>
+                ))}
+              </Select>
+            </div>
+          )}
+
+          {csvHeaders.length > 0 && (
+            <SchemaMappingPanel
+              headers={csvHeaders}
+              mapping={headerMapping}
+              outputColumns={outputColumns}
+              profiles={schemaProfiles}
+              profileId={schemaProfileId}
+              profilesError={schemaProfilesError}
+              onMappingChange={setHeaderMapping}
+              onSelectProfile={selectSchemaProfile}
+              onSaveProfile={saveSchemaProfile}
+              onDeleteProfile={deleteSchemaProfile}
+            />
+          )}
+
+          {csvHeaders.length > 0 && (
+            <RowValidationPanel
+              issues={rowIssues}
+              options={rowValidation}
+              onOptionsChange={setRowValidation}
+            />
+          )}
+
+          <RuleSetManager
+            ruleSets={ruleSets}
+            activeId={draft.id}
+            name={draft.name}
+            dirty={dirty}
+            isDefault={savedRuleSet?.isDefault === true}
+            onSelect={selectRuleSet}
+            onRename={(name) => setDraft((prev) => ({ ...prev, name }))}
+            onSave={saveRuleSet}
+            onMakeDefault={makeDefaultRuleSet}
+            onCreate={() =>
+              addRuleSet(createRuleSet("New Rule Set", []), "Created")
+            }
+            onDuplicate={() =>
+              addRuleSet(
+                duplicateRuleSet(draft),
+                `Duplicated from "${draft.name}"`,
+                false
+              )
+            }
+            onDelete={deleteRuleSet}
+            onExport={exportRules}
+            onImport={importRules}
+            author={author}
+            comment={comment}
+            onAuthorChange={updateAuthor}
+            onCommentChange={setComment}
+          />
+
+          <RuleSetHistory
+            versions={versions}
+            currentVersion={savedRuleSet?.version}
+            onRollback={rollbackRuleSet}
+          />
+
+          <div className="flex gap-4">
+            <div className="flex-1 space-y-2">
+              <label className="block text-sm font-medium">Pay Frequency</label>
+              <Select
+                value={payFrequency}
+                onChange={(e) =>
+                  updateSettings({
+                    payFrequency: e.target.value as PayFrequency,
+                  })
+                }
+              >
+                {Object.entries(PAY_FREQUENCY_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>
+                    {label}
+                  </option>
+                ))}
+              </Select>
+            </div>
+            <div className="flex-1 space-y-2">
+              <label className="block text-sm font-medium">
+                Monthly Amount Column
+              </label>
+              <Select
+                value={monthlyColumn}
+                onChange={(e) =>
+                  updateSettings({
+                    monthlyColumn: e.target.value as MonthlyColumnMode,
+                  })
+                }
+              >
+                {Object.entries(MONTHLY_COLUMN_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>
+                    {label}
+                  </option>
+                ))}
+              </Select>
+            </div>
+            <div className="flex-1 space-y-2">
+              <label className="block text-sm font-medium">
+                Overlapping Rules
+              </label>
+              <Select
+                value={matchStrategy}
+                onChange={(e) =>
+                  updateSettings({
+                    matchStrategy: e.target.value as MatchStrategy,
+                  })
+                }
+              >
+                {Object.entries(MATCH_STRATEGY_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>
+                    {label}
+                  </option>
+                ))}
+              </Select>
+            </div>
+            <div className="flex-1 space-y-2">
+              <label className="block text-sm font-medium">
+                Existing Values
+              </label>
+              <Select
+                value={overwritePolicy}
+                onChange={(e) =>
+                  updateSettings({
+                    overwritePolicy: e.target.value as OverwritePolicy,
+                  })
+                }
+              >
+                {Object.entries(OVERWRITE_POLICY_LABELS).map(
+                  ([value, label]) => (
+                    <option key={value} value={value}>
+                      {label}
+                    </option>
+                  )
+                )}
+              </Select>
+            </div>
+          </div>
+
           <div className="space-y-4">
             <div className="flex justify-between items-center">
               <h3 className="text-lg font-medium">Processing Rules</h3>
@@ -575,6 +1240,24 @@ const SelerixProcessor = () => {
               </Button>
             </div>
 
+            <OutputColumnsEditor
+              columns={outputColumns}
+              onChange={setOutputColumns}
+            />
+
+            <CodeLookupEditor lookup={codeLookup} onChange={setCodeLookup} />
+
+            <RuleIssuesPanel issues={ruleIssues} />
+
+            <RuleSuggestionsPanel
+              rows={csvData}
+              rules={rules}
+              options={suggestionOptions}
+              onAdd={addSuggestedRules}
+            />
+
+            <RateSheetImport ruleSet={draft} onApply={applyRateSheet} />
+
             {uniqueDeductions.length > 0 && (
               <Alert>
                 <AlertTitle>Available Deduction Codes</AlertTitle>
@@ -584,6 +1267,22 @@ const SelerixProcessor = () => {
               </Alert>
             )}
 
+            <datalist id="csv-columns">
+              {csvColumns.map((column) => (
+                <option key={column} value={column} />
+              ))}
+            </datalist>
+            <datalist id="csv-deductions">
+              {uniqueDeductions.map((deduction) => (
+                <option key={deduction} value={deduction} />
+              ))}
+            </datalist>
+            <datalist id="csv-amounts">
+              {uniqueAmounts.map((amount) => (
+                <option key={amount} value={amount} />
+              ))}
+            </datalist>
+
             <div className="space-y-4">
               {rules.map((rule, index) => (
                 <div key={index} className="space-y-2">
@@ -595,7 +1294,7 @@ const SelerixProcessor = () => {
                         updateRule(index, "deduction", e.target.value)
                       }
                       className="flex-1"
-                      list={`deductions-${index}`}
+                      list="csv-deductions"
                     />
                     <Input
                       placeholder="Amount Range (e.g., 65-65.5)"
@@ -604,38 +1303,36 @@ const SelerixProcessor = () => {
                         updateRule(index, "empAmount", e.target.value)
                       }
                       className="flex-1"
+                      list="csv-amounts"
                     />
+                    {outputColumns.map((column) => (
+                      <RuleOutputField
+                        key={column.key}
+                        column={column}
+                        rule={rule}
+                        codeLookup={codeLookup}
+                        onChange={(value) =>
+                          updateRuleOutput(index, column.key, value)
+                        }
+                      />
+                    ))}
                     <Input
-                      placeholder="Carrier"
-                      value={rule.carrier}
-                      onChange={(e) =>
-                        updateRule(index, "carrier", e.target.value)
-                      }
-                      className="flex-1"
-                    />
-                    <Input
-                      placeholder="Coverage"
-                      value={rule.coverage}
-                      onChange={(e) =>
-                        updateRule(index, "coverage", e.target.value)
-                      }
-                      className="flex-1"
-                    />
-                    <Input
-                      placeholder="Level"
-                      value={rule.level}
+                      type="date"
+                      title="Effective from (blank for no start date)"
+                      value={rule.effectiveFrom ?? ""}
                       onChange={(e) =>
-                        updateRule(index, "level", e.target.value)
+                        updateRule(index, "effectiveFrom", e.target.value)
                       }
-                      className="flex-1"
+                      className="w-40"
                     />
                     <Input
-                      placeholder="Plan"
-                      value={rule.plan}
+                      type="date"
+                      title="Effective to (blank for no end date)"
+                      value={rule.effectiveTo ?? ""}
                       onChange={(e) =>
-                        updateRule(index, "plan", e.target.value)
+                        updateRule(index, "effectiveTo", e.target.value)
                       }
-                      className="flex-1"
+                      className="w-40"
                     />
                     <Button
                       variant="destructive"
@@ -645,6 +1342,14 @@ const SelerixProcessor = () => {
                       <Trash2 className="w-4 h-4" />
                     </Button>
                   </div>
+                  <RuleConditionsEditor
+                    conditions={rule.conditions ?? []}
+                    mode={rule.conditionMode ?? "all"}
+                    columnsListId="csv-columns"
+                    onChange={(conditions, mode) =>
+                      updateRuleConditions(index, conditions, mode)
+                    }
+                  />
                   {validationErrors[`rule-${index}`] && (
                     <div className="text-sm text-red-500">
                       {validationErrors[`rule-${index}`]}
@@ -673,43 +1378,73 @@ const SelerixProcessor = () => {
               <Download className="w-4 h-4 mr-2" />
               Download
             </Button>
+            <Button
+              onClick={downloadWorkbook}
+              disabled={!processedData.length}
+              variant="outline"
+              className="w-40"
+            >
+              <Download className="w-4 h-4 mr-2" />
+              Download Excel
+            </Button>
           </div>
 
-          {processedData.length > 0 && (
+          {previewRows.length > 0 && (
             <div className="mt-6">
-              <h3 className="text-lg font-medium mb-2">Preview</h3>
-              <div className="border rounded-lg overflow-x-auto">
-                <table className="min-w-full divide-y divide-gray-200">
-                  <thead className="bg-gray-50">
-                    <tr>
-                      {Object.keys(processedData[0]).map((header) => (
-                        <th
-                          key={header}
-                          className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
-                        >
-                          {header}
-                        </th>
-                      ))}
-                    </tr>
-                  </thead>
-                  <tbody className="bg-white divide-y divide-gray-200">
-                    {processedData.slice(0, 5).map((row, rowIndex) => (
-                      <tr key={rowIndex}>
-                        {Object.values(row).map((value, colIndex) => (
-                          <td
-                            key={colIndex}
-                            className="px-6 py-4 whitespace-nowrap text-sm text-gray-500"
-                          >
-                            {value}
-                          </td>
-                        ))}
-                      </tr>
-                    ))}
-                  </tbody>
-                </table>
-              </div>
+              <h3 className="text-lg font-medium mb-2">
+                {processed ? "Results" : "Uploaded Rows"}
+              </h3>
+              <ResultsGrid
+                rows={previewRows}
+                results={processed ? rowResults : []}
+                outputColumns={outputColumns}
+                payFrequency={payFrequency}
+                issuesByCell={issuesByCell}
+                onEditCell={editCell}
+              />
             </div>
           )}
+
+          {summary && processed && (
+            <SummaryPanel summary={summary} onDownload={downloadSummary} />
+          )}
+
+          {processed && (
+            <CarrierExportPanel
+              rows={processedData}
+              outputColumns={outputColumns}
+            />
+          )}
+
+          {ruleResult && processed && (
+            <ChangeDiffPanel
+              result={ruleResult}
+              inputRows={csvData}
+              onDownload={downloadChanges}
+            />
+          )}
+
+          <OverridesPanel
+            report={overrideReport}
+            outputColumns={outputColumns}
+            error={overridesError}
+            onRemove={(override) =>
+              setOverrides((prev) =>
+                prev.filter(
+                  (o) =>
+                    o.key !== override.key || o.columnKey !== override.columnKey
+                )
+              )
+            }
+            onDownload={downloadOverrides}
+          />
+
+          {processedData.length > 0 && (
+            <ExceptionsPanel
+              exceptions={exceptions}
+              onDownload={downloadExceptions}
+            />
+          )}
         </CardContent>
       </Card>
     </div>
@@ -0,0 +1,144 @@
+"use client";
+import React, { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Select } from "@/components/ui/select";
+import { Download } from "lucide-react";
+import { formatMatchRate, type RunSummary } from "@/lib/selerix";
+
+type SummaryPanelProps = {
+  summary: RunSummary; // Totals of the last run, with overrides applied
+  onDownload: () => void;
+};
+
+const formatPremium = (value: number) =>
+  value.toLocaleString(undefined, {
+    style: "currency",
+    currency: "USD",
+  });
+
+const HEADER_CLASS =
+  "px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider";
+const CELL_CLASS = "px-6 py-2 whitespace-nowrap text-sm text-gray-500";
+
+// Dashboard of the last run: overall totals, row counts and monthly premium per output value
+// (carrier, plan, coverage, …) and the match rate per deduction code
+const SummaryPanel = ({ summary, onDownload }: SummaryPanelProps) => {
+  const [columnKey, setColumnKey] = useState(
+    summary.byColumn[0]?.columnKey ?? ""
+  );
+  const column =
+    summary.byColumn.find((c) => c.columnKey === columnKey) ??
+    summary.byColumn[0];
+
+  return (
+    <div className="mt-6 space-y-4">
+      <div className="flex justify-between items-center">
+        <h3 className="text-lg font-medium">Summary</h3>
+        <Button onClick={onDownload} variant="outline" size="sm">
+          <Download className="w-4 h-4 mr-2" />
+          Download Summary
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-4 gap-4">
+        {[
+          ["Rows", String(summary.rows)],
+          ["Matched", String(summary.matched)],
+          ["Match Rate", formatMatchRate(summary.matchRate)],
+          ["Monthly Premium", formatPremium(summary.monthlyPremium)],
+        ].map(([label, value]) => (
+          <div key={label} className="border rounded-lg p-3">
+            <div className="text-xs text-gray-500 uppercase">{label}</div>
+            <div className="text-xl font-semibold">{value}</div>
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        {column && (
+          <div className="space-y-2">
+            <div className="flex gap-2 items-center">
+              <h4 className="font-medium">By</h4>
+              <Select
+                value={column.columnKey}
+                onChange={(e) => setColumnKey(e.target.value)}
+                className="w-48"
+              >
+                {summary.byColumn.map((c) => (
+                  <option key={c.columnKey} value={c.columnKey}>
+                    {c.label}
+                  </option>
+                ))}
+              </Select>
+            </div>
+            <div className="border rounded-lg overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    {[column.label, "Rows", "Monthly Premium"].map((header) => (
+                      <th key={header} className={HEADER_CLASS}>
+                        {header}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {column.groups.map((group) => (
+                    <tr key={group.value}>
+                      <td className={CELL_CLASS}>{group.value || "(blank)"}</td>
+                      <td className={CELL_CLASS}>{group.rows}</td>
+                      <td className={CELL_CLASS}>
+                        {formatPremium(group.monthlyPremium)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <h4 className="font-medium">Match Rate by Deduction</h4>
+          <div className="border rounded-lg overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  {["Deduction", "Rows", "Matched", "Match Rate"].map(
+                    (header) => (
+                      <th key={header} className={HEADER_CLASS}>
+                        {header}
+                      </th>
+                    )
+                  )}
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {summary.byDeduction.map((deduction) => (
+                  <tr key={deduction.deduction}>
+                    <td className={CELL_CLASS}>
+                      {deduction.deduction || "(blank)"}
+                    </td>
+                    <td className={CELL_CLASS}>{deduction.rows}</td>
+                    <td className={CELL_CLASS}>{deduction.matched}</td>
+                    <td
+                      className={
+                        deduction.matchRate < 1
+                          ? "px-6 py-2 whitespace-nowrap text-sm text-red-600"
+                          : CELL_CLASS
+                      }
+                    >
+                      {formatMatchRate(deduction.matchRate)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SummaryPanel;
@@ -0,0 +1,43 @@
+import {
+  DEFAULT_EDI_834_OPTIONS,
+  type Edi834Options,
+  type FixedWidthLayout,
+} from "@/lib/selerix";
+
+const EDI_834_OPTIONS_KEY = "selerix.edi834Options";
+const FIXED_WIDTH_LAYOUTS_KEY = "selerix.fixedWidthLayouts";
+
+// Parses a stored setting, throwing rather than falling back so a later save cannot overwrite it
+const readStored = <T>(key: string, label: string): T | null => {
+  const stored = window.localStorage.getItem(key);
+  if (!stored) return null;
+  try {
+    return JSON.parse(stored) as T;
+  } catch (error) {
+    throw new Error(
+      `Saved ${label} could not be read: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+};
+
+// Reads the saved 834 settings, including the next interchange control number
+// Settings added since they were saved take their defaults
+export const loadEdi834Options = (): Edi834Options => ({
+  ...DEFAULT_EDI_834_OPTIONS,
+  ...readStored<Partial<Edi834Options>>(EDI_834_OPTIONS_KEY, "834 settings"),
+});
+
+export const saveEdi834Options = (options: Edi834Options) =>
+  window.localStorage.setItem(EDI_834_OPTIONS_KEY, JSON.stringify(options));
+
+// Reads the fixed-width layouts entered from the carriers' file specs
+export const loadFixedWidthLayouts = (): FixedWidthLayout[] =>
+  readStored<FixedWidthLayout[]>(
+    FIXED_WIDTH_LAYOUTS_KEY,
+    "fixed-width layouts"
+  ) ?? [];
+
+export const saveFixedWidthLayouts = (layouts: FixedWidthLayout[]) =>
+  window.localStorage.setItem(FIXED_WIDTH_LAYOUTS_KEY, JSON.stringify(layouts));
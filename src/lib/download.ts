@@ -0,0 +1,14 @@
+// Triggers a browser download of the given content
+export const downloadFile = (
+  content: BlobPart,
+  filename: string,
+  type = "text/csv"
+) => {
+  const blob = new Blob([content], { type });
+  const url = window.URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  a.click();
+  window.URL.revokeObjectURL(url);
+};
@@ -0,0 +1,32 @@
+import type { Override } from "@/lib/selerix";
+
+const OVERRIDES_KEY_PREFIX = "selerix.overrides:";
+
+// Identifies an uploaded file by name, size and modification time, so its overrides come back when it is loaded again
+const storageKey = (file: File) =>
+  `${OVERRIDES_KEY_PREFIX}${file.name}:${file.size}:${file.lastModified}`;
+
+// Reads the overrides saved for a file from browser storage
+// Throws when the stored value cannot be read, so a save never overwrites overrides it could not parse
+export const loadOverrides = (file: File): Override[] => {
+  const stored = window.localStorage.getItem(storageKey(file));
+  if (!stored) return [];
+  try {
+    return JSON.parse(stored) as Override[];
+  } catch (error) {
+    throw new Error(
+      `Manual overrides saved for ${file.name} could not be read: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+};
+
+// Replaces the overrides saved for a file, removing the entry once none are left
+export const saveOverrides = (file: File, overrides: Override[]) => {
+  if (overrides.length === 0) {
+    window.localStorage.removeItem(storageKey(file));
+    return;
+  }
+  window.localStorage.setItem(storageKey(file), JSON.stringify(overrides));
+};
@@ -0,0 +1,175 @@
+import type {
+  CSVRow,
+  ProcessOptions,
+  ProcessResult,
+  RowIssue,
+  RowValidationOptions,
+  Rule,
+} from "@/lib/selerix";
+
+// The steps the worker reports progress for
+export type WorkerPhase = "parse" | "process";
+
+// Rows read from an uploaded file, and the sheets it has when it is a workbook
+export type ParsedUpload = {
+  headers: string[];
+  rows: CSVRow[];
+  sheetNames: string[]; // Empty for CSV files
+  sheetName: string; // Sheet the rows were read from, "" for CSV files
+};
+
+// Work the worker can be asked to do
+type WorkerTask =
+  | { type: "parse"; file: File; sheet?: string }
+  | { type: "validate"; rows: CSVRow[]; options: RowValidationOptions }
+  | { type: "process"; rows: CSVRow[]; rules: Rule[]; options: ProcessOptions };
+
+// Messages sent to the worker; each carries an id its responses repeat
+export type WorkerRequest = WorkerTask & { id: number };
+
+// Messages sent back by the worker
+export type WorkerResponse =
+  | {
+      id: number;
+      type: "progress";
+      phase: WorkerPhase;
+      done: number; // Rows or bytes handled so far
+      total: number;
+    }
+  | { id: number; type: "result"; result: unknown }
+  | { id: number; type: "error"; message: string; expected: boolean };
+
+export type WorkerProgress = Omit<
+  Extract<WorkerResponse, { type: "progress" }>,
+  "id" | "type"
+>;
+
+// Rethrown on the page for an error raised in the worker
+// Error classes do not survive the trip between threads, so expected marks the engine's own
+// errors (bad CSV, unreadable workbook, invalid rules) whose message can be shown as-is
+export class ProcessingWorkerError extends Error {
+  constructor(
+    message: string,
+    public readonly expected: boolean
+  ) {
+    super(message);
+    this.name = "ProcessingWorkerError";
+  }
+}
+
+// Rejects every task that was still running when the user cancelled
+export class ProcessingCancelledError extends Error {
+  constructor() {
+    super("Processing was cancelled");
+    this.name = "ProcessingCancelledError";
+  }
+}
+
+export interface ProcessingWorker {
+  parse(
+    file: File,
+    sheet: string | undefined,
+    onProgress?: (progress: WorkerProgress) => void
+  ): Promise<ParsedUpload>;
+  validate(rows: CSVRow[], options: RowValidationOptions): Promise<RowIssue[]>;
+  process(
+    rows: CSVRow[],
+    rules: Rule[],
+    options: ProcessOptions,
+    onProgress?: (progress: WorkerProgress) => void
+  ): Promise<ProcessResult>;
+  cancel(): void; // Stops every running task; the next task starts a fresh worker
+}
+
+type PendingTask = {
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
+  onProgress?: (progress: WorkerProgress) => void;
+};
+
+// Runs parsing, row validation and matching in a Web Worker so large files do not freeze the page
+// The worker is started on first use, which keeps this safe to create during server rendering
+export const createProcessingWorker = (): ProcessingWorker => {
+  let worker: Worker | null = null;
+  let nextId = 1;
+  const pending = new Map<number, PendingTask>();
+
+  const handleMessage = (event: MessageEvent<WorkerResponse>) => {
+    const message = event.data;
+    const task = pending.get(message.id);
+    if (!task) return;
+    if (message.type === "progress") {
+      task.onProgress?.({
+        phase: message.phase,
+        done: message.done,
+        total: message.total,
+      });
+      return;
+    }
+    pending.delete(message.id);
+    if (message.type === "result") task.resolve(message.result);
+    else
+      task.reject(new ProcessingWorkerError(message.message, message.expected));
+  };
+
+  // Stops the worker and rejects every task still waiting on it
+  const stop = (error: Error) => {
+    worker?.terminate();
+    worker = null;
+    pending.forEach((task) => task.reject(error));
+    pending.clear();
+  };
+
+  const getWorker = (): Worker => {
+    if (!worker) {
+      worker = new Worker(
+        new URL("../workers/processing.worker.ts", import.meta.url)
+      );
+      worker.onmessage = handleMessage;
+      // The worker failed to load or threw outside a task; no task will get its answer
+      worker.onerror = (event) => {
+        event.preventDefault();
+        stop(
+          new ProcessingWorkerError(
+            event.message || "The processing worker stopped unexpectedly",
+            false
+          )
+        );
+      };
+      // A response could not be read, and which task it answered is unknown
+      worker.onmessageerror = () =>
+        stop(
+          new ProcessingWorkerError(
+            "The processing worker sent a response that could not be read",
+            false
+          )
+        );
+    }
+    return worker;
+  };
+
+  // Sends a task and resolves with the worker's result for it
+  const run = <T>(
+    task: WorkerTask,
+    onProgress?: (progress: WorkerProgress) => void
+  ): Promise<T> =>
+    new Promise<T>((resolve, reject) => {
+      const id = nextId++;
+      pending.set(id, {
+        resolve: resolve as (result: unknown) => void,
+        reject,
+        onProgress,
+      });
+      getWorker().postMessage({ ...task, id } satisfies WorkerRequest);
+    });
+
+  return {
+    parse: (file, sheet, onProgress) =>
+      run({ type: "parse", file, sheet }, onProgress),
+    validate: (rows, options) => run({ type: "validate", rows, options }),
+    process: (rows, rules, options, onProgress) =>
+      run({ type: "process", rows, rules, options }, onProgress),
+    // Terminating is the only way to stop a task mid-loop; pending tasks are rejected
+    cancel: () => stop(new ProcessingCancelledError()),
+  };
+};
@@ -0,0 +1,61 @@
+import type {
+  RuleSet,
+  RuleSetHistoryStore,
+  RuleSetVersion,
+} from "@/lib/selerix";
+
+// Reads the error message from a failed API response
+const readError = async (response: Response): Promise<Error> => {
+  try {
+    const body = await response.json();
+    return new Error(body.error ?? response.statusText);
+  } catch {
+    return new Error(response.statusText);
+  }
+};
+
+// Sends a JSON request to the rule set API and returns the parsed body
+const request = async <T>(url: string, init?: RequestInit): Promise<T> => {
+  const response = await fetch(url, {
+    ...init,
+    headers: { "Content-Type": "application/json", ...init?.headers },
+  });
+  if (!response.ok) throw await readError(response);
+  return (response.status === 204 ? undefined : await response.json()) as T;
+};
+
+// Keeps rule sets on the server so the whole team shares one set of mappings
+// Every save is recorded as a version on the server
+export const createApiRuleSetStore = (
+  baseUrl = "/api/rule-sets"
+): RuleSetHistoryStore => ({
+  async list() {
+    const { ruleSets } = await request<{ ruleSets: RuleSet[] }>(baseUrl);
+    return ruleSets;
+  },
+  async save(ruleSet, info) {
+    const { ruleSet: saved } = await request<{ ruleSet: RuleSet }>(
+      `${baseUrl}/${encodeURIComponent(ruleSet.id)}`,
+      { method: "PUT", body: JSON.stringify({ ...ruleSet, ...info }) }
+    );
+    return saved;
+  },
+  async remove(id) {
+    await request<void>(`${baseUrl}/${encodeURIComponent(id)}`, {
+      method: "DELETE",
+    });
+  },
+  async listVersions(id) {
+    const { versions } = await request<{ versions: RuleSetVersion[] }>(
+      `${baseUrl}/${encodeURIComponent(id)}/versions`
+    );
+    return versions;
+  },
+  async rollback(id, version, info) {
+    const { ruleSet } = await request<{ ruleSet: RuleSet }>(
+      `${baseUrl}/${encodeURIComponent(id)}/rollback`,
+      { method: "POST", body: JSON.stringify({ version, ...info }) }
+    );
+    return ruleSet;
+  },
+});
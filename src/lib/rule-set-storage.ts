@@ -0,0 +1,67 @@
+import {
+  migrateRuleSet,
+  type RuleSet,
+  type RuleSetStore,
+} from "@/lib/selerix";
+
+const RULE_SETS_KEY = "selerix.ruleSets";
+const ACTIVE_RULE_SET_KEY = "selerix.activeRuleSetId";
+
+// Reads every saved rule set from browser storage
+// Throws when the stored value cannot be read, so a save never overwrites data it could not parse
+const readAll = (storage: Storage): RuleSet[] => {
+  const stored = storage.getItem(RULE_SETS_KEY);
+  if (!stored) return [];
+  try {
+    return (JSON.parse(stored) as RuleSet[]).map(migrateRuleSet);
+  } catch (error) {
+    throw new Error(
+      `Rule sets saved in this browser could not be read: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+};
+
+// Keeps rule sets in localStorage so edits survive a page refresh
+// Storage is looked up on each call, so the store can be created during server rendering
+export const createLocalRuleSetStore = (
+  getStorage: () => Storage = () => window.localStorage
+): RuleSetStore => ({
+  async list() {
+    return readAll(getStorage());
+  },
+  async save(ruleSet) {
+    const storage = getStorage();
+    const saved = { ...ruleSet, updatedAt: new Date().toISOString() };
+    // Only one rule set can be the default
+    const others = readAll(storage)
+      .filter((set) => set.id !== ruleSet.id)
+      .map((set) => (saved.isDefault ? { ...set, isDefault: false } : set));
+    storage.setItem(RULE_SETS_KEY, JSON.stringify([...others, saved]));
+    return saved;
+  },
+  async remove(id) {
+    const storage = getStorage();
+    storage.setItem(
+      RULE_SETS_KEY,
+      JSON.stringify(readAll(storage).filter((set) => set.id !== id))
+    );
+  },
+});
+
+// Remembers which rule set was last selected
+export const loadActiveRuleSetId = (): string | null =>
+  window.localStorage.getItem(ACTIVE_RULE_SET_KEY);
+
+export const saveActiveRuleSetId = (id: string) =>
+  window.localStorage.setItem(ACTIVE_RULE_SET_KEY, id);
+
+const AUTHOR_KEY = "selerix.author";
+
+// Remembers the name recorded as author when saving rule sets
+export const loadAuthor = (): string =>
+  window.localStorage.getItem(AUTHOR_KEY) ?? "";
+
+export const saveAuthor = (author: string) =>
+  window.localStorage.setItem(AUTHOR_KEY, author);
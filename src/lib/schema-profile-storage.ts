@@ -0,0 +1,23 @@
+import type { SchemaProfile } from "@/lib/selerix";
+
+const SCHEMA_PROFILES_KEY = "selerix.schemaProfiles";
+
+// Reads the saved schema profiles from browser storage
+// Throws when the stored value cannot be read, so a save never overwrites profiles it could not parse
+export const loadSchemaProfiles = (): SchemaProfile[] => {
+  const stored = window.localStorage.getItem(SCHEMA_PROFILES_KEY);
+  if (!stored) return [];
+  try {
+    return JSON.parse(stored) as SchemaProfile[];
+  } catch (error) {
+    throw new Error(
+      `Column mappings saved in this browser could not be read: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+};
+
+// Replaces the saved schema profiles
+export const saveSchemaProfiles = (profiles: SchemaProfile[]) =>
+  window.localStorage.setItem(SCHEMA_PROFILES_KEY, JSON.stringify(profiles));
@@ -0,0 +1,76 @@
+import type {
+  AmountBasis,
+  CSVRow,
+  MonthlyColumnMode,
+  PayFrequency,
+  ProcessOptions,
+} from "./types";
+
+// Number of pay periods in a year for each pay frequency
+export const PAY_PERIODS_PER_YEAR: Record<PayFrequency, number> = {
+  weekly: 52,
+  "bi-weekly": 26,
+  "semi-monthly": 24,
+  monthly: 12,
+};
+
+// Display labels for the pay frequency setting
+export const PAY_FREQUENCY_LABELS: Record<PayFrequency, string> = {
+  weekly: "Weekly",
+  "bi-weekly": "Bi-weekly",
+  "semi-monthly": "Semi-monthly",
+  monthly: "Monthly",
+};
+
+// Display labels for the monthly column setting
+export const MONTHLY_COLUMN_LABELS: Record<MonthlyColumnMode, string> = {
+  ignore: "Ignore monthly column",
+  use: "Use monthly column when present",
+  fill: "Fill monthly column",
+};
+
+// Rounds to whole cents so converted amounts compare cleanly against rule ranges
+const roundCents = (value: number): number => Math.round(value * 100) / 100;
+
+// Converts a per-paycheck amount to its monthly equivalent
+export const toMonthlyAmount = (
+  amount: number,
+  payFrequency: PayFrequency
+): number => {
+  if (payFrequency === "monthly") return amount;
+  return roundCents((amount * PAY_PERIODS_PER_YEAR[payFrequency]) / 12);
+};
+
+// Works out the monthly amount a row should be matched on and where it came from
+// In "use" mode a numeric monthly column wins; otherwise the per-paycheck amount is normalized
+export const resolveRowAmount = (
+  row: CSVRow,
+  options: Required<ProcessOptions>
+): { amount: number; basis: AmountBasis } => {
+  if (options.monthlyColumn === "use") {
+    const monthly = parseFloat(row["Empe Amt/Pct Montly"]);
+    if (!isNaN(monthly)) return { amount: monthly, basis: "monthly-column" };
+  }
+
+  const amount = parseFloat(row["Empe Amt/Pct"]);
+  if (options.payFrequency === "monthly") return { amount, basis: "as-is" };
+  return {
+    amount: toMonthlyAmount(amount, options.payFrequency),
+    basis: "converted",
+  };
+};
+
+// Describes the amount basis for display, e.g. "converted from bi-weekly"
+export const describeAmountBasis = (
+  basis: AmountBasis,
+  payFrequency: PayFrequency
+): string => {
+  switch (basis) {
+    case "monthly-column":
+      return "from monthly column";
+    case "converted":
+      return `converted from ${PAY_FREQUENCY_LABELS[payFrequency].toLowerCase()}`;
+    case "as-is":
+      return "as entered";
+  }
+};
@@ -0,0 +1,81 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { analyzeRules } from "./analysis";
+import { makeRule } from "./fixtures";
+import type { MatchStrategy, Rule } from "./types";
+
+// The kind and rules of each issue found
+const kinds = (rules: Rule[], matchStrategy?: MatchStrategy) =>
+  analyzeRules(rules, matchStrategy).map((issue) => [
+    issue.kind,
+    issue.ruleIndexes,
+  ]);
+
+describe("analyzeRules", () => {
+  it("only reports the gap between separate ranges", () => {
+    assert.deepEqual(kinds([makeRule("0-10"), makeRule("10.01-20")]), [
+      ["gap", [0, 1]],
+    ]);
+    assert.deepEqual(
+      kinds([makeRule("0-10"), makeRule("5-20", "B", { deduction: "1720" })]),
+      []
+    );
+  });
+
+  it("reports exact duplicates", () => {
+    assert.deepEqual(kinds([makeRule("30"), makeRule("30")]), [
+      ["duplicate", [0, 1]],
+    ]);
+  });
+
+  it("reports rules shadowed under first-match and nested ranges as overlaps elsewhere", () => {
+    const rules = [makeRule("0-100", "WIDE"), makeRule("30-40", "NARROW")];
+    assert.deepEqual(kinds(rules), [["unreachable", [0, 1]]]);
+    assert.deepEqual(kinds(rules, "error"), [["overlap", [0, 1]]]);
+    assert.deepEqual(kinds(rules, "most-specific"), []);
+  });
+
+  it("reports partial overlaps, as errors under the error strategy", () => {
+    const rules = [makeRule("0-50", "A"), makeRule("40-100", "B")];
+    const [first] = analyzeRules(rules);
+    assert.equal(first.kind, "overlap");
+    assert.equal(first.severity, "warning");
+    assert.match(first.message, /between 40 and 50/);
+    assert.equal(analyzeRules(rules, "error")[0].severity, "error");
+    assert.equal(analyzeRules(rules, "most-specific")[0].kind, "overlap");
+  });
+
+  it("ignores rules effective in different periods", () => {
+    assert.deepEqual(
+      kinds([
+        makeRule("30", "OLD", { effectiveTo: "2025-12-31" }),
+        makeRule("30", "NEW", { effectiveFrom: "2026-01-01" }),
+      ]),
+      []
+    );
+  });
+
+  it("ignores rules selecting different rows by their conditions", () => {
+    const division = (value: string): Partial<Rule> => ({
+      conditions: [{ column: "Division", operator: "equals", value }],
+    });
+    assert.deepEqual(
+      kinds([
+        makeRule("30", "A", division("East")),
+        makeRule("30", "B", division("West")),
+      ]),
+      []
+    );
+    // A rule without conditions still competes with one that has them
+    assert.deepEqual(
+      kinds([makeRule("30", "A"), makeRule("30", "B", division("East"))]),
+      [["unreachable", [0, 1]]]
+    );
+  });
+
+  it("reports rules whose amount can never match", () => {
+    const [issue] = analyzeRules([makeRule("20-10")]);
+    assert.equal(issue.kind, "unreachable");
+    assert.deepEqual(issue.ruleIndexes, [0]);
+  });
+});
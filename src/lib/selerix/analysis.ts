@@ -0,0 +1,192 @@
+import { windowContains, windowsOverlap } from "./dates";
+import { getRuleWindow, parseAmountRange } from "./rules";
+import type { AmountRange, MatchStrategy, Rule } from "./types";
+
+// Kinds of problems the static analysis can find in a rule list
+// overlap: two rules for the same deduction accept some of the same amounts
+// duplicate: a rule repeats an earlier rule exactly
+// unreachable: a rule can never be chosen for any row
+// gap: amounts between two neighbouring ranges that no rule accepts
+export type RuleIssueKind = "overlap" | "duplicate" | "unreachable" | "gap";
+
+export type RuleIssueSeverity = "error" | "warning" | "info";
+
+// A single finding from analyzeRules
+export type RuleIssue = {
+  kind: RuleIssueKind;
+  severity: RuleIssueSeverity;
+  deduction: string;
+  ruleIndexes: number[]; // Rules involved, by position in the rule list
+  message: string;
+};
+
+// Display labels for the match strategy setting
+export const MATCH_STRATEGY_LABELS: Record<MatchStrategy, string> = {
+  first: "First matching rule wins",
+  error: "Error on ambiguous rules",
+  "most-specific": "Most specific range wins",
+};
+
+// Thrown when the "error" match strategy finds ambiguous rules before processing
+export class RuleAmbiguityError extends Error {
+  constructor(public readonly issues: RuleIssue[]) {
+    super(
+      `Ambiguous rules:\n${issues.map((issue) => issue.message).join("\n")}`
+    );
+    this.name = "RuleAmbiguityError";
+  }
+}
+
+// Checks whether two rules test exactly the same conditions
+const sameConditions = (a: Rule, b: Rule): boolean =>
+  (a.conditionMode ?? "all") === (b.conditionMode ?? "all") &&
+  JSON.stringify(a.conditions ?? []) === JSON.stringify(b.conditions ?? []);
+
+// Checks whether every row rule b accepts on its conditions is accepted by rule a too
+// Only rules without conditions, or with identical ones, are known to cover each other
+const conditionsCover = (a: Rule, b: Rule): boolean =>
+  (a.conditions ?? []).length === 0 || sameConditions(a, b);
+
+// Checks whether two rules are in effect for the same days and populate exactly the same values
+const sameOutputs = (a: Rule, b: Rule): boolean =>
+  (a.effectiveFrom ?? "") === (b.effectiveFrom ?? "") &&
+  (a.effectiveTo ?? "") === (b.effectiveTo ?? "") &&
+  [...new Set([...Object.keys(a.outputs), ...Object.keys(b.outputs)])].every(
+    (key) => (a.outputs[key] ?? "") === (b.outputs[key] ?? "")
+  );
+
+const rangesIntersect = (a: AmountRange, b: AmountRange): boolean =>
+  a.min <= b.max && b.min <= a.max;
+
+const rangeContains = (outer: AmountRange, inner: AmountRange): boolean =>
+  outer.min <= inner.min && outer.max >= inner.max;
+
+const sameRange = (a: AmountRange, b: AmountRange): boolean =>
+  a.min === b.min && a.max === b.max;
+
+// Formats a list of rule indexes for messages, e.g. "Rules 2 and 5"
+const describeRules = (indexes: number[]): string =>
+  indexes.length === 1
+    ? `Rule ${indexes[0] + 1}`
+    : `Rules ${indexes
+        .slice(0, -1)
+        .map((i) => i + 1)
+        .join(", ")} and ${indexes[indexes.length - 1] + 1}`;
+
+// Statically checks a rule list for overlapping ranges, exact duplicates, rules that can never fire
+// and gaps between neighbouring ranges, taking the match strategy into account
+export const analyzeRules = (
+  rules: Rule[],
+  matchStrategy: MatchStrategy = "first"
+): RuleIssue[] => {
+  const issues: RuleIssue[] = [];
+  const ambiguitySeverity: RuleIssueSeverity =
+    matchStrategy === "error" ? "error" : "warning";
+
+  // Group rule positions by deduction code
+  const byDeduction = new Map<string, number[]>();
+  rules.forEach((rule, index) => {
+    const group = byDeduction.get(rule.deduction) ?? [];
+    group.push(index);
+    byDeduction.set(rule.deduction, group);
+  });
+
+  byDeduction.forEach((indexes, deduction) => {
+    const ranges = new Map<number, AmountRange>();
+    indexes.forEach((index) => {
+      const range = parseAmountRange(rules[index].empAmount);
+      if (range) {
+        ranges.set(index, range);
+      } else {
+        issues.push({
+          kind: "unreachable",
+          severity: "warning",
+          deduction,
+          ruleIndexes: [index],
+          message: `${describeRules([index])} has no usable amount and can never match`,
+        });
+      }
+    });
+
+    const reported = new Set<number>(); // Rules already reported as duplicate or unreachable
+    const valid = indexes.filter((index) => ranges.has(index));
+    valid.forEach((j, position) => {
+      valid.slice(0, position).forEach((i) => {
+        if (reported.has(i) || reported.has(j)) return;
+        const a = ranges.get(i)!;
+        const b = ranges.get(j)!;
+        // Rules effective in different periods never compete for the same row, and rules with
+        // different conditions (e.g. one per division) are assumed to select different rows
+        const windowA = getRuleWindow(rules[i]);
+        const windowB = getRuleWindow(rules[j]);
+        if (!rangesIntersect(a, b) || !windowsOverlap(windowA, windowB)) return;
+        if (
+          !conditionsCover(rules[i], rules[j]) &&
+          !conditionsCover(rules[j], rules[i])
+        )
+          return;
+        const sameTests = sameConditions(rules[i], rules[j]);
+
+        if (sameRange(a, b) && sameTests && sameOutputs(rules[i], rules[j])) {
+          reported.add(j);
+          issues.push({
+            kind: "duplicate",
+            severity: "warning",
+            deduction,
+            ruleIndexes: [i, j],
+            message: `${describeRules([j])} duplicates rule ${i + 1}`,
+          });
+        } else if (
+          windowContains(windowA, windowB) &&
+          ((matchStrategy === "first" &&
+            rangeContains(a, b) &&
+            conditionsCover(rules[i], rules[j])) ||
+            (matchStrategy === "most-specific" && sameRange(a, b) && sameTests))
+        ) {
+          reported.add(j);
+          issues.push({
+            kind: "unreachable",
+            severity: "warning",
+            deduction,
+            ruleIndexes: [i, j],
+            message: `${describeRules([j])} is shadowed by rule ${i + 1} and can never match`,
+          });
+        } else if (
+          !(
+            matchStrategy === "most-specific" &&
+            (rangeContains(a, b) || rangeContains(b, a))
+          )
+        ) {
+          // Nested ranges are intentional under "most specific wins"; partial overlaps never are
+          issues.push({
+            kind: "overlap",
+            severity: ambiguitySeverity,
+            deduction,
+            ruleIndexes: [i, j],
+            message: `${describeRules([i, j])} overlap for deduction ${deduction} between ${Math.max(a.min, b.min)} and ${Math.min(a.max, b.max)}`,
+          });
+        }
+      });
+    });
+
+    // Merge the ranges and report the uncovered space between neighbours
+    const sorted = [...ranges.entries()].sort(([, a], [, b]) => a.min - b.min);
+    let previous: { index: number; max: number } | null = null;
+    sorted.forEach(([index, range]) => {
+      if (previous && range.min > previous.max) {
+        issues.push({
+          kind: "gap",
+          severity: "info",
+          deduction,
+          ruleIndexes: [previous.index, index],
+          message: `No rule for deduction ${deduction} covers amounts between ${previous.max} and ${range.min}`,
+        });
+      }
+      if (!previous || range.max > previous.max) {
+        previous = { index, max: range.max };
+      }
+    });
+  });
+
+  return issues;
+};
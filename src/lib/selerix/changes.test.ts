@@ -0,0 +1,81 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  changesToCSV,
+  listChanges,
+  resolveCellChange,
+  summarizeChanges,
+} from "./changes";
+import { processRows } from "./engine";
+import { makeRow, makeRule } from "./fixtures";
+
+describe("resolveCellChange", () => {
+  it("fills blanks under every policy and only replaces values when overwriting", () => {
+    assert.deepEqual(resolveCellChange(" ", "AETN", "fill-blanks"), {
+      after: "AETN",
+      kind: "filled",
+    });
+    assert.deepEqual(resolveCellChange("AETN", "AETN", "overwrite"), {
+      after: "AETN",
+      kind: "unchanged",
+    });
+    assert.deepEqual(resolveCellChange("UHC", "AETN", "overwrite"), {
+      after: "AETN",
+      kind: "overwritten",
+    });
+    assert.deepEqual(resolveCellChange("UHC", "AETN", "fill-blanks"), {
+      after: "UHC",
+      kind: "kept",
+    });
+    assert.deepEqual(resolveCellChange("UHC", "AETN", "flag-conflicts"), {
+      after: "UHC",
+      kind: "conflict",
+    });
+  });
+});
+
+describe("summarizeChanges and listChanges", () => {
+  // One row with a carrier already in the file, one blank, one no rule matches
+  const input = [
+    makeRow({ "Hlth Ins Carrie": "UHC", "Hlth Ins Cvrage": "1" }),
+    makeRow({ SSN: "987-65-4321" }),
+    makeRow({ SSN: "555-55-5555", Deduction: "9999" }),
+  ];
+
+  it("counts the output cells of matched rows by kind", () => {
+    const result = processRows(input, [makeRule("30")], {
+      overwritePolicy: "flag-conflicts",
+    });
+    assert.deepEqual(summarizeChanges(result), {
+      filled: 6,
+      overwritten: 0,
+      unchanged: 1,
+      kept: 0,
+      conflict: 1,
+    });
+  });
+
+  it("lists every cell that differed from the rule value with its row and SSN", () => {
+    const result = processRows(input, [makeRule("30")]);
+    const changes = listChanges(result, input);
+    assert.equal(changes.length, 7);
+    assert.deepEqual(
+      { ...changes[0] },
+      {
+        columnKey: "carrier",
+        header: "Hlth Ins Carrie",
+        before: "UHC",
+        after: "AETN",
+        ruleValue: "AETN",
+        kind: "overwritten",
+        rowIndex: 0,
+        ssn: "123-45-6789",
+      }
+    );
+    assert.ok(changes.every((change) => change.rowIndex !== 2));
+
+    const lines = changesToCSV(changes).split("\r\n");
+    assert.equal(lines[0], "Row,SSN,Column,Original,Rule Value,Output,Change");
+    assert.equal(lines[1], "1,123-45-6789,Hlth Ins Carrie,UHC,AETN,AETN,Overwritten");
+  });
+});
@@ -0,0 +1,92 @@
+import { serializeCSV } from "./csv";
+import type {
+  CellChange,
+  ChangeKind,
+  CSVRow,
+  OverwritePolicy,
+  ProcessResult,
+} from "./types";
+
+// Display labels for the overwrite policy setting
+export const OVERWRITE_POLICY_LABELS: Record<OverwritePolicy, string> = {
+  overwrite: "Always overwrite existing values",
+  "fill-blanks": "Only fill blank cells",
+  "flag-conflicts": "Fill blanks and flag conflicts",
+};
+
+// Display labels for cell change kinds
+export const CHANGE_KIND_LABELS: Record<ChangeKind, string> = {
+  filled: "Filled",
+  overwritten: "Overwritten",
+  unchanged: "Unchanged",
+  kept: "Kept original",
+  conflict: "Conflict",
+};
+
+// A changed cell, with the row it belongs to
+export type RowChange = CellChange & {
+  rowIndex: number;
+  ssn: string;
+};
+
+// Decides what to write to one output cell of a matched row under the overwrite policy
+export const resolveCellChange = (
+  before: string,
+  ruleValue: string,
+  policy: OverwritePolicy
+): Pick<CellChange, "after" | "kind"> => {
+  if (before === ruleValue) return { after: ruleValue, kind: "unchanged" };
+  if (before.trim() === "") return { after: ruleValue, kind: "filled" };
+  if (policy === "overwrite") return { after: ruleValue, kind: "overwritten" };
+  return {
+    after: before,
+    kind: policy === "flag-conflicts" ? "conflict" : "kept",
+  };
+};
+
+// Counts output cells of matched rows by change kind
+export const summarizeChanges = (
+  result: ProcessResult
+): Record<ChangeKind, number> => {
+  const counts: Record<ChangeKind, number> = {
+    filled: 0,
+    overwritten: 0,
+    unchanged: 0,
+    kept: 0,
+    conflict: 0,
+  };
+  result.results.forEach((rowResult) =>
+    rowResult.changes.forEach((change) => counts[change.kind]++)
+  );
+  return counts;
+};
+
+// Lists every cell whose input value differed from the rule value, in row order
+export const listChanges = (
+  result: ProcessResult,
+  inputRows: CSVRow[]
+): RowChange[] =>
+  result.results.flatMap((rowResult) =>
+    rowResult.changes
+      .filter((change) => change.kind !== "unchanged")
+      .map((change) => ({
+        ...change,
+        rowIndex: rowResult.rowIndex,
+        ssn: inputRows[rowResult.rowIndex]?.SSN ?? "",
+      }))
+  );
+
+// Serializes the change list to CSV for the change report download
+// Row numbers are 1-based data rows, not counting the header
+export const changesToCSV = (changes: RowChange[]): string =>
+  serializeCSV(
+    changes.map((change) => ({
+      Row: String(change.rowIndex + 1),
+      SSN: change.ssn,
+      Column: change.header,
+      Original: change.before,
+      "Rule Value": change.ruleValue,
+      Output: change.after,
+      Change: CHANGE_KIND_LABELS[change.kind],
+    }))
+  );
@@ -0,0 +1,128 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  CSVParseError,
+  CSVParser,
+  formatCSVField,
+  parseCSV,
+  parseCSVStream,
+  serializeCSV,
+} from "./csv";
+
+// Feeds text to a parser in chunks of the given size and returns the records
+const parseInChunks = (text: string, size: number): string[][] => {
+  const records: string[][] = [];
+  const parser = new CSVParser((fields) => records.push(fields));
+  for (let i = 0; i < text.length; i += size) {
+    parser.write(text.slice(i, i + size));
+  }
+  parser.end();
+  return records;
+};
+
+describe("CSVParser", () => {
+  it("handles quoted delimiters, escaped quotes and line breaks inside quotes", () => {
+    const text = 'a,b,c\r\n"x,1","say ""hi""","two\r\nlines"\r\n';
+    assert.deepEqual(parseInChunks(text, text.length), [
+      ["a", "b", "c"],
+      ["x,1", 'say "hi"', "two\r\nlines"],
+    ]);
+  });
+
+  it("gives the same records whatever the chunk boundaries", () => {
+    const text = '\uFEFFa,b\r\n"1\r\n2","3""4"\r5,6\n7,8';
+    const expected = [
+      ["a", "b"],
+      ["1\r\n2", '3"4'],
+      ["5", "6"],
+      ["7", "8"],
+    ];
+    [1, 2, 3, 5, text.length].forEach((size) =>
+      assert.deepEqual(parseInChunks(text, size), expected)
+    );
+  });
+
+  it("keeps empty fields and a trailing empty field", () => {
+    assert.deepEqual(parseInChunks("a,,b,\n", 100), [["a", "", "b", ""]]);
+  });
+
+  it("reports an unterminated quoted field with its line", () => {
+    assert.throws(
+      () => parseInChunks('a,b\n"1,2\n3', 100),
+      (error: unknown) => error instanceof CSVParseError && error.line === 3
+    );
+  });
+
+  it("uses a custom delimiter and rejects unusable ones", () => {
+    const records: string[][] = [];
+    const parser = new CSVParser((fields) => records.push(fields), {
+      delimiter: ";",
+    });
+    parser.write("a;b,c\n");
+    parser.end();
+    assert.deepEqual(records, [["a", "b,c"]]);
+    assert.throws(() => new CSVParser(() => {}, { delimiter: '"' }));
+  });
+});
+
+describe("parseCSV", () => {
+  it("builds rows keyed by trimmed headers and drops blank rows", () => {
+    const { headers, rows } = parseCSV(" SSN ,Deduction\n123456789, 2400 \n,\n");
+    assert.deepEqual(headers, ["SSN", "Deduction"]);
+    assert.deepEqual(rows, [{ SSN: "123456789", Deduction: "2400" }]);
+  });
+
+  it("trims unquoted values but keeps quoted padding", () => {
+    const { rows } = parseCSV('Code,Name\n  A1  ,"  padded  "\n');
+    assert.equal(rows[0].Code, "A1");
+    assert.equal(rows[0].Name, "  padded  ");
+  });
+
+  it("fills missing trailing fields with blanks", () => {
+    const { rows } = parseCSV("a,b,c\n1\n");
+    assert.deepEqual(rows, [{ a: "1", b: "", c: "" }]);
+  });
+});
+
+describe("parseCSVStream", () => {
+  it("decodes multi-byte characters split across chunks", async () => {
+    const bytes = new TextEncoder().encode("Name\nJosé\n");
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        bytes.forEach((byte) => controller.enqueue(Uint8Array.of(byte)));
+        controller.close();
+      },
+    });
+    const rows: string[] = [];
+    const headers = await parseCSVStream(stream, (row) => rows.push(row.Name));
+    assert.deepEqual(headers, ["Name"]);
+    assert.deepEqual(rows, ["José"]);
+  });
+});
+
+describe("CSV writer", () => {
+  it("quotes only values that need it", () => {
+    assert.equal(formatCSVField("plain"), "plain");
+    assert.equal(formatCSVField("a,b"), '"a,b"');
+    assert.equal(formatCSVField('say "hi"'), '"say ""hi"""');
+    assert.equal(formatCSVField("two\nlines"), '"two\nlines"');
+    assert.equal(formatCSVField(" padded "), '" padded "');
+    assert.equal(formatCSVField("a;b", ";"), '"a;b"');
+  });
+
+  it("writes CRLF records and skips empty rows", () => {
+    const text = serializeCSV([
+      { a: "1", b: "x,y" },
+      { a: "", b: "" },
+    ]);
+    assert.equal(text, 'a,b\r\n1,"x,y"\r\n');
+  });
+
+  it("round trips through the parser", () => {
+    const rows = [
+      { Name: ' "quoted" ', Notes: "line one\r\nline two", Code: "A,B" },
+      { Name: "plain", Notes: "", Code: "  " },
+    ];
+    assert.deepEqual(parseCSV(serializeCSV(rows)).rows, rows);
+  });
+});
@@ -0,0 +1,249 @@
+import type { CSVRow } from "./types";
+
+// Options shared by the CSV parser and writer
+export type CSVOptions = {
+  delimiter?: string; // Field separator, defaults to ","
+  trimValues?: boolean; // Trim surrounding whitespace from unquoted values when parsing, defaults to true; quoted values are kept as-is
+  lineEnding?: "\r\n" | "\n"; // Record separator used when writing, defaults to CRLF per RFC 4180
+};
+
+// Result of parsing a CSV file: the header row plus one object per data row
+export type ParsedCSV = {
+  headers: string[];
+  rows: CSVRow[];
+};
+
+// Thrown when the input cannot be parsed, e.g. a quoted field is never closed
+export class CSVParseError extends Error {
+  constructor(message: string, public readonly line: number) {
+    super(`${message} (line ${line})`);
+    this.name = "CSVParseError";
+  }
+}
+
+const BOM = "\uFEFF";
+
+// Tokenizer states
+const FIELD_START = 0; // At the beginning of a field
+const UNQUOTED = 1; // Inside an unquoted field
+const QUOTED = 2; // Inside a quoted field
+const QUOTE_IN_QUOTED = 3; // Just read a quote inside a quoted field (closing quote or first half of "")
+
+// Incremental RFC 4180 tokenizer
+// Text can be written in arbitrary chunks; each complete record is passed to onRecord as a list of fields,
+// along with which of them were quoted
+// Handles quoted fields, escaped quotes (""), delimiters and line breaks inside quotes, CRLF/LF/CR and a leading BOM
+export class CSVParser {
+  private readonly delimiter: string;
+  private state = FIELD_START;
+  private field = "";
+  private fields: string[] = [];
+  private quoted: boolean[] = [];
+  private fieldQuoted = false;
+  private pendingCR = false; // Last character was a CR outside quotes, so a following LF belongs to it
+  private started = false;
+  private line = 1;
+
+  constructor(
+    private readonly onRecord: (fields: string[], quoted: boolean[]) => void,
+    options: CSVOptions = {}
+  ) {
+    this.delimiter = options.delimiter ?? ",";
+    if (this.delimiter.length !== 1 || /["\r\n]/.test(this.delimiter)) {
+      throw new Error("Delimiter must be a single character other than a quote or line break");
+    }
+  }
+
+  // Feeds the next chunk of text to the parser
+  write(chunk: string): void {
+    let start = 0;
+    if (!this.started && chunk.length > 0) {
+      this.started = true;
+      if (chunk.startsWith(BOM)) start = 1; // Strip a UTF-8 BOM so the first header matches
+    }
+
+    for (let i = start; i < chunk.length; i++) {
+      const ch = chunk[i];
+
+      if (this.pendingCR) {
+        this.pendingCR = false;
+        if (ch === "\n") continue;
+      }
+
+      if (this.state === QUOTED) {
+        if (ch === '"') {
+          this.state = QUOTE_IN_QUOTED;
+        } else {
+          if (ch === "\n") this.line++;
+          this.field += ch;
+        }
+        continue;
+      }
+
+      if (this.state === QUOTE_IN_QUOTED) {
+        if (ch === '"') {
+          // Escaped quote inside a quoted field
+          this.field += '"';
+          this.state = QUOTED;
+          continue;
+        }
+        // The quote closed the field; anything other than a separator is kept as-is
+        this.state = UNQUOTED;
+      }
+
+      if (ch === '"' && this.state === FIELD_START) {
+        this.state = QUOTED;
+        this.fieldQuoted = true;
+      } else if (ch === this.delimiter) {
+        this.endField();
+      } else if (ch === "\r") {
+        this.endRecord();
+        this.pendingCR = true;
+      } else if (ch === "\n") {
+        this.endRecord();
+      } else {
+        this.field += ch;
+        this.state = UNQUOTED;
+      }
+    }
+  }
+
+  // Flushes the final record; call once after the last chunk has been written
+  end(): void {
+    if (this.state === QUOTED) {
+      throw new CSVParseError("Unterminated quoted field", this.line);
+    }
+    if (this.state !== FIELD_START || this.fields.length > 0) {
+      this.endRecord();
+    }
+  }
+
+  private endField() {
+    this.fields.push(this.field);
+    this.quoted.push(this.fieldQuoted);
+    this.field = "";
+    this.fieldQuoted = false;
+    this.state = FIELD_START;
+  }
+
+  private endRecord() {
+    this.endField();
+    const record = this.fields;
+    const quoted = this.quoted;
+    this.fields = [];
+    this.quoted = [];
+    this.line++;
+    this.onRecord(record, quoted);
+  }
+}
+
+// Turns raw records into row objects, using the first record as the header row
+// Returns null for the header record and for rows that have no non-empty value
+// Quoted values are never trimmed, so padding the writer preserved by quoting survives a round trip
+export const createRowBuilder = (options: CSVOptions = {}) => {
+  const trimValues = options.trimValues ?? true;
+  let headers: string[] | null = null;
+
+  return {
+    get headers(): string[] {
+      return headers ?? [];
+    },
+    build(record: string[], quoted: boolean[] = []): CSVRow | null {
+      if (headers === null) {
+        headers = record.map((h) => h.trim());
+        return null;
+      }
+      const rowObj = headers.reduce((obj, header, index) => {
+        const value = record[index] ?? "";
+        obj[header] = trimValues && !quoted[index] ? value.trim() : value;
+        return obj;
+      }, {} as CSVRow);
+      // Only include rows that have at least one non-empty value
+      const hasValues = Object.values(rowObj).some((value) => value.trim() !== "");
+      return hasValues ? rowObj : null;
+    },
+  };
+};
+
+// Parses CSV text into row objects using the first record as headers
+// Rows without any non-empty value are dropped
+export const parseCSV = (text: string, options: CSVOptions = {}): ParsedCSV => {
+  const builder = createRowBuilder(options);
+  const rows: CSVRow[] = [];
+  const parser = new CSVParser((record, quoted) => {
+    const row = builder.build(record, quoted);
+    if (row) rows.push(row);
+  }, options);
+  parser.write(text);
+  parser.end();
+  return { headers: builder.headers, rows };
+};
+
+// Reads rows from a byte stream (e.g. File.stream() or a request body) without buffering the whole text
+// onRow is called for each data row once the headers have been read
+export const parseCSVStream = async (
+  stream: ReadableStream<Uint8Array>,
+  onRow: (row: CSVRow, headers: string[]) => void,
+  options: CSVOptions = {}
+): Promise<string[]> => {
+  const builder = createRowBuilder(options);
+  const parser = new CSVParser((record, quoted) => {
+    const row = builder.build(record, quoted);
+    if (row) onRow(row, builder.headers);
+  }, options);
+  const decoder = new TextDecoder("utf-8");
+  const reader = stream.getReader();
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    parser.write(decoder.decode(value, { stream: true }));
+  }
+  parser.write(decoder.decode());
+  parser.end();
+  return builder.headers;
+};
+
+// Quotes a value when it contains the delimiter, a quote, a line break or surrounding whitespace
+// Embedded quotes are escaped by doubling them
+export const formatCSVField = (value: string, delimiter = ","): string => {
+  const needsQuotes =
+    value.includes(delimiter) ||
+    /["\r\n]/.test(value) ||
+    value !== value.trim();
+  return needsQuotes ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+// Formats a single record, including its trailing line ending, so output can be streamed
+export const formatCSVRecord = (values: string[], options: CSVOptions = {}): string => {
+  const delimiter = options.delimiter ?? ",";
+  return (
+    values.map((value) => formatCSVField(value, delimiter)).join(delimiter) +
+    (options.lineEnding ?? "\r\n")
+  );
+};
+
+// Returns the headers to write for a set of rows: the keys of the first row, skipping blank ones
+export const getCSVHeaders = (rows: Record<string, string>[]): string[] =>
+  rows.length > 0
+    ? Object.keys(rows[0]).filter((header) => header.trim() !== "")
+    : [];
+
+// Serializes row objects to CSV text
+// Rows where every value is empty are skipped
+export const serializeCSV = (
+  rows: Record<string, string>[],
+  headers: string[] = getCSVHeaders(rows),
+  options: CSVOptions = {}
+): string =>
+  [
+    formatCSVRecord(headers, options),
+    ...rows
+      .filter((row) => Object.values(row).some((value) => value !== "")) // Filter out empty rows
+      .map((row) =>
+        formatCSVRecord(
+          headers.map((header) => row[header] ?? ""),
+          options
+        )
+      ),
+  ].join("");
@@ -0,0 +1,33 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { parseDate, toDateWindow, toISODate, windowsOverlap } from "./dates";
+
+describe("parseDate", () => {
+  it("reads the date formats seen in exports and rule sets", () => {
+    [
+      "01/15/2026",
+      "1/15/26",
+      "01-15-2026",
+      "2026-01-15",
+      "2026/1/15",
+      "20260115",
+    ].forEach((text) =>
+      assert.equal(toISODate(parseDate(text)!), "2026-01-15")
+    );
+  });
+
+  it("returns null for blank, unknown and impossible dates", () => {
+    ["", "  ", "soon", "02/30/2026", "13/01/2026"].forEach((text) =>
+      assert.equal(parseDate(text), null)
+    );
+  });
+});
+
+describe("windowsOverlap", () => {
+  it("treats missing dates as open-ended and shared end days as overlapping", () => {
+    const january = toDateWindow("2026-01-01", "2026-01-31");
+    assert.ok(windowsOverlap(january, toDateWindow("2026-01-31", "")));
+    assert.ok(windowsOverlap(january, toDateWindow("", "")));
+    assert.ok(!windowsOverlap(january, toDateWindow("2026-02-01", "")));
+  });
+});
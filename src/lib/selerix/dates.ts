@@ -0,0 +1,62 @@
+import type { DateWindow } from "./types";
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Builds a UTC date, rejecting impossible ones such as 02/30/2026
+const makeDate = (year: number, month: number, day: number): Date | null => {
+  if (year < 100) year += year < 70 ? 2000 : 1900;
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCFullYear() === year &&
+    date.getUTCMonth() === month - 1 &&
+    date.getUTCDate() === day
+    ? date
+    : null;
+};
+
+// Parses a date in any of the formats seen in Selerix exports and rule sets:
+// MM/DD/YYYY, M/D/YY, MM-DD-YYYY, YYYY-MM-DD, YYYY/MM/DD and YYYYMMDD
+// Returns null for blank or unrecognized values
+export const parseDate = (value: string | undefined): Date | null => {
+  const text = value?.trim() ?? "";
+  if (!text) return null;
+
+  let match = /^(\d{4})[-/](\d{1,2})[-/](\d{1,2})$/.exec(text);
+  if (match) return makeDate(+match[1], +match[2], +match[3]);
+
+  match = /^(\d{1,2})[-/](\d{1,2})[-/](\d{2}|\d{4})$/.exec(text);
+  if (match) return makeDate(+match[3], +match[1], +match[2]);
+
+  match = /^(\d{4})(\d{2})(\d{2})$/.exec(text);
+  if (match) return makeDate(+match[1], +match[2], +match[3]);
+
+  return null;
+};
+
+// Formats a date as YYYY-MM-DD, the format used by rule effective dates and date inputs
+export const toISODate = (date: Date): string =>
+  date.toISOString().slice(0, 10);
+
+// Converts a date to a whole day number so windows compare without time-of-day issues
+export const toDayNumber = (date: Date): number =>
+  Math.floor(date.getTime() / MS_PER_DAY);
+
+// Builds a window from two optional dates; a missing date leaves that side open
+export const toDateWindow = (
+  from: string | undefined,
+  to: string | undefined
+): DateWindow => {
+  const start = parseDate(from);
+  const end = parseDate(to);
+  return {
+    start: start ? toDayNumber(start) : -Infinity,
+    end: end ? toDayNumber(end) : Infinity,
+  };
+};
+
+// Checks whether two date windows share at least one day
+export const windowsOverlap = (a: DateWindow, b: DateWindow): boolean =>
+  a.start <= b.end && b.start <= a.end;
+
+// Checks whether the outer window covers every day of the inner one
+export const windowContains = (outer: DateWindow, inner: DateWindow): boolean =>
+  outer.start <= inner.start && outer.end >= inner.end;
@@ -0,0 +1,205 @@
+import type { CodeLookup, OutputColumn, Rule } from "./types";
+
+// The four health insurance columns populated by the original VBA macro
+// Headers match the (truncated) names used in Selerix exports
+export const DEFAULT_OUTPUT_COLUMNS: OutputColumn[] = [
+  { key: "carrier", header: "Hlth Ins Carrie", label: "Carrier", required: true },
+  { key: "coverage", header: "Hlth Ins Cvrage", label: "Coverage", required: true },
+  { key: "level", header: "Hlth Ins Level", label: "Level", defaultValue: "1" },
+  { key: "plan", header: "Hlth Ins Plan", label: "Plan" },
+];
+
+// Define default rules based on VBA conditions
+export const defaultRules: Rule[] = [
+  // Medical code 2400
+  {
+    deduction: "2400",
+    empAmount: "30-30.1",
+    outputs: { carrier: "AETN", coverage: "1", level: "1", plan: "HLTH" },
+  },
+  {
+    deduction: "2400",
+    empAmount: "138-138.1",
+    outputs: { carrier: "AETN", coverage: "10", level: "1", plan: "HLTH" },
+  },
+  {
+    deduction: "2400",
+    empAmount: "228-228.1",
+    outputs: { carrier: "AETN", coverage: "2", level: "1", plan: "HLTH" },
+  },
+  {
+    deduction: "2400",
+    empAmount: "298-298.1",
+    outputs: { carrier: "AETN", coverage: "3", level: "1", plan: "HLTH" },
+  },
+  {
+    deduction: "2400",
+    empAmount: "458-458.1",
+    outputs: { carrier: "AETN", coverage: "4", level: "1", plan: "HLTH" },
+  },
+  {
+    deduction: "2400",
+    empAmount: "58-58.1",
+    outputs: { carrier: "AETN", coverage: "90", level: "1", plan: "HLTH" },
+  },
+  {
+    deduction: "2400",
+    empAmount: "170-170.1",
+    outputs: { carrier: "AETN", coverage: "94", level: "1", plan: "HLTH" },
+  },
+  {
+    deduction: "2400",
+    empAmount: "260-260.1",
+    outputs: { carrier: "AETN", coverage: "91", level: "1", plan: "HLTH" },
+  },
+  {
+    deduction: "2400",
+    empAmount: "330-330.1",
+    outputs: { carrier: "AETN", coverage: "92", level: "1", plan: "HLTH" },
+  },
+  {
+    deduction: "2400",
+    empAmount: "490-490.1",
+    outputs: { carrier: "AETN", coverage: "93", level: "1", plan: "HLTH" },
+  },
+  // Medical code 2401
+  {
+    deduction: "2401",
+    empAmount: "0",
+    outputs: { carrier: "AETN", coverage: "1", level: "1", plan: "H-CD" },
+  },
+  {
+    deduction: "2401",
+    empAmount: "92-92.1",
+    outputs: { carrier: "AETN", coverage: "10", level: "1", plan: "H-CD" },
+  },
+  {
+    deduction: "2401",
+    empAmount: "122-122.1",
+    outputs: { carrier: "AETN", coverage: "2", level: "1", plan: "H-CD" },
+  },
+  {
+    deduction: "2401",
+    empAmount: "162-162.1",
+    outputs: { carrier: "AETN", coverage: "3", level: "1", plan: "H-CD" },
+  },
+  {
+    deduction: "2401",
+    empAmount: "262-262.1",
+    outputs: { carrier: "AETN", coverage: "4", level: "1", plan: "H-CD" },
+  },
+  {
+    deduction: "2401",
+    empAmount: "28-28.1",
+    outputs: { carrier: "AETN", coverage: "90", level: "1", plan: "H-CD" },
+  },
+  {
+    deduction: "2401",
+    empAmount: "120-120.1",
+    outputs: { carrier: "AETN", coverage: "94", level: "1", plan: "H-CD" },
+  },
+  {
+    deduction: "2401",
+    empAmount: "150-150.1",
+    outputs: { carrier: "AETN", coverage: "91", level: "1", plan: "H-CD" },
+  },
+  {
+    deduction: "2401",
+    empAmount: "190-190.1",
+    outputs: { carrier: "AETN", coverage: "92", level: "1", plan: "H-CD" },
+  },
+  {
+    deduction: "2401",
+    empAmount: "290-290.1",
+    outputs: { carrier: "AETN", coverage: "93", level: "1", plan: "H-CD" },
+  },
+  // Dental code 2410
+  {
+    deduction: "2410",
+    empAmount: "15.4-15.6",
+    outputs: { carrier: "AMER", coverage: "5", level: "1", plan: "DENT" },
+  },
+  {
+    deduction: "2410",
+    empAmount: "33.4-33.6",
+    outputs: { carrier: "AMER", coverage: "6", level: "1", plan: "DENT" },
+  },
+  {
+    deduction: "2410",
+    empAmount: "51.9-52.1",
+    outputs: { carrier: "AMER", coverage: "7", level: "1", plan: "DENT" },
+  },
+  // Vision code 2411
+  {
+    deduction: "2411",
+    empAmount: "3.1-3.2",
+    outputs: { carrier: "STAN", coverage: "70", level: "1", plan: "VISS" },
+  },
+  {
+    deduction: "2411",
+    empAmount: "6-6.1",
+    outputs: { carrier: "STAN", coverage: "71", level: "1", plan: "VISS" },
+  },
+  {
+    deduction: "2411",
+    empAmount: "6.2-6.3",
+    outputs: { carrier: "STAN", coverage: "72", level: "1", plan: "VISS" },
+  },
+  {
+    deduction: "2411",
+    empAmount: "9.2-9.3",
+    outputs: { carrier: "STAN", coverage: "73", level: "1", plan: "VISS" },
+  },
+];
+
+// Carrier, plan and coverage codes used by the default rules
+// Coverage tiers 90-93 and 94 are the surcharge counterparts of tiers 1-4 and 10
+// These are starting values: each rule set keeps its own copy, edited in the code lookup editor
+export const DEFAULT_CODE_LOOKUP: CodeLookup = {
+  carriers: [
+    { code: "AETN", description: "Aetna" },
+    { code: "AMER", description: "Ameritas" },
+    { code: "STAN", description: "Standard Insurance" },
+  ],
+  plans: [
+    { code: "HLTH", description: "Medical", carrier: "AETN" },
+    { code: "H-CD", description: "Medical (consumer driven)", carrier: "AETN" },
+    { code: "DENT", description: "Dental", carrier: "AMER" },
+    { code: "VISS", description: "Vision", carrier: "STAN" },
+  ],
+  coverages: [
+    { code: "1", description: "Employee", plans: ["HLTH", "H-CD"] },
+    { code: "10", description: "Employee + Child", plans: ["HLTH", "H-CD"] },
+    { code: "2", description: "Employee + Spouse", plans: ["HLTH", "H-CD"] },
+    { code: "3", description: "Employee + Children", plans: ["HLTH", "H-CD"] },
+    { code: "4", description: "Family", plans: ["HLTH", "H-CD"] },
+    {
+      code: "90",
+      description: "Employee (surcharge)",
+      plans: ["HLTH", "H-CD"],
+    },
+    {
+      code: "94",
+      description: "Employee + Child (surcharge)",
+      plans: ["HLTH", "H-CD"],
+    },
+    {
+      code: "91",
+      description: "Employee + Spouse (surcharge)",
+      plans: ["HLTH", "H-CD"],
+    },
+    {
+      code: "92",
+      description: "Employee + Children (surcharge)",
+      plans: ["HLTH", "H-CD"],
+    },
+    { code: "93", description: "Family (surcharge)", plans: ["HLTH", "H-CD"] },
+    { code: "5", description: "Employee", plans: ["DENT"] },
+    { code: "6", description: "Employee + One", plans: ["DENT"] },
+    { code: "7", description: "Family", plans: ["DENT"] },
+    { code: "70", description: "Employee", plans: ["VISS"] },
+    { code: "71", description: "Employee + Spouse", plans: ["VISS"] },
+    { code: "72", description: "Employee + Children", plans: ["VISS"] },
+    { code: "73", description: "Family", plans: ["VISS"] },
+  ],
+};
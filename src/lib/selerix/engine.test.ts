@@ -0,0 +1,108 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { RuleAmbiguityError } from "./analysis";
+import {
+  assertRulesReady,
+  findMatchingRule,
+  processRow,
+  resolveProcessOptions,
+} from "./engine";
+import { makeRow, makeRule } from "./fixtures";
+import type { CSVRow, Rule } from "./types";
+
+describe("findMatchingRule", () => {
+  it("matches on deduction code and an inclusive amount range", () => {
+    const rules = [makeRule("10", "A"), makeRule("30-30.1", "B")];
+    assert.equal(findMatchingRule(makeRow(), 30, rules), 1);
+    assert.equal(findMatchingRule(makeRow(), 30.1, rules), 1);
+    assert.equal(findMatchingRule(makeRow(), 30.2, rules), -1);
+    assert.equal(
+      findMatchingRule(makeRow({ Deduction: "1720" }), 30, rules),
+      -1
+    );
+  });
+
+  it("takes the first match by default and the narrowest range for most-specific", () => {
+    const rules = [makeRule("0-100", "WIDE"), makeRule("29-31", "NARROW")];
+    assert.equal(findMatchingRule(makeRow(), 30, rules), 0);
+    assert.equal(findMatchingRule(makeRow(), 30, rules, "most-specific"), 1);
+  });
+});
+
+describe("findMatchingRule with effective dates", () => {
+  it("only considers rules in effect for the row's dates", () => {
+    const rules = [
+      makeRule("30", "OLD", { effectiveTo: "2025-12-31" }),
+      makeRule("30", "NEW", { effectiveFrom: "2026-01-01" }),
+    ];
+    const row = makeRow({
+      "Start Date": "01/15/2026",
+      "End Date": "12/31/2026",
+    });
+    assert.equal(findMatchingRule(row, 30, rules), 1);
+    // Undated rows overlap every window
+    assert.equal(findMatchingRule(makeRow(), 30, rules), 0);
+  });
+});
+
+describe("findMatchingRule with conditions", () => {
+  it("applies conditions with AND or OR", () => {
+    const conditions: Rule["conditions"] = [
+      { column: "Division", operator: "in", value: "East, North" },
+      { column: "EmployeeIdent", operator: "regex", value: "^EX" },
+    ];
+    const all = [makeRule("30", "ALL", { conditions })];
+    const any = [makeRule("30", "ANY", { conditions, conditionMode: "any" })];
+    const row = makeRow({ Division: "North", EmployeeIdent: "E100" });
+    assert.equal(findMatchingRule(row, 30, all), -1);
+    assert.equal(findMatchingRule(row, 30, any), 0);
+  });
+
+  it("prefers the rule with more conditions when ranges are equally narrow", () => {
+    const rules = [
+      makeRule("30", "ANY"),
+      makeRule("30", "EAST", {
+        conditions: [{ column: "Division", operator: "equals", value: "East" }],
+      }),
+    ];
+    const row = makeRow({ Division: "East" });
+    assert.equal(findMatchingRule(row, 30, rules, "most-specific"), 1);
+  });
+});
+
+describe("assertRulesReady", () => {
+  it("refuses overlapping rules only under the error strategy", () => {
+    const rules = [makeRule("0-50", "A"), makeRule("40-100", "B")];
+    assertRulesReady(rules, resolveProcessOptions());
+    const strict = resolveProcessOptions({ matchStrategy: "error" });
+    assert.throws(
+      () => assertRulesReady(rules, strict),
+      (error: unknown) =>
+        error instanceof RuleAmbiguityError && error.issues.length === 1
+    );
+  });
+});
+
+describe("processRow", () => {
+  it("writes the matching rule's outputs and blanks every output column otherwise", () => {
+    const rules = [makeRule("30-30.1")];
+    const options = resolveProcessOptions();
+    const matched = processRow(makeRow(), 0, rules, options);
+    assert.equal(matched.result.ruleIndex, 0);
+    assert.equal(matched.result.ruleKey, "2400 @ 30-30.1");
+    assert.equal(matched.row["Hlth Ins Carrie"], "AETN");
+    assert.equal(matched.row["Hlth Ins Plan"], "HLTH");
+
+    // A file without the output columns still gets all of them
+    const unmatched = processRow(
+      { SSN: "123456789", Deduction: "9999", "Empe Amt/Pct": "1" } as CSVRow,
+      1,
+      rules,
+      options
+    );
+    assert.equal(unmatched.result.ruleIndex, null);
+    assert.equal(unmatched.result.ruleKey, null);
+    assert.equal(unmatched.row["Hlth Ins Carrie"], "");
+    assert.ok("Hlth Ins Level" in unmatched.row);
+  });
+});
@@ -0,0 +1,218 @@
+import { resolveRowAmount } from "./amounts";
+import { resolveCellChange } from "./changes";
+import { DEFAULT_OUTPUT_COLUMNS } from "./default-rules";
+import { EMPTY_CODE_LOOKUP } from "./lookups";
+import { analyzeRules, RuleAmbiguityError } from "./analysis";
+import { ruleKey } from "./rule-diff";
+import {
+  getRowWindow,
+  isEffectiveForRow,
+  isWithinRange,
+  matchesConditions,
+  parseAmountRange,
+  validateRules,
+} from "./rules";
+import type {
+  CellChange,
+  CSVRow,
+  MatchStrategy,
+  ProcessOptions,
+  ProcessResult,
+  Rule,
+  RowResult,
+  RuleValidationResult,
+} from "./types";
+
+// Thrown when processing is attempted with rules that fail validation
+export class RuleValidationError extends Error {
+  constructor(public readonly results: RuleValidationResult[]) {
+    super(
+      `Validation errors:\n${results
+        .map((result) => `Rule ${result.index + 1}: ${result.errors.join(", ")}`)
+        .join("\n")}`
+    );
+    this.name = "RuleValidationError";
+  }
+}
+
+// Options used when none are given, matching amounts exactly as they appear in the file
+export const DEFAULT_PROCESS_OPTIONS: Required<ProcessOptions> = {
+  payFrequency: "monthly",
+  monthlyColumn: "ignore",
+  matchStrategy: "first",
+  overwritePolicy: "overwrite",
+  outputColumns: DEFAULT_OUTPUT_COLUMNS,
+  codeLookup: EMPTY_CODE_LOOKUP,
+};
+
+// Fills in any missing options with their defaults
+export const resolveProcessOptions = (
+  options: ProcessOptions = {}
+): Required<ProcessOptions> => ({ ...DEFAULT_PROCESS_OPTIONS, ...options });
+
+// Finds the index of the rule matching the row's deduction code and the given (monthly) amount
+// Only rules whose effective window overlaps the row's Start Date / End Date and whose conditions hold are considered
+// Takes the first match, or the match with the narrowest amount range for "most-specific",
+// preferring the rule with more conditions when ranges are equally narrow
+// Returns -1 when no rule matches
+export const findMatchingRule = (
+  row: CSVRow,
+  amount: number,
+  rules: Rule[],
+  matchStrategy: MatchStrategy = "first"
+): number => {
+  const rowWindow = getRowWindow(row);
+  const matches = (rule: Rule) =>
+    rule.deduction === row.Deduction &&
+    isWithinRange(amount, rule.empAmount) &&
+    isEffectiveForRow(rule, rowWindow) &&
+    matchesConditions(row, rule);
+  if (matchStrategy !== "most-specific") return rules.findIndex(matches);
+
+  let best = -1;
+  let bestWidth = Infinity;
+  let bestConditions = -1;
+  rules.forEach((rule, index) => {
+    if (!matches(rule)) return;
+    const range = parseAmountRange(rule.empAmount)!;
+    const width = range.max - range.min;
+    const conditions = rule.conditions?.length ?? 0;
+    if (
+      width < bestWidth ||
+      (width === bestWidth && conditions > bestConditions)
+    ) {
+      best = index;
+      bestWidth = width;
+      bestConditions = conditions;
+    }
+  });
+  return best;
+};
+
+// Applies the matching rule to a single row
+// Returns a new row with the output columns populated, plus the match details
+// Every row gets every output column, blank when the file has none and no rule matched,
+// so the output headers are the same whichever row they are read from
+export const processRow = (
+  row: CSVRow,
+  rowIndex: number,
+  rules: Rule[],
+  options: Required<ProcessOptions> = DEFAULT_PROCESS_OPTIONS
+): { row: CSVRow; result: RowResult } => {
+  const newRow = { ...row };
+  const { amount, basis } = resolveRowAmount(row, options);
+  const ruleIndex = findMatchingRule(row, amount, rules, options.matchStrategy);
+
+  // Record the normalized amount when asked to fill the monthly column
+  if (options.monthlyColumn === "fill") {
+    newRow["Empe Amt/Pct Montly"] = isNaN(amount)
+      ? row["Empe Amt/Pct Montly"] ?? ""
+      : amount.toFixed(2);
+  }
+  options.outputColumns.forEach((column) => {
+    newRow[column.header] = row[column.header] ?? "";
+  });
+
+  // Apply matching rule to populate the configured output columns, respecting values already in the file
+  const changes: CellChange[] = [];
+  if (ruleIndex !== -1) {
+    const matchingRule = rules[ruleIndex];
+    options.outputColumns.forEach((column) => {
+      const before = row[column.header] ?? "";
+      const ruleValue = matchingRule.outputs[column.key] ?? "";
+      const { after, kind } = resolveCellChange(
+        before,
+        ruleValue,
+        options.overwritePolicy
+      );
+      newRow[column.header] = after;
+      changes.push({
+        columnKey: column.key,
+        header: column.header,
+        before,
+        after,
+        ruleValue,
+        kind,
+      });
+    });
+  }
+
+  return {
+    row: newRow,
+    result: {
+      rowIndex,
+      ruleIndex: ruleIndex === -1 ? null : ruleIndex,
+      ruleKey: ruleIndex === -1 ? null : ruleKey(rules[ruleIndex]),
+      amount,
+      amountBasis: basis,
+      changes,
+    },
+  };
+};
+
+// Lists the headers of rows processRow produces from rows with the given headers, in the same order:
+// the file's headers, then the monthly column when it is filled, then output columns the file lacks
+export const getProcessedHeaders = (
+  headers: string[],
+  options: Required<ProcessOptions> = DEFAULT_PROCESS_OPTIONS
+): string[] => {
+  const processed = headers.filter((header) => header.trim() !== "");
+  const add = (header: string) => {
+    if (!processed.includes(header)) processed.push(header);
+  };
+  if (options.monthlyColumn === "fill") add("Empe Amt/Pct Montly");
+  options.outputColumns.forEach((column) => add(column.header));
+  return processed;
+};
+
+// Validates the rules before a run
+// Throws a RuleValidationError for invalid rules, and a RuleAmbiguityError for ambiguous rules under the "error" strategy
+export const assertRulesReady = (
+  rules: Rule[],
+  options: Required<ProcessOptions>
+): void => {
+  const invalid = validateRules(
+    rules,
+    options.outputColumns,
+    options.codeLookup
+  );
+  if (invalid.length > 0) throw new RuleValidationError(invalid);
+
+  if (options.matchStrategy === "error") {
+    const ambiguous = analyzeRules(rules, "error").filter(
+      (issue) => issue.severity === "error"
+    );
+    if (ambiguous.length > 0) throw new RuleAmbiguityError(ambiguous);
+  }
+};
+
+// Processes every row using the given rules
+// Checks the rules first (see assertRulesReady)
+// onProgress is called before each row and once all rows are done, with the number of rows done so far
+export const processRows = (
+  rows: CSVRow[],
+  rules: Rule[],
+  options: ProcessOptions = {},
+  onProgress?: (done: number, total: number) => void
+): ProcessResult => {
+  const resolved = resolveProcessOptions(options);
+  assertRulesReady(rules, resolved);
+
+  const processed: CSVRow[] = [];
+  const results: RowResult[] = [];
+  rows.forEach((row, rowIndex) => {
+    onProgress?.(rowIndex, rows.length);
+    const output = processRow(row, rowIndex, rules, resolved);
+    processed.push(output.row);
+    results.push(output.result);
+  });
+  onProgress?.(rows.length, rows.length);
+
+  const matchedCount = results.filter((r) => r.ruleIndex !== null).length;
+  return {
+    rows: processed,
+    results,
+    matchedCount,
+    unmatchedCount: results.length - matchedCount,
+  };
+};
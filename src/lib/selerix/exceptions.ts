@@ -0,0 +1,131 @@
+import { serializeCSV } from "./csv";
+import { getRowWindow, isEffectiveForRow, isWithinRange } from "./rules";
+import type { CSVRow, ProcessResult, RowResult, Rule } from "./types";
+
+// Why a row could not be matched
+export type ExceptionReason =
+  | "invalid-amount"
+  | "unknown-deduction"
+  | "no-amount-match"
+  | "conditions-not-met";
+
+export const EXCEPTION_REASON_LABELS: Record<ExceptionReason, string> = {
+  "invalid-amount": "Amount is missing or not a number",
+  "unknown-deduction": "No rule for this deduction code",
+  "no-amount-match": "No rule matches this amount",
+  "conditions-not-met": "Rules match this amount but not their conditions",
+};
+
+// An input row that no rule matched
+export type ExceptionRow = {
+  rowIndex: number; // Position of the row in the input data
+  ssn: string;
+  deduction: string;
+  amount: string; // Amount exactly as it appears in the file
+  matchedAmount: number; // Monthly amount that was used for matching
+  reason: ExceptionReason;
+  row: CSVRow; // The processed row, for callers that need other columns
+};
+
+// Exceptions sharing the same deduction code
+export type ExceptionGroup = {
+  deduction: string;
+  exceptions: ExceptionRow[];
+};
+
+// An exception without its row, for reports over runs whose rows are not kept
+export type ExceptionRecord = Omit<ExceptionRow, "row">;
+
+// Describes one unmatched row, with the likely reason no rule matched it
+export const describeException = (
+  row: CSVRow,
+  rowResult: RowResult,
+  rules: Rule[],
+  knownDeductions: Set<string> = new Set(rules.map((rule) => rule.deduction))
+): ExceptionRecord => {
+  // Rules that would have matched if not for their conditions
+  const rowWindow = getRowWindow(row);
+  const conditionsFailed = rules.some(
+    (rule) =>
+      rule.deduction === row.Deduction &&
+      isWithinRange(rowResult.amount, rule.empAmount) &&
+      isEffectiveForRow(rule, rowWindow)
+  );
+  const reason: ExceptionReason = isNaN(rowResult.amount)
+    ? "invalid-amount"
+    : !knownDeductions.has(row.Deduction)
+    ? "unknown-deduction"
+    : conditionsFailed
+    ? "conditions-not-met"
+    : "no-amount-match";
+  return {
+    rowIndex: rowResult.rowIndex,
+    ssn: row.SSN ?? "",
+    deduction: row.Deduction ?? "",
+    amount: row["Empe Amt/Pct"] ?? "",
+    matchedAmount: rowResult.amount,
+    reason,
+  };
+};
+
+// Lists every row from a processing run that no rule matched, with the likely reason
+export const collectExceptions = (
+  result: ProcessResult,
+  rules: Rule[]
+): ExceptionRow[] => {
+  const knownDeductions = new Set(rules.map((rule) => rule.deduction));
+  return result.results
+    .filter((rowResult) => rowResult.ruleIndex === null)
+    .map((rowResult) => {
+      const row = result.rows[rowResult.rowIndex];
+      return {
+        ...describeException(row, rowResult, rules, knownDeductions),
+        row,
+      };
+    });
+};
+
+// Groups exceptions by deduction code, sorted by code
+export const groupExceptionsByDeduction = (
+  exceptions: ExceptionRow[]
+): ExceptionGroup[] => {
+  const groups = new Map<string, ExceptionRow[]>();
+  exceptions.forEach((exception) => {
+    const group = groups.get(exception.deduction) ?? [];
+    group.push(exception);
+    groups.set(exception.deduction, group);
+  });
+  return [...groups.entries()]
+    .sort(([a], [b]) => a.localeCompare(b, undefined, { numeric: true }))
+    .map(([deduction, exceptions]) => ({ deduction, exceptions }));
+};
+
+// Columns of the exceptions report, in order
+export const EXCEPTION_REPORT_HEADERS = [
+  "Row",
+  "SSN",
+  "Deduction",
+  "Empe Amt/Pct",
+  "Matched Amount",
+  "Reason",
+];
+
+// Flattens exceptions into report rows for the CSV and Excel downloads
+// Row numbers are 1-based data rows, not counting the header
+export const exceptionsToRows = (
+  exceptions: ExceptionRecord[]
+): Record<string, string>[] =>
+  exceptions.map((exception) => ({
+    Row: String(exception.rowIndex + 1),
+    SSN: exception.ssn,
+    Deduction: exception.deduction,
+    "Empe Amt/Pct": exception.amount,
+    "Matched Amount": isNaN(exception.matchedAmount)
+      ? ""
+      : exception.matchedAmount.toFixed(2),
+    Reason: EXCEPTION_REASON_LABELS[exception.reason],
+  }));
+
+// Serializes exceptions to CSV for the exceptions download
+export const exceptionsToCSV = (exceptions: ExceptionRecord[]): string =>
+  serializeCSV(exceptionsToRows(exceptions), EXCEPTION_REPORT_HEADERS);
@@ -0,0 +1,167 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { DEFAULT_OUTPUT_COLUMNS } from "../default-rules";
+import { makeRow } from "../fixtures";
+import type { CSVRow } from "../types";
+import {
+  createEdi834Exporter,
+  DEFAULT_EDI_834_OPTIONS,
+  nextControlNumber,
+  type Edi834Options,
+} from "./edi-834";
+import { ExportError } from "./types";
+
+const context = {
+  outputColumns: DEFAULT_OUTPUT_COLUMNS,
+  now: new Date("2026-01-15T09:30:00Z"),
+};
+
+const options: Edi834Options = {
+  ...DEFAULT_EDI_834_OPTIONS,
+  senderId: "ACME",
+  sponsorName: "Acme Corp",
+  sponsorTaxId: "123456789",
+  receiverIds: { AETN: "AETNA01" },
+  policyNumbers: { AETN: "POL-1" },
+  coverageLevels: { "1": "EMP" },
+  controlNumber: 42,
+};
+
+// An enrolled member's row with the columns the 834 reads
+const memberRow = (values: Record<string, string> = {}): CSVRow =>
+  makeRow({
+    "Start Date": "02/01/2026",
+    "Last Name": "Smith",
+    "First Name": "Jane",
+    "Hlth Ins Carrie": "AETN",
+    "Hlth Ins Cvrage": "1",
+    "Hlth Ins Plan": "HLTH",
+    ...values,
+  });
+
+const segments = (content: string): string[] =>
+  content.split("\n").map((segment) => segment.replace(/~$/, ""));
+
+describe("createEdi834Exporter", () => {
+  it("builds one interchange per carrier with matching envelopes and counts", () => {
+    const result = createEdi834Exporter(options).export(
+      [memberRow(), memberRow({ "Hlth Ins Carrie": "STAN" })],
+      context
+    );
+    assert.deepEqual(
+      result.files.map((file) => file.fileName),
+      ["AETN_834_20260115.edi", "STAN_834_20260115.edi"]
+    );
+
+    const lines = segments(result.files[0].content);
+    const isa = lines[0].split("*");
+    assert.equal(lines[0].length, 105); // ISA is fixed length, less its terminator
+    assert.equal(isa[6], "ACME           ");
+    assert.equal(isa[8], "AETNA01        ");
+    assert.equal(isa[13], "000000042");
+    assert.equal(
+      lines[1],
+      "GS*BE*ACME*AETNA01*20260115*0930*42*X*005010X220A1"
+    );
+    assert.equal(lines.at(-2), "GE*1*42");
+    assert.equal(lines.at(-1), "IEA*1*000000042");
+    assert.ok(lines.includes("REF*38*POL-1"));
+    assert.ok(lines.includes("N1*P5*ACME CORP*FI*123456789"));
+    assert.ok(lines.includes("N1*IN*AETNA"));
+
+    // SE01 counts the segments from ST to SE inclusive
+    const st = lines.findIndex((line) => line.startsWith("ST*"));
+    const se = lines.findIndex((line) => line.startsWith("SE*"));
+    assert.equal(lines[se], `SE*${se - st + 1}*0001`);
+
+    // The next carrier takes the next control number, and the run after that starts past both
+    const nextIsa = segments(result.files[1].content)[0].split("*");
+    assert.equal(nextIsa[13], "000000043");
+    assert.equal(nextControlNumber(options, result), 44);
+  });
+
+  it("writes one member loop per SSN with a coverage loop per row", () => {
+    const rows = [
+      memberRow({ "End Date": "12/31/2026" }),
+      memberRow({
+        SSN: "123456789",
+        "Start Date": "01/01/2026",
+        "Hlth Ins Plan": "DENT",
+      }),
+      memberRow({ SSN: "223-45-6789", "Last Name": "Jones", "First Name": "" }),
+    ];
+    const { files } = createEdi834Exporter(options).export(rows, context);
+    const lines = segments(files[0].content);
+    const member = lines.slice(
+      lines.indexOf("INS*Y*18*030*XN*A***FT"),
+      lines.lastIndexOf("INS*Y*18*030*XN*A***FT")
+    );
+    assert.deepEqual(member, [
+      "INS*Y*18*030*XN*A***FT",
+      "REF*0F*123456789",
+      "DTP*356*D8*20260101",
+      "NM1*IL*1*SMITH*JANE****34*123456789",
+      "HD*030**HLT*HLTH*EMP",
+      "DTP*348*D8*20260201",
+      "DTP*349*D8*20261231",
+      "HD*030**DEN*DENT*EMP",
+      "DTP*348*D8*20260101",
+    ]);
+    assert.equal(lines.filter((line) => line.startsWith("INS*")).length, 2);
+    assert.ok(lines.includes("NM1*IL*1*JONES*****34*223456789"));
+    assert.equal(files[0].recordCount, 3);
+  });
+
+  it("leaves HD05 out when the coverage has no level code", () => {
+    const { files } = createEdi834Exporter(options).export(
+      [memberRow({ "Hlth Ins Cvrage": "10" })],
+      context
+    );
+    assert.ok(segments(files[0].content).includes("HD*030**HLT*HLTH"));
+  });
+
+  it("stops on rows the carrier would reject", () => {
+    const exporter = createEdi834Exporter(options);
+    const fails = (row: CSVRow, message: string) =>
+      assert.throws(
+        () => exporter.export([memberRow(), row], context),
+        (error: unknown) =>
+          error instanceof ExportError &&
+          error.rowIndex === 1 &&
+          error.message === `Row 2: ${message}`
+      );
+    fails(memberRow({ SSN: "12345" }), 'SSN "12345" must have 9 digits');
+    fails(
+      memberRow({ SSN: "223456789", "Last Name": "" }),
+      'Last name is required for the 834; the file needs a "Last Name" column'
+    );
+    fails(
+      memberRow({ "Start Date": "" }),
+      'Start Date "" is required for the 834'
+    );
+    fails(
+      memberRow({ "Hlth Ins Plan": "LIFE" }),
+      'Plan "LIFE" has no 834 insurance line code'
+    );
+  });
+
+  it("needs a policy number and a valid control number", () => {
+    assert.throws(
+      () =>
+        createEdi834Exporter({
+          ...options,
+          sponsorTaxId: "",
+          policyNumbers: {},
+        }).export([memberRow()], context),
+      /Enter the sponsor tax ID or a policy number for AETN/
+    );
+    assert.throws(
+      () =>
+        createEdi834Exporter({ ...options, controlNumber: 0 }).export(
+          [memberRow()],
+          context
+        ),
+      /Control number 0 must be a whole number/
+    );
+  });
+});
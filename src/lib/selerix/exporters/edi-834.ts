@@ -0,0 +1,326 @@
+import {
+  exportFileName,
+  readOutput,
+  splitByCarrier,
+  toCompactDate,
+  type IndexedRow,
+} from "./rows";
+import {
+  ExportError,
+  type CarrierExporter,
+  type ExportContext,
+  type ExportFile,
+  type ExportResult,
+} from "./types";
+
+// Settings for the ANSI X12 834 (005010X220A1) benefit enrollment file
+export type Edi834Options = {
+  senderId: string; // ISA06/GS02: the sponsor's interchange ID
+  sponsorName: string; // N1*P5
+  sponsorTaxId: string; // N1*P5 identification (FEIN)
+  receiverIds: Record<string, string>; // ISA08/GS03 per carrier code; defaults to the carrier code
+  carrierNames: Record<string, string>; // N1*IN name per carrier code; defaults to the carrier code
+  carrierTaxIds: Record<string, string>; // N1*IN identification (FEIN) per carrier code
+  policyNumbers: Record<string, string>; // REF*38 master policy number per carrier code; defaults to the sponsor tax ID
+  insuranceLines: Record<string, string>; // HD03 insurance line code per plan, e.g. DENT → DEN
+  coverageLevels: Record<string, string>; // HD05 coverage level code per coverage code, e.g. 1 → EMP; HD05 is left out when unset
+  nameColumns: { last: string; first: string }; // Headers holding the member's name, when the file has them
+  usageIndicator: "P" | "T"; // ISA15: production or test
+  controlNumber: number; // First interchange control number; each carrier file uses the next one
+};
+
+// The control number to start the next run from, so no two interchanges repeat one
+export const nextControlNumber = (
+  options: Pick<Edi834Options, "controlNumber">,
+  result: ExportResult
+): number => {
+  const next = options.controlNumber + result.files.length;
+  return next > MAX_CONTROL_NUMBER ? 1 : next;
+};
+
+export const DEFAULT_EDI_834_OPTIONS: Edi834Options = {
+  senderId: "SENDER",
+  sponsorName: "",
+  sponsorTaxId: "",
+  receiverIds: {},
+  carrierNames: {
+    AETN: "AETNA",
+    AMER: "AMERITAS",
+    STAN: "STANDARD INSURANCE",
+  },
+  carrierTaxIds: {},
+  policyNumbers: {},
+  insuranceLines: {
+    HLTH: "HLT",
+    "H-CD": "HLT",
+    DENT: "DEN",
+    VISS: "VIS",
+  },
+  // Starting tiers for the common coverage codes; edit them in the 834 settings to match the carrier's
+  coverageLevels: {
+    "1": "EMP",
+    "2": "ESP",
+    "3": "ECH",
+    "4": "FAM",
+  },
+  nameColumns: { last: "Last Name", first: "First Name" },
+  usageIndicator: "P",
+  controlNumber: 1,
+};
+
+const SEGMENT_TERMINATOR = "~";
+const ELEMENT_SEPARATOR = "*";
+const COMPONENT_SEPARATOR = ":";
+const REPETITION_SEPARATOR = "^";
+const IMPLEMENTATION = "005010X220A1";
+const MAX_CONTROL_NUMBER = 999999999; // ISA13 is nine digits
+
+// Removes delimiter characters so free text cannot break the segment structure
+const clean = (value: string): string =>
+  value.replace(/[~*:^\r\n]/g, " ").trim().toUpperCase();
+
+// Builds a segment, dropping empty trailing elements as X12 requires
+const segment = (id: string, ...elements: string[]): string => {
+  const trimmed = [...elements];
+  while (trimmed.length > 0 && trimmed[trimmed.length - 1] === "")
+    trimmed.pop();
+  return [id, ...trimmed].join(ELEMENT_SEPARATOR) + SEGMENT_TERMINATOR;
+};
+
+// ISA fields are fixed width, padded with spaces
+const isaField = (value: string, width: number): string =>
+  clean(value).slice(0, width).padEnd(width, " ");
+
+// Splits a date-time into the CCYYMMDD and HHMM forms used in headers
+const stamp = (now: Date) => {
+  const iso = now.toISOString();
+  return {
+    date: iso.slice(0, 10).replace(/-/g, ""),
+    time: iso.slice(11, 16).replace(":", ""),
+  };
+};
+
+// Groups a carrier's rows by member SSN, in order of first appearance, so each member gets one loop
+const groupByMember = (rows: IndexedRow[]): IndexedRow[][] => {
+  const members = new Map<string, IndexedRow[]>();
+  rows.forEach((indexed) => {
+    const ssn = (indexed.row.SSN ?? "").replace(/\D/g, "");
+    if (ssn.length !== 9)
+      throw new ExportError(
+        `SSN "${indexed.row.SSN ?? ""}" must have 9 digits`,
+        indexed.rowIndex
+      );
+    members.set(ssn, [...(members.get(ssn) ?? []), indexed]);
+  });
+  return [...members.values()];
+};
+
+// Builds the health coverage loop (HD, DTP) for one processed row
+const coverageSegments = (
+  { row, rowIndex }: IndexedRow,
+  options: Edi834Options,
+  context: ExportContext
+): string[] => {
+  const start = toCompactDate(row["Start Date"]);
+  if (!start)
+    throw new ExportError(
+      `Start Date "${row["Start Date"] ?? ""}" is required for the 834`,
+      rowIndex
+    );
+  const end = toCompactDate(row["End Date"]);
+
+  const plan = readOutput(row, context.outputColumns, "plan");
+  const insuranceLine = options.insuranceLines[plan];
+  if (!insuranceLine)
+    throw new ExportError(
+      `Plan "${plan}" has no 834 insurance line code`,
+      rowIndex
+    );
+  const coverage = readOutput(row, context.outputColumns, "coverage");
+  const coverageLevel = options.coverageLevels[coverage] ?? "";
+
+  return [
+    segment("HD", "030", "", insuranceLine, clean(plan), coverageLevel),
+    segment("DTP", "348", "D8", start),
+    ...(end ? [segment("DTP", "349", "D8", end)] : []),
+  ];
+};
+
+// Builds the member loop (INS, REF, DTP, NM1) for one member, followed by one HD/DTP set per coverage row
+// The file is sent as a full-population audit, so each member uses maintenance type 030
+const memberSegments = (
+  rows: IndexedRow[],
+  options: Edi834Options,
+  context: ExportContext
+): string[] => {
+  const { row, rowIndex } = rows[0];
+  const ssn = (row.SSN ?? "").replace(/\D/g, "");
+  const lastName = clean(row[options.nameColumns.last] ?? "");
+  if (!lastName)
+    throw new ExportError(
+      `Last name is required for the 834; the file needs a "${options.nameColumns.last}" column`,
+      rowIndex
+    );
+  const coverages = rows.flatMap((indexed) =>
+    coverageSegments(indexed, options, context)
+  );
+  // Eligibility begins with the member's earliest coverage
+  const eligibilityStart = rows
+    .map((indexed) => toCompactDate(indexed.row["Start Date"]))
+    .sort()[0];
+
+  return [
+    segment("INS", "Y", "18", "030", "XN", "A", "", "", "FT"),
+    segment("REF", "0F", ssn),
+    segment("DTP", "356", "D8", eligibilityStart),
+    segment(
+      "NM1",
+      "IL",
+      "1",
+      lastName,
+      clean(row[options.nameColumns.first] ?? ""),
+      "",
+      "",
+      "",
+      "34",
+      ssn
+    ),
+    ...coverages,
+  ];
+};
+
+// Builds a complete 834 interchange for one carrier's rows
+export const buildEdi834 = (
+  carrier: string,
+  rows: IndexedRow[],
+  options: Edi834Options,
+  context: ExportContext,
+  controlNumber: number
+): string => {
+  const now = context.now ?? new Date();
+  const { date, time } = stamp(now);
+  const receiverId = options.receiverIds[carrier] ?? carrier;
+  if (
+    !Number.isInteger(controlNumber) ||
+    controlNumber < 1 ||
+    controlNumber > MAX_CONTROL_NUMBER
+  )
+    throw new ExportError(
+      `Control number ${controlNumber} must be a whole number from 1 to ${MAX_CONTROL_NUMBER}`,
+      null
+    );
+  const control = String(controlNumber).padStart(9, "0");
+  const transactionControl = "0001";
+  const policyNumber = options.policyNumbers[carrier] ?? options.sponsorTaxId;
+  if (!policyNumber)
+    throw new ExportError(
+      `Enter the sponsor tax ID or a policy number for ${carrier}`,
+      null
+    );
+
+  const transaction = [
+    segment("ST", "834", transactionControl, IMPLEMENTATION),
+    segment(
+      "BGN",
+      "00",
+      `${clean(carrier)}${date}${time}`,
+      date,
+      time,
+      "",
+      "",
+      "",
+      "4"
+    ),
+    segment("REF", "38", clean(policyNumber)),
+    segment(
+      "N1",
+      "P5",
+      clean(options.sponsorName || options.senderId),
+      ...(options.sponsorTaxId ? ["FI", clean(options.sponsorTaxId)] : [])
+    ),
+    segment(
+      "N1",
+      "IN",
+      clean(options.carrierNames[carrier] ?? carrier),
+      ...(options.carrierTaxIds[carrier]
+        ? ["FI", clean(options.carrierTaxIds[carrier])]
+        : [])
+    ),
+    ...groupByMember(rows).flatMap((member) =>
+      memberSegments(member, options, context)
+    ),
+  ];
+  // SE01 counts every segment from ST to SE inclusive
+  transaction.push(
+    segment("SE", String(transaction.length + 1), transactionControl)
+  );
+
+  return [
+    [
+      "ISA",
+      "00",
+      isaField("", 10),
+      "00",
+      isaField("", 10),
+      "ZZ",
+      isaField(options.senderId, 15),
+      "ZZ",
+      isaField(receiverId, 15),
+      date.slice(2),
+      time,
+      REPETITION_SEPARATOR,
+      "00501",
+      control,
+      "0",
+      options.usageIndicator,
+      COMPONENT_SEPARATOR,
+    ].join(ELEMENT_SEPARATOR) + SEGMENT_TERMINATOR,
+    segment(
+      "GS",
+      "BE",
+      clean(options.senderId),
+      clean(receiverId),
+      date,
+      time,
+      String(controlNumber),
+      "X",
+      IMPLEMENTATION
+    ),
+    ...transaction,
+    segment("GE", "1", String(controlNumber)),
+    segment("IEA", "1", control),
+  ].join("\n");
+};
+
+// Exporter writing one 834 interchange per carrier, with one member loop per SSN
+// Rows whose plan has no insurance line code stop the export, since the carrier would reject the file
+export const createEdi834Exporter = (
+  options: Edi834Options = DEFAULT_EDI_834_OPTIONS
+): CarrierExporter => ({
+  id: "edi-834",
+  label: "ANSI X12 834 enrollment",
+  export(rows, context) {
+    const now = context.now ?? new Date();
+    const { groups, unassignedRows } = splitByCarrier(
+      rows,
+      context.outputColumns
+    );
+    const files: ExportFile[] = [];
+    [...groups.entries()].forEach(([carrier, carrierRows], index) => {
+      files.push({
+        carrier,
+        fileName: exportFileName(carrier, "834", now, "edi"),
+        content: buildEdi834(
+          carrier,
+          carrierRows,
+          options,
+          { ...context, now },
+          options.controlNumber + index
+        ),
+        mimeType: "application/edi-x12",
+        recordCount: carrierRows.length,
+      });
+    });
+    return { files, skippedCarriers: [], unassignedRows };
+  },
+});
@@ -0,0 +1,159 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { DEFAULT_OUTPUT_COLUMNS } from "../default-rules";
+import { makeRow } from "../fixtures";
+import type { CSVRow } from "../types";
+import {
+  createFixedWidthExporter,
+  formatFixedWidthRecord,
+  layoutWidth,
+  validateFixedWidthLayout,
+  type FixedWidthLayout,
+} from "./fixed-width";
+import { ExportError } from "./types";
+
+const context = {
+  outputColumns: DEFAULT_OUTPUT_COLUMNS,
+  now: new Date("2026-01-15T12:00:00Z"),
+};
+
+const layout: FixedWidthLayout = {
+  carrier: "AETN",
+  name: "Aetna enrollment",
+  fields: [
+    { name: "Record Type", width: 2, source: { constant: "E1" } },
+    { name: "SSN", width: 9, source: { column: "SSN" }, format: "digits" },
+    { name: "Plan", width: 6, source: { output: "plan" } },
+    {
+      name: "Effective Date",
+      width: 8,
+      source: { column: "Start Date" },
+      format: "date",
+    },
+    {
+      name: "Premium",
+      width: 7,
+      source: { column: "Empe Amt/Pct" },
+      format: "amount",
+    },
+    { name: "Name", width: 5, source: { column: "Last Name" } },
+  ],
+};
+
+// An Aetna member's row with the columns the layout reads
+const memberRow = (values: Record<string, string> = {}): CSVRow =>
+  makeRow({
+    "Start Date": "01/01/2026",
+    "Empe Amt/Pct": "30.5",
+    "Last Name": "Robertson",
+    "Hlth Ins Carrie": "AETN",
+    "Hlth Ins Plan": "HLTH",
+    ...values,
+  });
+
+describe("formatFixedWidthRecord", () => {
+  it("formats, pads and aligns every field to its width", () => {
+    const record = formatFixedWidthRecord(memberRow(), 0, layout, context);
+    assert.equal(record, "E1123456789HLTH  202601010003050Rober");
+    assert.equal(record.length, layoutWidth(layout));
+  });
+
+  it("honours explicit alignment and padding", () => {
+    const record = formatFixedWidthRecord(
+      memberRow(),
+      0,
+      {
+        ...layout,
+        fields: [
+          {
+            name: "Plan",
+            width: 6,
+            source: { output: "plan" },
+            align: "right",
+            pad: "*",
+          },
+        ],
+      },
+      context
+    );
+    assert.equal(record, "**HLTH");
+  });
+
+  it("rejects values that cannot be written without losing data", () => {
+    assert.throws(
+      () =>
+        formatFixedWidthRecord(
+          memberRow({ "Start Date": "soon" }),
+          2,
+          layout,
+          context
+        ),
+      (error: unknown) =>
+        error instanceof ExportError &&
+        error.rowIndex === 2 &&
+        error.message === 'Row 3: Effective Date "soon" is not a date'
+    );
+    assert.throws(
+      () =>
+        formatFixedWidthRecord(
+          memberRow({ "Empe Amt/Pct": "123456" }),
+          0,
+          layout,
+          context
+        ),
+      /does not fit in 7 characters/
+    );
+  });
+});
+
+describe("validateFixedWidthLayout", () => {
+  it("lists the problems that stop a layout being used", () => {
+    assert.deepEqual(validateFixedWidthLayout(layout), []);
+    assert.deepEqual(
+      validateFixedWidthLayout({
+        carrier: "",
+        name: "",
+        fields: [
+          { name: "", width: 0, source: { column: "" } },
+          { name: "Filler", width: 2, source: { constant: "" }, pad: "ab" },
+        ],
+      }),
+      [
+        "Carrier code is required",
+        "Field 1: width must be a whole number of at least 1",
+        "Field 1: choose the column to read",
+        "Filler: padding must be a single character",
+      ]
+    );
+  });
+});
+
+describe("createFixedWidthExporter", () => {
+  it("writes one file per carrier with a layout and reports the rest", () => {
+    const rows = [
+      memberRow(),
+      memberRow({ "Hlth Ins Carrie": "STAN" }),
+      memberRow({ "Hlth Ins Carrie": "" }),
+      memberRow({ SSN: "223456789" }),
+    ];
+    const result = createFixedWidthExporter([layout]).export(rows, context);
+    assert.equal(result.files.length, 1);
+    const [file] = result.files;
+    assert.equal(file.fileName, "AETN_enrollment_20260115.txt");
+    assert.equal(file.recordCount, 2);
+    assert.deepEqual(
+      file.content.split("\r\n").map((line) => line.slice(2, 11)),
+      ["123456789", "223456789", ""]
+    );
+    assert.deepEqual(result.skippedCarriers, ["STAN"]);
+    assert.equal(result.unassignedRows, 1);
+  });
+
+  it("refuses to export with an unusable layout", () => {
+    const broken = { ...layout, fields: [] };
+    assert.throws(
+      () => createFixedWidthExporter([broken]).export([memberRow()], context),
+      /Add at least one field/
+    );
+  });
+});
@@ -0,0 +1,199 @@
+import type { CSVRow } from "../types";
+import {
+  exportFileName,
+  readOutput,
+  splitByCarrier,
+  toCompactDate,
+} from "./rows";
+import {
+  ExportError,
+  type CarrierExporter,
+  type ExportContext,
+  type ExportFile,
+} from "./types";
+
+// Where a field's value comes from: a processed column, an output column by key, or a fixed value
+export type FieldSource =
+  | { column: string }
+  | { output: string }
+  | { constant: string };
+
+// How a value is written before padding
+// text: as is, cut to the field width
+// digits: only the digits (e.g. an SSN without dashes); too long is an error
+// date: CCYYMMDD; an unreadable date is an error
+// amount: whole cents with no decimal point (30.5 → 3050); too long is an error
+export type FieldFormat = "text" | "digits" | "date" | "amount";
+
+export type FixedWidthField = {
+  name: string; // Name in the carrier's layout spec, for error messages
+  width: number;
+  source: FieldSource;
+  format?: FieldFormat; // Defaults to "text"
+  align?: "left" | "right"; // Defaults to left for text, right for the others
+  pad?: string; // Defaults to a space for text, "0" for digits and amounts
+};
+
+// A carrier's fixed-width record layout
+export type FixedWidthLayout = {
+  carrier: string; // Carrier code the layout applies to, as populated by the rules
+  name: string;
+  fields: FixedWidthField[];
+  lineEnding?: string; // Defaults to CRLF
+};
+
+// Reads a field's raw value from a row
+const readSource = (
+  row: CSVRow,
+  source: FieldSource,
+  context: ExportContext
+): string => {
+  if ("constant" in source) return source.constant;
+  if ("output" in source)
+    return readOutput(row, context.outputColumns, source.output);
+  return (row[source.column] ?? "").trim();
+};
+
+// Formats one field to exactly its width
+const formatField = (
+  field: FixedWidthField,
+  row: CSVRow,
+  rowIndex: number,
+  context: ExportContext
+): string => {
+  const format = field.format ?? "text";
+  const raw = readSource(row, field.source, context);
+  let value = raw;
+  switch (format) {
+    case "digits":
+      value = raw.replace(/\D/g, "");
+      break;
+    case "date":
+      value = toCompactDate(raw);
+      if (raw && !value)
+        throw new ExportError(
+          `${field.name} "${raw}" is not a date`,
+          rowIndex
+        );
+      break;
+    case "amount": {
+      const amount = raw === "" ? 0 : Number(raw);
+      if (isNaN(amount))
+        throw new ExportError(
+          `${field.name} "${raw}" is not a number`,
+          rowIndex
+        );
+      value = String(Math.round(Math.abs(amount) * 100));
+      break;
+    }
+  }
+
+  if (value.length > field.width) {
+    if (format !== "text")
+      throw new ExportError(
+        `${field.name} "${raw}" does not fit in ${field.width} characters`,
+        rowIndex
+      );
+    value = value.slice(0, field.width);
+  }
+  const pad = field.pad ?? (format === "text" || format === "date" ? " " : "0");
+  const align = field.align ?? (format === "text" ? "left" : "right");
+  return align === "left"
+    ? value.padEnd(field.width, pad)
+    : value.padStart(field.width, pad);
+};
+
+// Formats one row as a fixed-width record
+export const formatFixedWidthRecord = (
+  row: CSVRow,
+  rowIndex: number,
+  layout: FixedWidthLayout,
+  context: ExportContext
+): string =>
+  layout.fields
+    .map((field) => formatField(field, row, rowIndex, context))
+    .join("");
+
+// Lists what is wrong with a layout, e.g. a field without a width; empty when it can be used
+export const validateFixedWidthLayout = (layout: FixedWidthLayout): string[] => {
+  const errors: string[] = [];
+  if (!layout.carrier.trim()) errors.push("Carrier code is required");
+  if (layout.fields.length === 0) errors.push("Add at least one field");
+  layout.fields.forEach((field, index) => {
+    const name = field.name.trim() || `Field ${index + 1}`;
+    if (!Number.isInteger(field.width) || field.width < 1)
+      errors.push(`${name}: width must be a whole number of at least 1`);
+    if ("column" in field.source && !field.source.column.trim())
+      errors.push(`${name}: choose the column to read`);
+    if ("output" in field.source && !field.source.output.trim())
+      errors.push(`${name}: choose the output column to read`);
+    if (field.pad !== undefined && field.pad.length !== 1)
+      errors.push(`${name}: padding must be a single character`);
+  });
+  return errors;
+};
+
+// Total record length of a layout
+export const layoutWidth = (layout: FixedWidthLayout): number =>
+  layout.fields.reduce((sum, field) => sum + field.width, 0);
+
+// Exporter writing one fixed-width file per carrier that has a layout
+export const createFixedWidthExporter = (
+  layouts: FixedWidthLayout[]
+): CarrierExporter => ({
+  id: "fixed-width",
+  label: "Fixed-width (per carrier layout)",
+  export(rows, context) {
+    const now = context.now ?? new Date();
+    const { groups, unassignedRows } = splitByCarrier(
+      rows,
+      context.outputColumns
+    );
+    const files: ExportFile[] = [];
+    const skippedCarriers: string[] = [];
+    groups.forEach((carrierRows, carrier) => {
+      const layout = layouts.find((l) => l.carrier === carrier);
+      if (!layout) {
+        skippedCarriers.push(carrier);
+        return;
+      }
+      const errors = validateFixedWidthLayout(layout);
+      if (errors.length > 0)
+        throw new ExportError(
+          `Layout "${layout.name}": ${errors.join("; ")}`,
+          null
+        );
+      const lineEnding = layout.lineEnding ?? "\r\n";
+      files.push({
+        carrier,
+        fileName: exportFileName(carrier, "enrollment", now, "txt"),
+        content: carrierRows
+          .map(
+            ({ row, rowIndex }) =>
+              formatFixedWidthRecord(row, rowIndex, layout, context) +
+              lineEnding
+          )
+          .join(""),
+        mimeType: "text/plain",
+        recordCount: carrierRows.length,
+      });
+    });
+    return { files, skippedCarriers, unassignedRows };
+  },
+});
+
+// Starts a layout for a carrier with the member fields most carrier specs open with
+// The widths are placeholders: set them, and add the remaining fields, from the carrier's file spec
+export const createFixedWidthLayout = (carrier: string): FixedWidthLayout => ({
+  carrier,
+  name: carrier,
+  fields: [
+    { name: "SSN", width: 9, source: { column: "SSN" }, format: "digits" },
+    {
+      name: "Effective Date",
+      width: 8,
+      source: { column: "Start Date" },
+      format: "date",
+    },
+  ],
+});
@@ -0,0 +1,15 @@
+// Carrier outbound file generators; each splits the processed rows into one file per carrier
+import { createEdi834Exporter } from "./edi-834";
+import { createFixedWidthExporter } from "./fixed-width";
+import type { CarrierExporter } from "./types";
+
+export * from "./types";
+export * from "./rows";
+export * from "./fixed-width";
+export * from "./edi-834";
+
+// Exporters available with their default settings; fixed-width layouts are configured per deployment
+export const DEFAULT_EXPORTERS: CarrierExporter[] = [
+  createFixedWidthExporter([]),
+  createEdi834Exporter(),
+];
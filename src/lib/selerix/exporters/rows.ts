@@ -0,0 +1,53 @@
+import { parseDate, toISODate } from "../dates";
+import type { CSVRow, OutputColumn } from "../types";
+
+// A processed row with its position in the processed data, for error messages
+export type IndexedRow = { row: CSVRow; rowIndex: number };
+
+// Reads an output column value (carrier, plan, coverage, ...) by column key
+export const readOutput = (
+  row: CSVRow,
+  outputColumns: OutputColumn[],
+  key: string
+): string => {
+  const column = outputColumns.find((c) => c.key === key);
+  return column ? (row[column.header] ?? "").trim() : "";
+};
+
+// Groups rows by carrier code, in order of first appearance
+// Rows with no carrier (usually rows no rule matched) are counted separately rather than exported
+export const splitByCarrier = (
+  rows: CSVRow[],
+  outputColumns: OutputColumn[],
+  carrierKey = "carrier"
+): { groups: Map<string, IndexedRow[]>; unassignedRows: number } => {
+  const groups = new Map<string, IndexedRow[]>();
+  let unassignedRows = 0;
+  rows.forEach((row, rowIndex) => {
+    const carrier = readOutput(row, outputColumns, carrierKey);
+    if (!carrier) {
+      unassignedRows++;
+      return;
+    }
+    groups.set(carrier, [...(groups.get(carrier) ?? []), { row, rowIndex }]);
+  });
+  return { groups, unassignedRows };
+};
+
+// Formats a date cell as CCYYMMDD, or "" when it is blank or unreadable
+export const toCompactDate = (value: string | undefined): string => {
+  const date = parseDate(value);
+  return date ? toISODate(date).replace(/-/g, "") : "";
+};
+
+// Builds an outbound file name such as "AETN_834_20260115.txt"
+export const exportFileName = (
+  carrier: string,
+  kind: string,
+  now: Date,
+  extension: string
+): string =>
+  `${carrier.replace(/[^\w-]/g, "_")}_${kind}_${toISODate(now).replace(
+    /-/g,
+    ""
+  )}.${extension}`;
@@ -0,0 +1,41 @@
+import type { CSVRow, OutputColumn } from "../types";
+
+// What an exporter needs besides the rows: which output columns hold the carrier, plan and coverage values
+export type ExportContext = {
+  outputColumns: OutputColumn[];
+  now?: Date; // Creation time stamped into headers; defaults to the current time
+};
+
+// One generated outbound file
+export type ExportFile = {
+  carrier: string;
+  fileName: string;
+  content: string;
+  mimeType: string;
+  recordCount: number;
+};
+
+export type ExportResult = {
+  files: ExportFile[];
+  skippedCarriers: string[]; // Carriers in the data the exporter has no format for
+  unassignedRows: number; // Rows without a carrier, e.g. rows no rule matched
+};
+
+// Anything that turns processed rows into carrier outbound files (fixed-width layouts, EDI 834, ...)
+// Rows are in canonical form (SSN, Deduction, Start Date, End Date and the output column headers)
+export interface CarrierExporter {
+  id: string;
+  label: string;
+  export(rows: CSVRow[], context: ExportContext): ExportResult;
+}
+
+// Thrown when a row, or the exporter's settings, cannot be written in the carrier's format
+export class ExportError extends Error {
+  constructor(
+    message: string,
+    public readonly rowIndex: number | null // Position of the row in the processed data, null for settings problems
+  ) {
+    super(rowIndex === null ? message : `Row ${rowIndex + 1}: ${message}`);
+    this.name = "ExportError";
+  }
+}
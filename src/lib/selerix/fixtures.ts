@@ -0,0 +1,33 @@
+import type { CSVRow, Rule } from "./types";
+
+// Row and rule builders shared by the unit tests
+
+// A Selerix export row for deduction 2400 at 30.00, with blank dates and output columns
+// Values given are added to, or replace, the defaults
+export const makeRow = (values: Record<string, string> = {}): CSVRow => ({
+  SSN: "123-45-6789",
+  "Empe Amt/Pct": "30",
+  "Empe Amt/Pct Montly": "",
+  "Start Date": "",
+  Deduction: "2400",
+  "End Date": "",
+  "Hlth Ins Carrie": "",
+  "Hlth Ins Cvrage": "",
+  "Hlth Ins Level": "",
+  "Hlth Ins Plan": "",
+  "Action Flag": "",
+  EmployeeIdent: "",
+  ...values,
+});
+
+// A rule for deduction 2400 populating the four default output columns with the given carrier
+export const makeRule = (
+  empAmount: string,
+  carrier = "AETN",
+  extra: Partial<Rule> = {}
+): Rule => ({
+  deduction: "2400",
+  empAmount,
+  outputs: { carrier, coverage: "1", level: "1", plan: "HLTH" },
+  ...extra,
+});
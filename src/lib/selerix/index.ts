@@ -0,0 +1,24 @@
+// Headless Selerix processing engine: parse → match → serialize
+// Has no UI or browser dependencies so it can run in the component, API routes and scripts
+export * from "./types";
+export * from "./rules";
+export * from "./lookups";
+export * from "./amounts";
+export * from "./dates";
+export * from "./default-rules";
+export * from "./csv";
+export * from "./engine";
+export * from "./analysis";
+export * from "./suggestions";
+export * from "./exceptions";
+export * from "./changes";
+export * from "./rule-sets";
+export * from "./rule-diff";
+export * from "./schema";
+export * from "./rate-sheets";
+export * from "./validation";
+export * from "./overrides";
+export * from "./summary";
+export * from "./pipeline";
+export * from "./workbook";
+export * from "./exporters";
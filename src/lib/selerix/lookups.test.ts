@@ -0,0 +1,109 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { DEFAULT_CODE_LOOKUP } from "./default-rules";
+import { makeRule } from "./fixtures";
+import {
+  buildCodeLookup,
+  describeCode,
+  EMPTY_CODE_LOOKUP,
+  validateRuleCodes,
+} from "./lookups";
+
+describe("validateRuleCodes", () => {
+  it("accepts codes the lookup lists together", () => {
+    assert.deepEqual(
+      validateRuleCodes(
+        { carrier: "AETN", plan: "H-CD", coverage: "91" },
+        DEFAULT_CODE_LOOKUP
+      ),
+      []
+    );
+  });
+
+  it("names unknown codes and combinations the lookup does not allow", () => {
+    assert.deepEqual(
+      validateRuleCodes(
+        { carrier: "UHC", plan: "LIFE", coverage: "99" },
+        DEFAULT_CODE_LOOKUP
+      ),
+      ['Unknown carrier "UHC"', 'Unknown plan "LIFE"', 'Unknown coverage "99"']
+    );
+    assert.deepEqual(
+      validateRuleCodes(
+        { carrier: "AMER", plan: "HLTH", coverage: "5" },
+        DEFAULT_CODE_LOOKUP
+      ),
+      [
+        'Plan "HLTH" is not offered by carrier "AMER"',
+        'Coverage "5" is not valid for plan "HLTH"',
+      ]
+    );
+  });
+
+  it("leaves blanks and empty lookups alone", () => {
+    assert.deepEqual(
+      validateRuleCodes({ carrier: " ", plan: "" }, DEFAULT_CODE_LOOKUP),
+      []
+    );
+    assert.deepEqual(
+      validateRuleCodes(
+        { carrier: "UHC", plan: "LIFE", coverage: "99" },
+        EMPTY_CODE_LOOKUP
+      ),
+      []
+    );
+  });
+});
+
+describe("buildCodeLookup", () => {
+  it("collects each code the rules use, described from the known lookup", () => {
+    const lookup = buildCodeLookup([
+      makeRule("30", "AETN", {
+        outputs: { carrier: "AETN", plan: "HLTH", coverage: "2" },
+      }),
+      makeRule("40", "AETN", {
+        outputs: { carrier: "AETN", plan: "H-CD", coverage: "2" },
+      }),
+      makeRule("50", "UHC", {
+        outputs: { carrier: "UHC", plan: "HMO", coverage: "" },
+      }),
+    ]);
+    assert.deepEqual(lookup, {
+      carriers: [
+        { code: "AETN", description: "Aetna" },
+        { code: "UHC", description: "" },
+      ],
+      plans: [
+        { code: "HLTH", description: "Medical", carrier: "AETN" },
+        {
+          code: "H-CD",
+          description: "Medical (consumer driven)",
+          carrier: "AETN",
+        },
+        { code: "HMO", description: "", carrier: "UHC" },
+      ],
+      coverages: [
+        {
+          code: "2",
+          description: "Employee + Spouse",
+          plans: ["HLTH", "H-CD"],
+        },
+      ],
+    });
+    // Rules built from their own lookup pass its validation
+    assert.deepEqual(
+      validateRuleCodes({ carrier: "UHC", plan: "HMO" }, lookup),
+      []
+    );
+  });
+});
+
+describe("describeCode", () => {
+  it("describes a coverage code for the given plan", () => {
+    assert.equal(
+      describeCode(DEFAULT_CODE_LOOKUP, "coverage", "7", "DENT"),
+      "Family"
+    );
+    assert.equal(describeCode(DEFAULT_CODE_LOOKUP, "level", "1"), undefined);
+  });
+});
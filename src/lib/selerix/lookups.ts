@@ -0,0 +1,165 @@
+import { DEFAULT_CODE_LOOKUP } from "./default-rules";
+import type {
+  CodeLookup,
+  CoverageCode,
+  LookupCode,
+  PlanCode,
+  Rule,
+} from "./types";
+
+// Output column keys the lookup applies to
+export const LOOKUP_OUTPUT_KEYS = ["carrier", "plan", "coverage"] as const;
+export type LookupOutputKey = (typeof LOOKUP_OUTPUT_KEYS)[number];
+
+// A lookup that allows any code
+export const EMPTY_CODE_LOOKUP: CodeLookup = {
+  carriers: [],
+  plans: [],
+  coverages: [],
+};
+
+// Checks whether an output column is governed by the lookup
+export const isLookupKey = (key: string): key is LookupOutputKey =>
+  (LOOKUP_OUTPUT_KEYS as readonly string[]).includes(key);
+
+// The codes of one kind, e.g. every plan code
+export const lookupEntries = (
+  lookup: CodeLookup,
+  key: LookupOutputKey
+): LookupCode[] =>
+  key === "carrier"
+    ? lookup.carriers
+    : key === "plan"
+    ? lookup.plans
+    : lookup.coverages;
+
+// Finds the description of a code, e.g. "Employee + Spouse" for coverage "2"
+// A coverage code shared by several plans is described for the given plan when there is one
+export const describeCode = (
+  lookup: CodeLookup,
+  key: string,
+  code: string,
+  plan?: string
+): string | undefined => {
+  if (!isLookupKey(key) || !code) return undefined;
+  if (key === "coverage") {
+    const matches = lookup.coverages.filter((c) => c.code === code);
+    return (
+      matches.find((c) => plan !== undefined && c.plans.includes(plan)) ??
+      matches[0]
+    )?.description;
+  }
+  return lookupEntries(lookup, key).find((entry) => entry.code === code)
+    ?.description;
+};
+
+// Plans offered by a carrier, or every plan when no carrier is chosen
+export const plansForCarrier = (
+  lookup: CodeLookup,
+  carrier: string
+): PlanCode[] =>
+  carrier
+    ? lookup.plans.filter((plan) => plan.carrier === carrier)
+    : lookup.plans;
+
+// Coverage tiers valid for a plan, or every tier when no plan is chosen
+export const coveragesForPlan = (
+  lookup: CodeLookup,
+  plan: string
+): CoverageCode[] =>
+  plan
+    ? lookup.coverages.filter((coverage) => coverage.plans.includes(plan))
+    : lookup.coverages;
+
+// Checks a rule's carrier, plan and coverage against the lookup
+// Blank values are left to the required-column check, and an empty list allows any code
+export const validateRuleCodes = (
+  outputs: Record<string, string>,
+  lookup: CodeLookup
+): string[] => {
+  const errors: string[] = [];
+  const carrier = outputs.carrier?.trim() ?? "";
+  const plan = outputs.plan?.trim() ?? "";
+  const coverage = outputs.coverage?.trim() ?? "";
+
+  if (
+    carrier &&
+    lookup.carriers.length > 0 &&
+    !lookup.carriers.some((c) => c.code === carrier)
+  ) {
+    errors.push(`Unknown carrier "${carrier}"`);
+  }
+
+  if (plan && lookup.plans.length > 0) {
+    const entries = lookup.plans.filter((p) => p.code === plan);
+    if (entries.length === 0) {
+      errors.push(`Unknown plan "${plan}"`);
+    } else if (carrier && !entries.some((p) => p.carrier === carrier)) {
+      errors.push(`Plan "${plan}" is not offered by carrier "${carrier}"`);
+    }
+  }
+
+  if (coverage && lookup.coverages.length > 0) {
+    const entries = lookup.coverages.filter((c) => c.code === coverage);
+    if (entries.length === 0) {
+      errors.push(`Unknown coverage "${coverage}"`);
+    } else if (plan && !entries.some((c) => c.plans.includes(plan))) {
+      errors.push(`Coverage "${coverage}" is not valid for plan "${plan}"`);
+    }
+  }
+  return errors;
+};
+
+// Builds a lookup covering every carrier, plan and coverage combination the rules use
+// Descriptions are taken from the known lookup where it has the code, so rule sets saved
+// before lookups existed keep processing
+export const buildCodeLookup = (
+  rules: Rule[],
+  known: CodeLookup = DEFAULT_CODE_LOOKUP
+): CodeLookup => {
+  const lookup: CodeLookup = { carriers: [], plans: [], coverages: [] };
+  rules.forEach(({ outputs }) => {
+    const carrier = outputs.carrier?.trim() ?? "";
+    const plan = outputs.plan?.trim() ?? "";
+    const coverage = outputs.coverage?.trim() ?? "";
+    if (carrier && !lookup.carriers.some((c) => c.code === carrier)) {
+      lookup.carriers.push({
+        code: carrier,
+        description: describeCode(known, "carrier", carrier) ?? "",
+      });
+    }
+    if (
+      plan &&
+      !lookup.plans.some((p) => p.code === plan && p.carrier === carrier)
+    ) {
+      lookup.plans.push({
+        code: plan,
+        description: describeCode(known, "plan", plan) ?? "",
+        carrier,
+      });
+    }
+    if (coverage) {
+      const entry = lookup.coverages.find((c) => c.code === coverage);
+      if (!entry) {
+        lookup.coverages.push({
+          code: coverage,
+          description: describeCode(known, "coverage", coverage, plan) ?? "",
+          plans: plan ? [plan] : [],
+        });
+      } else if (plan && !entry.plans.includes(plan)) {
+        entry.plans.push(plan);
+      }
+    }
+  });
+  return lookup;
+};
+
+// Copies a lookup so edits to the copy leave the original alone
+export const copyCodeLookup = (lookup: CodeLookup): CodeLookup => ({
+  carriers: lookup.carriers.map((carrier) => ({ ...carrier })),
+  plans: lookup.plans.map((plan) => ({ ...plan })),
+  coverages: lookup.coverages.map((coverage) => ({
+    ...coverage,
+    plans: [...coverage.plans],
+  })),
+});
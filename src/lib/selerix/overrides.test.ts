@@ -0,0 +1,76 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { DEFAULT_OUTPUT_COLUMNS } from "./default-rules";
+import { processRows } from "./engine";
+import { makeRow, makeRule } from "./fixtures";
+import {
+  applyOverrides,
+  buildOverrideReport,
+  overrideKey,
+  setOverride,
+} from "./overrides";
+
+describe("overrideKey", () => {
+  it("ignores SSN punctuation and the start date format", () => {
+    assert.equal(
+      overrideKey(makeRow({ "Start Date": "01/15/2026" })),
+      overrideKey(makeRow({ SSN: "123 45 6789", "Start Date": "2026-01-15" }))
+    );
+    assert.equal(
+      overrideKey(makeRow({ "Start Date": "01/15/2026" })),
+      "123456789|2400|2026-01-15"
+    );
+  });
+});
+
+describe("setOverride", () => {
+  it("replaces the override for the same cell and drops it when set back to the rule value", () => {
+    const row = makeRow();
+    let overrides = setOverride([], row, "carrier", "CIGNA", "AETN");
+    overrides = setOverride(overrides, row, "carrier", "UHC", "AETN");
+    assert.deepEqual(
+      overrides.map((override) => override.value),
+      ["UHC"]
+    );
+    assert.deepEqual(setOverride(overrides, row, "carrier", "AETN", "AETN"), []);
+  });
+});
+
+describe("applyOverrides", () => {
+  it("replaces rule output on the rows with the same key and marks the column", () => {
+    const result = processRows(
+      [makeRow(), makeRow({ SSN: "987-65-4321" })],
+      [makeRule("30")]
+    );
+    const overrides = [
+      ...setOverride([], result.rows[0], "plan", "PPO", "HLTH"),
+      // Columns the rule set no longer has are left alone
+      ...setOverride([], result.rows[0], "network", "IN", ""),
+    ];
+    const applied = applyOverrides(result, overrides, DEFAULT_OUTPUT_COLUMNS);
+    assert.equal(applied.rows[0]["Hlth Ins Plan"], "PPO");
+    assert.deepEqual(applied.results[0].overridden, ["plan"]);
+    assert.equal(applied.rows[1]["Hlth Ins Plan"], "HLTH");
+    assert.equal(applied.results[1].overridden, undefined);
+    // The rule output itself is unchanged
+    assert.equal(result.rows[0]["Hlth Ins Plan"], "HLTH");
+  });
+});
+
+describe("buildOverrideReport", () => {
+  it("pairs each override with the rule value, or null when the row is not in the run", () => {
+    const result = processRows([makeRow()], [makeRule("30")]);
+    const overrides = [
+      ...setOverride([], makeRow(), "carrier", "CIGNA", "AETN"),
+      ...setOverride([], makeRow({ SSN: "000-00-0000" }), "carrier", "UHC", ""),
+    ];
+    const report = buildOverrideReport(overrides, result, DEFAULT_OUTPUT_COLUMNS);
+    assert.deepEqual(
+      report.map((row) => [row.value, row.ruleValue]),
+      [
+        ["CIGNA", "AETN"],
+        ["UHC", null],
+      ]
+    );
+  });
+});
@@ -0,0 +1,135 @@
+import { serializeCSV } from "./csv";
+import { parseDate, toISODate } from "./dates";
+import type { CSVRow, OutputColumn, ProcessResult } from "./types";
+
+// A hand-entered value for one output column of one employee's deduction, kept across processing runs
+export type Override = {
+  key: string; // SSN + Deduction + Start Date, from overrideKey
+  ssn: string;
+  deduction: string;
+  startDate: string;
+  columnKey: string; // Output column the value replaces
+  value: string;
+  updatedAt: string; // ISO timestamp
+};
+
+// An override as it stands after the latest run
+export type OverrideReportRow = Override & {
+  ruleValue: string | null; // Value the rule produced, or null when no row in the file has this key
+};
+
+// Maps output column keys to their headers
+const headersByKey = (outputColumns: OutputColumn[]) =>
+  new Map(outputColumns.map((column) => [column.key, column.header]));
+
+// Identifies the row an override belongs to: SSN + Deduction + Start Date
+// The SSN ignores dashes and spaces and the start date is normalized, so formatting differences between files do not matter
+export const overrideKey = (row: CSVRow): string => {
+  const ssn = (row.SSN ?? "").replace(/[-\s]/g, "");
+  const start = parseDate(row["Start Date"]);
+  const startDate = start
+    ? toISODate(start)
+    : (row["Start Date"] ?? "").trim();
+  return [ssn, (row.Deduction ?? "").trim(), startDate].join("|");
+};
+
+// Sets or clears the override for one cell
+// Setting a cell back to the value the rule produced removes the override
+export const setOverride = (
+  overrides: Override[],
+  row: CSVRow,
+  columnKey: string,
+  value: string,
+  ruleValue: string
+): Override[] => {
+  const key = overrideKey(row);
+  const others = overrides.filter(
+    (override) => override.key !== key || override.columnKey !== columnKey
+  );
+  if (value === ruleValue) return others;
+  return [
+    ...others,
+    {
+      key,
+      ssn: row.SSN ?? "",
+      deduction: row.Deduction ?? "",
+      startDate: row["Start Date"] ?? "",
+      columnKey,
+      value,
+      updatedAt: new Date().toISOString(),
+    },
+  ];
+};
+
+// Applies overrides on top of a processing run, marking each overridden column in the row's result
+// Overrides for columns no longer in the rule set are ignored
+export const applyOverrides = (
+  result: ProcessResult,
+  overrides: Override[],
+  outputColumns: OutputColumn[]
+): ProcessResult => {
+  if (overrides.length === 0) return result;
+  const headers = headersByKey(outputColumns);
+  const byKey = new Map<string, Override[]>();
+  overrides
+    .filter((override) => headers.has(override.columnKey))
+    .forEach((override) => {
+      byKey.set(override.key, [...(byKey.get(override.key) ?? []), override]);
+    });
+
+  const rows = [...result.rows];
+  const results = [...result.results];
+  result.rows.forEach((row, index) => {
+    const rowOverrides = byKey.get(overrideKey(row));
+    if (!rowOverrides) return;
+    const overridden = { ...row };
+    rowOverrides.forEach((override) => {
+      overridden[headers.get(override.columnKey)!] = override.value;
+    });
+    rows[index] = overridden;
+    results[index] = {
+      ...results[index],
+      overridden: rowOverrides.map((override) => override.columnKey),
+    };
+  });
+  return { ...result, rows, results };
+};
+
+// Lists every override with the value the rules produced for it in the given run
+export const buildOverrideReport = (
+  overrides: Override[],
+  ruleResult: ProcessResult | null,
+  outputColumns: OutputColumn[]
+): OverrideReportRow[] => {
+  const rowsByKey = new Map<string, CSVRow>();
+  ruleResult?.rows.forEach((row) => rowsByKey.set(overrideKey(row), row));
+  const headers = headersByKey(outputColumns);
+  return overrides.map((override) => {
+    const row = rowsByKey.get(override.key);
+    const header = headers.get(override.columnKey);
+    return {
+      ...override,
+      ruleValue: row && header ? row[header] ?? "" : null,
+    };
+  });
+};
+
+// Serializes the overrides report to CSV
+export const overridesToCSV = (
+  report: OverrideReportRow[],
+  outputColumns: OutputColumn[]
+): string => {
+  const headers = headersByKey(outputColumns);
+  return serializeCSV(
+    report.map((row) => ({
+      SSN: row.ssn,
+      Deduction: row.deduction,
+      "Start Date": row.startDate,
+      Column: headers.get(row.columnKey) ?? row.columnKey,
+      "Rule Value": row.ruleValue ?? "",
+      "Override Value": row.value,
+      "In Current File": row.ruleValue === null ? "No" : "Yes",
+      "Updated At": row.updatedAt,
+    }))
+  );
+};
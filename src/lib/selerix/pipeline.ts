@@ -0,0 +1,186 @@
+import {
+  assertRulesReady,
+  getProcessedHeaders,
+  processRow,
+  processRows,
+  resolveProcessOptions,
+} from "./engine";
+import {
+  collectExceptions,
+  describeException,
+  type ExceptionRecord,
+  type ExceptionRow,
+} from "./exceptions";
+import {
+  assertRequiredColumns,
+  canonicalizeRows,
+  createHeaderRenamer,
+  detectHeaderMapping,
+  restoreHeaders,
+} from "./schema";
+import {
+  createSummaryBuilder,
+  summarizeRun,
+  type RunSummary,
+} from "./summary";
+import type {
+  CSVRow,
+  HeaderMapping,
+  ProcessResult,
+  RuleSetContent,
+} from "./types";
+import {
+  DEFAULT_ROW_VALIDATION,
+  validateRow,
+  validateRows,
+  type RowIssue,
+  type RowValidationOptions,
+} from "./validation";
+
+export type PipelineOptions = {
+  profile?: HeaderMapping; // Saved header mapping to start from; headers are auto-detected otherwise
+  rowValidation?: RowValidationOptions;
+};
+
+// Everything a processing run over one file produces
+export type PipelineResult = {
+  mapping: HeaderMapping; // Which file header held each field and output column
+  result: ProcessResult; // Match details, with rows in canonical form
+  rows: CSVRow[]; // Processed rows under the file's own headers, ready to write out
+  headers: string[]; // Headers of the processed rows, in the order to write them, even when there are no rows
+  exceptions: ExceptionRow[];
+  rowIssues: RowIssue[];
+  invalidRows: number; // Rows with at least one error-level issue
+  summary: RunSummary;
+};
+
+// Lists the headers processed rows are written under: the file's headers, then any columns processing adds
+const processedFileHeaders = (
+  headers: string[],
+  renamer: ReturnType<typeof createHeaderRenamer>,
+  processOptions: ReturnType<typeof resolveProcessOptions>
+): string[] =>
+  getProcessedHeaders(
+    headers.map(renamer.canonicalHeader),
+    processOptions
+  ).map(renamer.fileHeader);
+
+// Processes one uploaded file the way the processor page does: maps its headers, checks the rows,
+// matches them against the rule set and collects exceptions and totals
+// Throws SchemaMappingError when a required column is missing and RuleValidationError for invalid rules
+export const runPipeline = (
+  rawRows: CSVRow[],
+  headers: string[],
+  ruleSet: Pick<
+    RuleSetContent,
+    "rules" | "settings" | "outputColumns" | "codeLookup"
+  >,
+  options: PipelineOptions = {}
+): PipelineResult => {
+  const { rules, settings, outputColumns, codeLookup } = ruleSet;
+  const mapping = detectHeaderMapping(headers, outputColumns, options.profile);
+  assertRequiredColumns(mapping);
+
+  const rows = canonicalizeRows(rawRows, mapping, outputColumns);
+  const rowIssues = validateRows(
+    rows,
+    options.rowValidation ?? DEFAULT_ROW_VALIDATION
+  );
+  const processOptions = resolveProcessOptions({
+    ...settings,
+    outputColumns,
+    codeLookup,
+  });
+  const result = processRows(rows, rules, processOptions);
+  return {
+    mapping,
+    result,
+    rows: restoreHeaders(result.rows, mapping, outputColumns),
+    headers: processedFileHeaders(
+      headers,
+      createHeaderRenamer(mapping, outputColumns),
+      processOptions
+    ),
+    exceptions: collectExceptions(result, rules),
+    rowIssues,
+    invalidRows: new Set(
+      rowIssues
+        .filter((issue) => issue.severity === "error")
+        .map((issue) => issue.rowIndex)
+    ).size,
+    summary: summarizeRun(result, outputColumns),
+  };
+};
+
+// What a streamed run keeps once its rows have been written out
+export type StreamedPipelineResult = Pick<
+  PipelineResult,
+  "mapping" | "rowIssues" | "invalidRows" | "summary"
+> & {
+  exceptions: ExceptionRecord[];
+};
+
+// Processes a file a row at a time as it streams in, the same way runPipeline processes a whole file
+// push returns each processed row under the file's own headers, ready to be written out straight away;
+// only the exceptions (without their rows), the row issues and the totals are kept
+// Throws the same errors as runPipeline, before any row is read
+export const createPipelineStream = (
+  headers: string[],
+  ruleSet: Pick<
+    RuleSetContent,
+    "rules" | "settings" | "outputColumns" | "codeLookup"
+  >,
+  options: PipelineOptions = {}
+) => {
+  const { rules, settings, outputColumns, codeLookup } = ruleSet;
+  const mapping = detectHeaderMapping(headers, outputColumns, options.profile);
+  assertRequiredColumns(mapping);
+  const processOptions = resolveProcessOptions({
+    ...settings,
+    outputColumns,
+    codeLookup,
+  });
+  assertRulesReady(rules, processOptions);
+
+  const renamer = createHeaderRenamer(mapping, outputColumns);
+  const rowValidation = options.rowValidation ?? DEFAULT_ROW_VALIDATION;
+  const knownDeductions = new Set(rules.map((rule) => rule.deduction));
+  const summary = createSummaryBuilder(outputColumns);
+  const exceptions: ExceptionRecord[] = [];
+  const rowIssues: RowIssue[] = [];
+  let invalidRows = 0;
+  let rowIndex = 0;
+
+  return {
+    mapping,
+    // Headers of the processed rows, in the order to write them
+    headers: processedFileHeaders(headers, renamer, processOptions),
+
+    push(rawRow: CSVRow): CSVRow {
+      const row = renamer.canonicalize(rawRow);
+      const issues = validateRow(row, rowIndex, rowValidation);
+      rowIssues.push(...issues);
+      if (issues.some((issue) => issue.severity === "error")) invalidRows++;
+
+      const output = processRow(row, rowIndex, rules, processOptions);
+      summary.add(output.row, output.result);
+      if (output.result.ruleIndex === null) {
+        exceptions.push(
+          describeException(output.row, output.result, rules, knownDeductions)
+        );
+      }
+      rowIndex++;
+      return renamer.restore(output.row);
+    },
+
+    finish(): StreamedPipelineResult {
+      return {
+        mapping,
+        exceptions,
+        rowIssues,
+        invalidRows,
+        summary: summary.finish(),
+      };
+    },
+  };
+};
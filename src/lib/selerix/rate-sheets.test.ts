@@ -0,0 +1,142 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { DEFAULT_CODE_LOOKUP } from "./default-rules";
+import { makeRule } from "./fixtures";
+import {
+  detectRateSheetMapping,
+  mergeRateSheetRules,
+  premiumToRange,
+  rulesFromRateSheet,
+} from "./rate-sheets";
+import type { CSVRow } from "./types";
+
+// A renewal sheet that names plans and tiers by description
+const sheet: Record<string, string>[] = [
+  {
+    "Payroll Code": "2400",
+    Carrier: "AETN",
+    Product: "Medical",
+    Tier: "Employee + Spouse",
+    "Monthly Premium": "$1,234.50",
+  },
+  {
+    "Payroll Code": "1720",
+    Carrier: "AMER",
+    Product: "DENT",
+    Tier: "Family",
+    "Monthly Premium": "42",
+  },
+  {
+    "Payroll Code": "",
+    Carrier: "",
+    Product: "",
+    Tier: "",
+    "Monthly Premium": "",
+  },
+  {
+    "Payroll Code": "",
+    Carrier: "AETN",
+    Product: "HLTH",
+    Tier: "1",
+    "Monthly Premium": "30",
+  },
+  {
+    "Payroll Code": "2400",
+    Carrier: "AETN",
+    Product: "HLTH",
+    Tier: "4",
+    "Monthly Premium": "TBD",
+  },
+];
+const mapping = detectRateSheetMapping(Object.keys(sheet[0]));
+
+describe("detectRateSheetMapping", () => {
+  it("recognizes the common rate sheet headers", () => {
+    assert.deepEqual(mapping, {
+      deduction: "Payroll Code",
+      amount: "Monthly Premium",
+      outputs: { carrier: "Carrier", coverage: "Tier", plan: "Product" },
+    });
+  });
+});
+
+describe("rulesFromRateSheet", () => {
+  it("builds a rule per row, turning descriptions into codes and premiums into ranges", () => {
+    const { rules, issues } = rulesFromRateSheet(sheet as CSVRow[], mapping, {
+      codeLookup: DEFAULT_CODE_LOOKUP,
+    });
+    assert.deepEqual(rules, [
+      {
+        deduction: "2400",
+        empAmount: "1234.5-1234.6",
+        outputs: { carrier: "AETN", coverage: "2", level: "1", plan: "HLTH" },
+      },
+      {
+        deduction: "1720",
+        empAmount: "42-42.1",
+        outputs: { carrier: "AMER", coverage: "7", level: "1", plan: "DENT" },
+      },
+    ]);
+    // Blank rows are ignored; the rest are reported by their position in the sheet
+    assert.deepEqual(issues, [
+      { rowIndex: 3, message: "Deduction code is blank" },
+      { rowIndex: 4, message: 'Premium "TBD" is not a number' },
+    ]);
+  });
+
+  it("pads both sides of the premium when asked", () => {
+    assert.equal(premiumToRange(30, 0.1, "around"), "29.9-30.1");
+    assert.equal(premiumToRange(30, 0, "above"), "30");
+  });
+});
+
+describe("mergeRateSheetRules", () => {
+  const current = [
+    makeRule("30-30.1"),
+    makeRule("50-50.1", "AETN", {
+      outputs: { carrier: "AETN", coverage: "2", level: "1", plan: "HLTH" },
+    }),
+    makeRule("70-70.1", "STAN"),
+  ];
+  const imported = [
+    // Same range with new outputs, and a renewed premium for the same outputs
+    makeRule("30-30.1", "CIGNA"),
+    makeRule("55-55.1", "AETN", {
+      outputs: { carrier: "AETN", coverage: "2", level: "1", plan: "HLTH" },
+    }),
+    makeRule("90-90.1", "AMER"),
+  ];
+
+  it("replaces matching rules in place and adds the rest at the end", () => {
+    assert.deepEqual(
+      mergeRateSheetRules(current, imported).map((rule) => [
+        rule.empAmount,
+        rule.outputs.carrier,
+      ]),
+      [
+        ["30-30.1", "CIGNA"],
+        ["55-55.1", "AETN"],
+        ["70-70.1", "STAN"],
+        ["90-90.1", "AMER"],
+      ]
+    );
+  });
+
+  it("keeps dated or conditional rules with the same outputs", () => {
+    const dated = makeRule("50-50.1", "AETN", {
+      outputs: imported[1].outputs,
+      effectiveTo: "2025-12-31",
+    });
+    assert.deepEqual(mergeRateSheetRules([dated], [imported[1]]), [
+      dated,
+      imported[1],
+    ]);
+  });
+
+  it("discards the current rules when replacing", () => {
+    assert.deepEqual(
+      mergeRateSheetRules(current, imported, "replace"),
+      imported
+    );
+  });
+});
@@ -0,0 +1,276 @@
+import { DEFAULT_OUTPUT_COLUMNS } from "./default-rules";
+import {
+  coveragesForPlan,
+  EMPTY_CODE_LOOKUP,
+  plansForCarrier,
+} from "./lookups";
+import { ruleKey } from "./rule-diff";
+import { headerSimilarity } from "./schema";
+import type {
+  CodeLookup,
+  CSVRow,
+  LookupCode,
+  OutputColumn,
+  Rule,
+} from "./types";
+
+// Which rate sheet header holds the deduction code, the premium and each output column
+export type RateSheetMapping = {
+  deduction: string; // Header holding the payroll deduction code
+  amount: string; // Header holding the monthly premium
+  outputs: Record<string, string>; // Output column key → header; unmapped columns get their default value
+};
+
+// How the tolerance widens each premium into a rule range
+// "above" matches the default rules (30 → "30-30.1"), "around" pads both sides (30 → "29.9-30.1")
+export type RateToleranceMode = "above" | "around";
+
+export const RATE_TOLERANCE_LABELS: Record<RateToleranceMode, string> = {
+  above: "Premium to premium + tolerance",
+  around: "Premium ± tolerance",
+};
+
+// How imported rules are combined with the rule set being edited
+// "merge" replaces rules for the same deduction and outputs and keeps the rest, "replace" discards the current rules
+export type RateSheetMergeMode = "merge" | "replace";
+
+export type RateSheetOptions = {
+  tolerance?: number; // Rounding allowance around each premium, e.g. 0.1
+  toleranceMode?: RateToleranceMode;
+  outputColumns?: OutputColumn[];
+  codeLookup?: CodeLookup; // Descriptions in the sheet, e.g. "Employee + Spouse", are turned into their codes
+};
+
+export const DEFAULT_RATE_TOLERANCE = 0.1;
+
+// A rate sheet row that could not be turned into a rule
+export type RateSheetIssue = {
+  rowIndex: number; // Position of the row in the sheet, not counting the header
+  message: string;
+};
+
+export type RateSheetImport = {
+  rules: Rule[];
+  issues: RateSheetIssue[];
+};
+
+// Names rate sheets commonly use for the deduction code and premium columns
+const DEDUCTION_HEADERS = [
+  "Deduction",
+  "Deduction Code",
+  "Ded Code",
+  "Payroll Code",
+];
+const AMOUNT_HEADERS = [
+  "Monthly Premium",
+  "Premium",
+  "Monthly Rate",
+  "Rate",
+  "Monthly Cost",
+  "Cost",
+  "Employee Cost",
+];
+// Extra names for the lookup columns, e.g. a carrier's "Tier" column holds the coverage
+const OUTPUT_ALIASES: Record<string, string[]> = {
+  carrier: ["Carrier", "Carrier Code", "Insurer"],
+  plan: ["Plan", "Plan Code", "Product"],
+  coverage: ["Coverage", "Coverage Tier", "Tier", "Coverage Level"],
+};
+
+const MATCH_THRESHOLD = 0.8;
+
+const roundCents = (value: number): number => Math.round(value * 100) / 100;
+
+// Finds the header most similar to any of the names, skipping headers already taken
+const bestHeader = (
+  headers: string[],
+  names: string[],
+  used: Set<string>
+): string => {
+  let best = "";
+  let bestScore = MATCH_THRESHOLD;
+  headers
+    .filter((header) => !used.has(header))
+    .forEach((header) => {
+      const score = Math.max(
+        ...names.map((name) => headerSimilarity(header, name))
+      );
+      if (score >= bestScore && (score > bestScore || !best)) {
+        best = header;
+        bestScore = score;
+      }
+    });
+  if (best) used.add(best);
+  return best;
+};
+
+// Guesses which rate sheet header holds each field from the header names
+export const detectRateSheetMapping = (
+  headers: string[],
+  outputColumns: OutputColumn[] = DEFAULT_OUTPUT_COLUMNS
+): RateSheetMapping => {
+  const used = new Set<string>();
+  const deduction = bestHeader(headers, DEDUCTION_HEADERS, used);
+  const amount = bestHeader(headers, AMOUNT_HEADERS, used);
+  const outputs: Record<string, string> = {};
+  outputColumns.forEach((column) => {
+    const header = bestHeader(
+      headers,
+      [column.label, column.header, ...(OUTPUT_ALIASES[column.key] ?? [])],
+      used
+    );
+    if (header) outputs[column.key] = header;
+  });
+  return { deduction, amount, outputs };
+};
+
+// Reads a premium such as "$1,234.50"
+const parsePremium = (value: string): number =>
+  parseFloat(value.replace(/[$,\s]/g, ""));
+
+// Turns a premium into the rule amount, e.g. 30 → "30-30.1"
+export const premiumToRange = (
+  premium: number,
+  tolerance: number,
+  mode: RateToleranceMode
+): string => {
+  const min = roundCents(mode === "around" ? premium - tolerance : premium);
+  const max = roundCents(premium + tolerance);
+  return min === max ? String(min) : `${min}-${max}`;
+};
+
+// Converts a sheet value to a lookup code, accepting either the code or its description
+// Descriptions are matched among the entries valid for the row first, so "Family" on a dental row
+// finds the dental tier rather than the medical one
+const resolveCode = (
+  entries: LookupCode[],
+  valid: LookupCode[],
+  value: string
+): string => {
+  if (entries.some((entry) => entry.code === value)) return value;
+  const described = (list: LookupCode[]) =>
+    list.find(
+      (entry) =>
+        entry.description &&
+        entry.description.toLowerCase() === value.toLowerCase()
+    );
+  return (described(valid) ?? described(entries))?.code ?? value;
+};
+
+// Resolves a row's carrier, plan and coverage values to lookup codes, in that order
+const resolveLookupValues = (
+  outputs: Record<string, string>,
+  lookup: CodeLookup
+): Record<string, string> => {
+  const resolved = { ...outputs };
+  if (resolved.carrier) {
+    resolved.carrier = resolveCode(
+      lookup.carriers,
+      lookup.carriers,
+      resolved.carrier
+    );
+  }
+  if (resolved.plan) {
+    resolved.plan = resolveCode(
+      lookup.plans,
+      plansForCarrier(lookup, resolved.carrier ?? ""),
+      resolved.plan
+    );
+  }
+  if (resolved.coverage) {
+    resolved.coverage = resolveCode(
+      lookup.coverages,
+      coveragesForPlan(lookup, resolved.plan ?? ""),
+      resolved.coverage
+    );
+  }
+  return resolved;
+};
+
+// Builds one rule per rate sheet row (deduction × plan × tier × premium)
+// Rows without a deduction code or a numeric premium are reported and skipped; blank rows are ignored
+export const rulesFromRateSheet = (
+  rows: CSVRow[],
+  mapping: RateSheetMapping,
+  options: RateSheetOptions = {}
+): RateSheetImport => {
+  const {
+    tolerance = DEFAULT_RATE_TOLERANCE,
+    toleranceMode = "above",
+    outputColumns = DEFAULT_OUTPUT_COLUMNS,
+    codeLookup = EMPTY_CODE_LOOKUP,
+  } = options;
+  const rules: Rule[] = [];
+  const issues: RateSheetIssue[] = [];
+
+  rows.forEach((row, rowIndex) => {
+    if (Object.values(row).every((value) => !value?.trim())) return;
+    const deduction = (row[mapping.deduction] ?? "").trim();
+    const premiumText = (row[mapping.amount] ?? "").trim();
+    const premium = parsePremium(premiumText);
+    if (!deduction) {
+      issues.push({ rowIndex, message: "Deduction code is blank" });
+      return;
+    }
+    if (isNaN(premium)) {
+      issues.push({
+        rowIndex,
+        message: `Premium "${premiumText}" is not a number`,
+      });
+      return;
+    }
+    rules.push({
+      deduction,
+      empAmount: premiumToRange(premium, tolerance, toleranceMode),
+      outputs: resolveLookupValues(
+        Object.fromEntries(
+          outputColumns.map((column) => {
+            const header = mapping.outputs[column.key];
+            const value = header ? (row[header] ?? "").trim() : "";
+            return [column.key, value || column.defaultValue || ""];
+          })
+        ),
+        codeLookup
+      ),
+    });
+  });
+  return { rules, issues };
+};
+
+// Checks whether two rules populate the same values
+const sameOutputs = (a: Rule, b: Rule): boolean =>
+  [...new Set([...Object.keys(a.outputs), ...Object.keys(b.outputs)])].every(
+    (key) => (a.outputs[key] ?? "") === (b.outputs[key] ?? "")
+  );
+
+// Combines imported rules with the current ones
+// When merging, an imported rule takes the place of current rules for the same deduction code that
+// either have the same amount range or populate the same values (a renewed premium for the same plan and tier);
+// imported rules that replace nothing are added at the end
+export const mergeRateSheetRules = (
+  current: Rule[],
+  imported: Rule[],
+  mode: RateSheetMergeMode = "merge"
+): Rule[] => {
+  if (mode === "replace") return [...imported];
+  const placed = new Set<Rule>();
+  const merged: Rule[] = [];
+  current.forEach((rule) => {
+    const replacement = imported.find(
+      (candidate) =>
+        candidate.deduction === rule.deduction &&
+        (ruleKey(candidate) === ruleKey(rule) ||
+          (sameOutputs(candidate, rule) &&
+            !rule.conditions?.length &&
+            !rule.effectiveFrom &&
+            !rule.effectiveTo))
+    );
+    if (!replacement) {
+      merged.push(rule);
+    } else if (!placed.has(replacement)) {
+      merged.push(replacement);
+      placed.add(replacement);
+    }
+  });
+  return [...merged, ...imported.filter((rule) => !placed.has(rule))];
+};
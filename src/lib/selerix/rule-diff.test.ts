@@ -0,0 +1,69 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { makeRule } from "./fixtures";
+import { diffRules, diffRuleSets, ruleKey } from "./rule-diff";
+import { createRuleSet } from "./rule-sets";
+
+describe("ruleKey", () => {
+  it("identifies a rule by deduction, normalized amount, dates and conditions", () => {
+    assert.equal(ruleKey(makeRule("30-30.10")), "2400 @ 30-30.1");
+    assert.equal(ruleKey(makeRule("30.0")), "2400 @ 30");
+    assert.equal(
+      ruleKey(
+        makeRule("30", "AETN", {
+          effectiveFrom: "2026-01-01",
+          conditions: [
+            { column: "Division", operator: "equals", value: "East" },
+          ],
+        })
+      ),
+      '2400 @ 30 [2026-01-01 to …] where Division equals "East"'
+    );
+  });
+
+  it("ignores the outputs", () => {
+    assert.equal(ruleKey(makeRule("30", "A")), ruleKey(makeRule("30", "B")));
+  });
+});
+
+describe("diffRules", () => {
+  it("pairs rules by key and reports added, removed and changed outputs", () => {
+    const before = [makeRule("10"), makeRule("20"), makeRule("30")];
+    const after = [makeRule("30"), makeRule("20", "STAN"), makeRule("40")];
+    const diff = diffRules(before, after);
+    assert.deepEqual(diff.added, [makeRule("40")]);
+    assert.deepEqual(diff.removed, [makeRule("10")]);
+    assert.deepEqual(
+      diff.changed.map(({ key, fields }) => [key, fields]),
+      [["2400 @ 20", ["carrier"]]]
+    );
+    assert.equal(diff.unchanged, 1);
+  });
+
+  it("pairs repeated keys in order of appearance", () => {
+    const diff = diffRules(
+      [makeRule("30", "A"), makeRule("30", "B")],
+      [makeRule("30", "A")]
+    );
+    assert.deepEqual(diff.removed, [makeRule("30", "B")]);
+    assert.equal(diff.unchanged, 1);
+  });
+});
+
+describe("diffRuleSets", () => {
+  it("reports renames and changed settings", () => {
+    const before = createRuleSet("Medical", []);
+    const after = {
+      ...before,
+      name: "Medical 2026",
+      settings: { ...before.settings, matchStrategy: "error" as const },
+    };
+    const diff = diffRuleSets(before, after);
+    assert.deepEqual(diff.renamed, { before: "Medical", after: "Medical 2026" });
+    assert.deepEqual(diff.settings, [
+      { key: "matchStrategy", before: "first", after: "error" },
+    ]);
+    assert.equal(diff.outputColumnsChanged, false);
+    assert.equal(diff.codeLookupChanged, false);
+  });
+});
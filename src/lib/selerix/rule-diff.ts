@@ -0,0 +1,105 @@
+import { describeConditions, parseAmountRange } from "./rules";
+import type { Rule, RuleSetContent, RuleSetSettings } from "./types";
+
+// A rule present in both versions whose populated values differ
+export type ChangedRule = {
+  key: string;
+  before: Rule;
+  after: Rule;
+  fields: string[]; // Output keys whose values differ
+};
+
+// Differences between two versions of a rule set
+export type RuleSetDiff = {
+  added: Rule[];
+  removed: Rule[];
+  changed: ChangedRule[];
+  unchanged: number; // Count of rules identical in both versions
+  renamed: { before: string; after: string } | null;
+  settings: { key: keyof RuleSetSettings; before: string; after: string }[];
+  outputColumnsChanged: boolean; // Whether the output columns were added, removed or edited
+  codeLookupChanged: boolean; // Whether any carrier, plan or coverage code was added, removed or edited
+};
+
+// Identifies a rule across versions by its deduction code, amount range, effective window and conditions
+// Ranges are normalized so "30-30.10" and "30-30.1" are treated as the same rule
+export const ruleKey = (rule: Rule): string => {
+  const range = parseAmountRange(rule.empAmount);
+  const amount = range
+    ? range.min === range.max
+      ? `${range.min}`
+      : `${range.min}-${range.max}`
+    : rule.empAmount.trim();
+  const window =
+    rule.effectiveFrom || rule.effectiveTo
+      ? ` [${rule.effectiveFrom || "…"} to ${rule.effectiveTo || "…"}]`
+      : "";
+  const conditions = describeConditions(rule);
+  return `${rule.deduction.trim()} @ ${amount}${window}${
+    conditions ? ` where ${conditions}` : ""
+  }`;
+};
+
+// Compares two rule lists, pairing rules by key in order of appearance
+export const diffRules = (
+  before: Rule[],
+  after: Rule[]
+): Pick<RuleSetDiff, "added" | "removed" | "changed" | "unchanged"> => {
+  const remaining = new Map<string, Rule[]>();
+  before.forEach((rule) => {
+    const key = ruleKey(rule);
+    remaining.set(key, [...(remaining.get(key) ?? []), rule]);
+  });
+
+  const added: Rule[] = [];
+  const changed: ChangedRule[] = [];
+  let unchanged = 0;
+  after.forEach((rule) => {
+    const key = ruleKey(rule);
+    const previous = remaining.get(key)?.shift();
+    if (!previous) {
+      added.push(rule);
+      return;
+    }
+    // The key already covers deduction, amount, dates and conditions, so only the outputs can differ
+    const fields = [
+      ...new Set([
+        ...Object.keys(previous.outputs),
+        ...Object.keys(rule.outputs),
+      ]),
+    ].filter(
+      (field) => (rule.outputs[field] ?? "") !== (previous.outputs[field] ?? "")
+    );
+    if (fields.length > 0) {
+      changed.push({ key, before: previous, after: rule, fields });
+    } else {
+      unchanged++;
+    }
+  });
+
+  const removed = [...remaining.values()].flat();
+  return { added, removed, changed, unchanged };
+};
+
+// Compares two versions of a rule set, including its name, settings, output columns and code lookup
+export const diffRuleSets = (
+  before: RuleSetContent,
+  after: RuleSetContent
+): RuleSetDiff => ({
+  ...diffRules(before.rules, after.rules),
+  renamed:
+    before.name === after.name
+      ? null
+      : { before: before.name, after: after.name },
+  settings: (Object.keys(after.settings) as (keyof RuleSetSettings)[])
+    .filter((key) => before.settings[key] !== after.settings[key])
+    .map((key) => ({
+      key,
+      before: before.settings[key],
+      after: after.settings[key],
+    })),
+  outputColumnsChanged:
+    JSON.stringify(before.outputColumns) !== JSON.stringify(after.outputColumns),
+  codeLookupChanged:
+    JSON.stringify(before.codeLookup) !== JSON.stringify(after.codeLookup),
+});
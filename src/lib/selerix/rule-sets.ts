@@ -0,0 +1,430 @@
+import { MATCH_STRATEGY_LABELS } from "./analysis";
+import { MONTHLY_COLUMN_LABELS, PAY_FREQUENCY_LABELS } from "./amounts";
+import { OVERWRITE_POLICY_LABELS } from "./changes";
+import {
+  DEFAULT_CODE_LOOKUP,
+  DEFAULT_OUTPUT_COLUMNS,
+  defaultRules,
+} from "./default-rules";
+import { DEFAULT_PROCESS_OPTIONS } from "./engine";
+import { buildCodeLookup, copyCodeLookup } from "./lookups";
+import { CONDITION_OPERATOR_LABELS } from "./rules";
+import type {
+  CodeLookup,
+  ConditionOperator,
+  LookupCode,
+  OutputColumn,
+  Rule,
+  RuleCondition,
+  RuleSet,
+  RuleSetContent,
+  RuleSetSettings,
+  RuleSetVersion,
+  SaveInfo,
+} from "./types";
+
+// Identifies exported rule set files and the version of their layout
+// Version 2 moved rule values into an outputs record and added outputColumns; version 1 files still import
+// codeLookup is optional: files without one get a lookup built from their rules
+export const RULE_SET_FILE_FORMAT = "selerix-rule-set";
+export const RULE_SET_FILE_VERSION = 2;
+
+// Layout of an exported rule set file
+export type RuleSetFile = {
+  format: typeof RULE_SET_FILE_FORMAT;
+  version: number;
+  exportedAt: string;
+  ruleSet: RuleSetContent;
+};
+
+// Anything that can list, save and delete rule sets (browser storage, the server API, ...)
+export interface RuleSetStore {
+  list(): Promise<RuleSet[]>;
+  save(ruleSet: RuleSet, info?: SaveInfo): Promise<RuleSet>;
+  remove(id: string): Promise<void>;
+}
+
+// A store that also keeps an immutable version for every save
+export interface RuleSetHistoryStore extends RuleSetStore {
+  listVersions(id: string): Promise<RuleSetVersion[]>;
+  rollback(id: string, version: number, info: SaveInfo): Promise<RuleSet>;
+}
+
+// Checks whether a store keeps a version history
+export const hasHistory = (
+  store: RuleSetStore
+): store is RuleSetHistoryStore => "listVersions" in store;
+
+// Thrown when an imported file is not a valid rule set
+export class RuleSetFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RuleSetFormatError";
+  }
+}
+
+// Generates a reasonably unique id without relying on crypto.randomUUID,
+// which browsers only expose on secure (https) origins
+export const generateId = (): string =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+const DEFAULT_SETTINGS: RuleSetSettings = {
+  payFrequency: DEFAULT_PROCESS_OPTIONS.payFrequency,
+  monthlyColumn: DEFAULT_PROCESS_OPTIONS.monthlyColumn,
+  matchStrategy: DEFAULT_PROCESS_OPTIONS.matchStrategy,
+  overwritePolicy: DEFAULT_PROCESS_OPTIONS.overwritePolicy,
+};
+
+// Creates a new rule set, starting from the default rules, output columns and code lookup unless others are given
+export const createRuleSet = (
+  name: string,
+  rules: Rule[] = defaultRules,
+  settings: RuleSetSettings = DEFAULT_SETTINGS,
+  outputColumns: OutputColumn[] = DEFAULT_OUTPUT_COLUMNS,
+  codeLookup: CodeLookup = DEFAULT_CODE_LOOKUP
+): RuleSet => {
+  const now = new Date().toISOString();
+  return {
+    id: generateId(),
+    name,
+    rules: rules.map((rule) => ({ ...rule, outputs: { ...rule.outputs } })),
+    settings: { ...settings },
+    outputColumns: outputColumns.map((column) => ({ ...column })),
+    codeLookup: copyCodeLookup(codeLookup),
+    createdAt: now,
+    updatedAt: now,
+  };
+};
+
+// Copies a rule set under a new id and name
+export const duplicateRuleSet = (
+  ruleSet: RuleSet,
+  name = `Copy of ${ruleSet.name}`
+): RuleSet =>
+  createRuleSet(
+    name,
+    ruleSet.rules,
+    ruleSet.settings,
+    ruleSet.outputColumns,
+    ruleSet.codeLookup
+  );
+
+// Serializes a rule set to the versioned JSON file format
+export const exportRuleSet = (ruleSet: RuleSet): string => {
+  const file: RuleSetFile = {
+    format: RULE_SET_FILE_FORMAT,
+    version: RULE_SET_FILE_VERSION,
+    exportedAt: new Date().toISOString(),
+    ruleSet: {
+      name: ruleSet.name,
+      rules: ruleSet.rules,
+      settings: ruleSet.settings,
+      outputColumns: ruleSet.outputColumns,
+      codeLookup: ruleSet.codeLookup,
+    },
+  };
+  return JSON.stringify(file, null, 2);
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+// Output values stored directly on rules before output columns were configurable
+const LEGACY_OUTPUT_FIELDS = ["carrier", "coverage", "level", "plan"];
+
+// Fields left off the rule when blank
+const OPTIONAL_RULE_FIELDS = ["effectiveFrom", "effectiveTo"] as const;
+
+// Reads a string (or number) value from a JSON object, treating a missing value as blank
+const readString = (
+  record: Record<string, unknown>,
+  field: string,
+  describe: () => string
+): string => {
+  const fieldValue = record[field] ?? "";
+  if (typeof fieldValue !== "string" && typeof fieldValue !== "number") {
+    throw new RuleSetFormatError(`${describe()} has an invalid ${field}`);
+  }
+  return String(fieldValue);
+};
+
+// Checks a rule's match conditions read from JSON
+const parseConditions = (
+  value: unknown,
+  describeRule: () => string
+): RuleCondition[] => {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) {
+    throw new RuleSetFormatError(`${describeRule()} has invalid conditions`);
+  }
+  return value.map((condition, index) => {
+    const describe = () => `${describeRule()} condition ${index + 1}`;
+    if (!isRecord(condition)) {
+      throw new RuleSetFormatError(`${describe()} is not an object`);
+    }
+    const operator = readString(condition, "operator", describe);
+    if (!(operator in CONDITION_OPERATOR_LABELS)) {
+      throw new RuleSetFormatError(
+        `${describe()} has an unknown operator "${operator}"`
+      );
+    }
+    return {
+      column: readString(condition, "column", describe),
+      operator: operator as ConditionOperator,
+      value: readString(condition, "value", describe),
+    };
+  });
+};
+
+// Checks and copies a list of rules read from JSON
+// Rules saved before output columns were configurable have their carrier, coverage, level and plan
+// lifted into outputs
+export const parseRules = (value: unknown): Rule[] => {
+  if (!Array.isArray(value)) {
+    throw new RuleSetFormatError("Rules must be a list");
+  }
+  return value.map((rule, index) => {
+    if (!isRecord(rule)) {
+      throw new RuleSetFormatError(`Rule ${index + 1} is not an object`);
+    }
+    const describe = () => `Rule ${index + 1}`;
+    const outputs: Record<string, string> = {};
+    if (rule.outputs !== undefined) {
+      if (!isRecord(rule.outputs)) {
+        throw new RuleSetFormatError(`${describe()} has invalid outputs`);
+      }
+      const ruleOutputs = rule.outputs;
+      Object.keys(ruleOutputs).forEach((key) => {
+        outputs[key] = readString(ruleOutputs, key, describe);
+      });
+    } else {
+      LEGACY_OUTPUT_FIELDS.forEach((key) => {
+        outputs[key] = readString(rule, key, describe);
+      });
+    }
+    const parsed: Rule = {
+      deduction: readString(rule, "deduction", describe),
+      empAmount: readString(rule, "empAmount", describe),
+      outputs,
+    };
+    OPTIONAL_RULE_FIELDS.forEach((field) => {
+      const fieldValue = readString(rule, field, describe);
+      if (fieldValue) parsed[field] = fieldValue;
+    });
+    const conditions = parseConditions(rule.conditions, describe);
+    if (conditions.length > 0) parsed.conditions = conditions;
+    if (rule.conditionMode === "any") parsed.conditionMode = "any";
+    return parsed;
+  });
+};
+
+// Checks the output columns read from JSON, falling back to the default columns when missing
+export const parseOutputColumns = (value: unknown): OutputColumn[] => {
+  if (value === undefined) {
+    return DEFAULT_OUTPUT_COLUMNS.map((column) => ({ ...column }));
+  }
+  if (!Array.isArray(value)) {
+    throw new RuleSetFormatError("Output columns must be a list");
+  }
+  const keys = new Set<string>();
+  return value.map((column, index) => {
+    if (!isRecord(column)) {
+      throw new RuleSetFormatError(`Output column ${index + 1} is not an object`);
+    }
+    const describe = () => `Output column ${index + 1}`;
+    const key = readString(column, "key", describe).trim();
+    const header = readString(column, "header", describe).trim();
+    if (!key || !header) {
+      throw new RuleSetFormatError(`${describe()} needs a key and a header`);
+    }
+    if (keys.has(key)) {
+      throw new RuleSetFormatError(`Output column key "${key}" is used twice`);
+    }
+    keys.add(key);
+    const parsed: OutputColumn = {
+      key,
+      header,
+      label: readString(column, "label", describe).trim() || header,
+    };
+    if (column.required === true) parsed.required = true;
+    const defaultValue = readString(column, "defaultValue", describe);
+    if (defaultValue) parsed.defaultValue = defaultValue;
+    return parsed;
+  });
+};
+
+// Reads a list of lookup entries, each with a code and description plus whatever read adds
+const parseLookupList = <T extends LookupCode>(
+  value: unknown,
+  kind: string,
+  read: (
+    entry: Record<string, unknown>,
+    base: LookupCode,
+    describe: () => string
+  ) => T
+): T[] => {
+  if (!Array.isArray(value)) {
+    throw new RuleSetFormatError(`Lookup ${kind} list is missing`);
+  }
+  return value.map((entry, index) => {
+    const describe = () => `Lookup ${kind} ${index + 1}`;
+    if (!isRecord(entry)) {
+      throw new RuleSetFormatError(`${describe()} is not an object`);
+    }
+    const code = readString(entry, "code", describe).trim();
+    if (!code) throw new RuleSetFormatError(`${describe()} needs a code`);
+    const description = readString(entry, "description", describe).trim();
+    return read(entry, { code, description }, describe);
+  });
+};
+
+// Checks the code lookup read from JSON
+// Rule sets saved before lookups existed get one built from their rules, so they keep validating
+export const parseCodeLookup = (value: unknown, rules: Rule[]): CodeLookup => {
+  if (value === undefined) return buildCodeLookup(rules);
+  if (!isRecord(value)) {
+    throw new RuleSetFormatError("Code lookup must be an object");
+  }
+  return {
+    carriers: parseLookupList(value.carriers, "carrier", (_, base) => base),
+    plans: parseLookupList(value.plans, "plan", (entry, base, describe) => ({
+      ...base,
+      carrier: readString(entry, "carrier", describe).trim(),
+    })),
+    coverages: parseLookupList(
+      value.coverages,
+      "coverage",
+      (entry, base, describe) => {
+        const plans = entry.plans;
+        if (
+          !Array.isArray(plans) ||
+          plans.some((plan) => typeof plan !== "string")
+        ) {
+          throw new RuleSetFormatError(`${describe()} needs a list of plans`);
+        }
+        return {
+          ...base,
+          plans: (plans as string[])
+            .map((plan) => plan.trim())
+            .filter(Boolean),
+        };
+      }
+    ),
+  };
+};
+
+// Brings a rule set (or version snapshot) saved by an older version up to the current layout
+// Throws RuleSetFormatError when the stored rules cannot be read
+export const migrateRuleSet = <
+  T extends Pick<
+    RuleSet,
+    "rules" | "settings" | "outputColumns" | "codeLookup"
+  >
+>(
+  ruleSet: T
+): T => {
+  const rules = parseRules(ruleSet.rules);
+  return {
+    ...ruleSet,
+    rules,
+    settings: parseSettings(ruleSet.settings),
+    outputColumns: parseOutputColumns(ruleSet.outputColumns),
+    codeLookup: parseCodeLookup(ruleSet.codeLookup, rules),
+  };
+};
+
+// Checks rule set settings read from JSON, falling back to defaults for missing values
+export const parseSettings = (value: unknown): RuleSetSettings => {
+  const settings = isRecord(value) ? value : {};
+  const pick = <T extends string>(
+    key: keyof RuleSetSettings,
+    allowed: Record<T, string>
+  ): T => {
+    const setting = settings[key] ?? DEFAULT_PROCESS_OPTIONS[key];
+    if (typeof setting !== "string" || !(setting in allowed)) {
+      throw new RuleSetFormatError(`Unknown ${key} "${String(setting)}"`);
+    }
+    return setting as T;
+  };
+  return {
+    payFrequency: pick("payFrequency", PAY_FREQUENCY_LABELS),
+    monthlyColumn: pick("monthlyColumn", MONTHLY_COLUMN_LABELS),
+    matchStrategy: pick("matchStrategy", MATCH_STRATEGY_LABELS),
+    overwritePolicy: pick("overwritePolicy", OVERWRITE_POLICY_LABELS),
+  };
+};
+
+// Reads an exported rule set file and returns it as a new rule set
+// A bare JSON list of rules is accepted too, and gets the fallback name
+export const parseRuleSetFile = (
+  text: string,
+  fallbackName = "Imported Rules"
+): RuleSet => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new RuleSetFormatError("File is not valid JSON");
+  }
+
+  if (Array.isArray(data)) {
+    return createRuleSet(fallbackName, parseRules(data));
+  }
+  if (!isRecord(data) || data.format !== RULE_SET_FILE_FORMAT) {
+    throw new RuleSetFormatError("File is not a Selerix rule set export");
+  }
+  if (typeof data.version !== "number" || data.version > RULE_SET_FILE_VERSION) {
+    throw new RuleSetFormatError(
+      `Unsupported rule set file version ${String(data.version)}`
+    );
+  }
+  if (!isRecord(data.ruleSet)) {
+    throw new RuleSetFormatError("File does not contain a rule set");
+  }
+
+  const { name, rules, settings, outputColumns, codeLookup } = data.ruleSet;
+  const parsedRules = parseRules(rules);
+  return createRuleSet(
+    typeof name === "string" && name.trim() ? name : fallbackName,
+    parsedRules,
+    parseSettings(settings),
+    parseOutputColumns(outputColumns),
+    parseCodeLookup(codeLookup, parsedRules)
+  );
+};
+
+// Fields a client may send when creating or replacing a rule set
+export type RuleSetInput = RuleSetContent & {
+  isDefault: boolean;
+};
+
+// Checks a rule set sent to the API
+export const parseRuleSetInput = (value: unknown): RuleSetInput => {
+  if (!isRecord(value)) {
+    throw new RuleSetFormatError("Request body must be a rule set object");
+  }
+  if (typeof value.name !== "string" || !value.name.trim()) {
+    throw new RuleSetFormatError("Rule set name is required");
+  }
+  const rules = parseRules(value.rules);
+  return {
+    name: value.name.trim(),
+    rules,
+    settings: parseSettings(value.settings),
+    outputColumns: parseOutputColumns(value.outputColumns),
+    codeLookup: parseCodeLookup(value.codeLookup, rules),
+    isDefault: value.isDefault === true,
+  };
+};
+
+// Checks the author and comment sent with a save
+export const parseSaveInfo = (value: unknown): SaveInfo => {
+  const info = isRecord(value) ? value : {};
+  if (typeof info.author !== "string" || !info.author.trim()) {
+    throw new RuleSetFormatError("An author is required to save a rule set");
+  }
+  return {
+    author: info.author.trim(),
+    comment: typeof info.comment === "string" ? info.comment.trim() : "",
+  };
+};
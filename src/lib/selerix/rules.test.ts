@@ -0,0 +1,66 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { makeRow, makeRule } from "./fixtures";
+import { matchesCondition, validateRule } from "./rules";
+
+describe("matchesCondition", () => {
+  const row = makeRow({ Division: " East ", EmployeeIdent: "EX100" });
+
+  it("compares trimmed text for equals and in", () => {
+    const test = (operator: "equals" | "in", value: string) =>
+      matchesCondition(row, { column: "Division", operator, value });
+    assert.ok(test("equals", "East"));
+    assert.ok(!test("equals", "east"));
+    assert.ok(test("in", "North, East"));
+    assert.ok(!test("in", "North,West"));
+  });
+
+  it("tests patterns, numeric ranges and blanks", () => {
+    assert.ok(
+      matchesCondition(row, {
+        column: "EmployeeIdent",
+        operator: "regex",
+        value: "^EX",
+      })
+    );
+    // Invalid patterns never match
+    assert.ok(
+      !matchesCondition(row, {
+        column: "Division",
+        operator: "regex",
+        value: "(",
+      })
+    );
+    assert.ok(
+      matchesCondition(row, {
+        column: "Empe Amt/Pct",
+        operator: "range",
+        value: "25-35",
+      })
+    );
+    assert.ok(
+      matchesCondition(row, { column: "Missing", operator: "empty", value: "" })
+    );
+  });
+});
+
+describe("validateRule", () => {
+  it("reports unusable conditions by position", () => {
+    const errors = validateRule(
+      makeRule("30", "AETN", {
+        conditions: [
+          { column: "", operator: "equals", value: "x" },
+          { column: "Division", operator: "in", value: " , " },
+          { column: "Division", operator: "regex", value: "(" },
+          { column: "Division", operator: "range", value: "9-1" },
+        ],
+      })
+    );
+    assert.deepEqual(errors, [
+      "Condition 1 needs a column",
+      "Condition 2 needs at least one value",
+      "Condition 3 must be a valid pattern",
+      'Condition 4 must be a number or range (e.g., "10-20")',
+    ]);
+  });
+});
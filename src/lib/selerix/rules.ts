@@ -0,0 +1,210 @@
+import { parseDate, toDateWindow, windowsOverlap } from "./dates";
+import { DEFAULT_OUTPUT_COLUMNS } from "./default-rules";
+import { EMPTY_CODE_LOOKUP, validateRuleCodes } from "./lookups";
+import type {
+  AmountRange,
+  CodeLookup,
+  ConditionMode,
+  ConditionOperator,
+  CSVRow,
+  DateWindow,
+  OutputColumn,
+  Rule,
+  RuleCondition,
+  RuleValidationResult,
+} from "./types";
+
+// Validates if the amount string is in correct format
+// Returns true if empty, a valid number, or a valid range (e.g., "65-65.5")
+export const isValidAmount = (amount: string): boolean => {
+  if (!amount) return true;
+  if (!isNaN(parseFloat(amount))) return true;
+  const parts = amount.split("-");
+  if (parts.length !== 2) return false;
+  return !isNaN(parseFloat(parts[0])) && !isNaN(parseFloat(parts[1]));
+};
+
+// Converts a rule amount into an inclusive numeric range
+// A single value becomes a zero-width range; returns null when no amount can ever match
+export const parseAmountRange = (ruleAmount: string): AmountRange | null => {
+  const [min, max] = ruleAmount.includes("-")
+    ? ruleAmount.split("-").map(parseFloat)
+    : [parseFloat(ruleAmount), parseFloat(ruleAmount)];
+  if (isNaN(min) || isNaN(max) || min > max) return null;
+  return { min, max };
+};
+
+// Checks if a numeric value falls within the specified range or matches exact amount
+// Handles both single values and ranges (e.g., "65" or "65-65.5")
+export const isWithinRange = (value: number, ruleAmount: string): boolean => {
+  const range = parseAmountRange(ruleAmount);
+  return range !== null && value >= range.min && value <= range.max;
+};
+
+// Returns the days a rule is in effect
+export const getRuleWindow = (rule: Rule): DateWindow =>
+  toDateWindow(rule.effectiveFrom, rule.effectiveTo);
+
+// Returns the days a row's deduction covers, from its Start Date and End Date
+export const getRowWindow = (row: CSVRow): DateWindow =>
+  toDateWindow(row["Start Date"], row["End Date"]);
+
+// Checks whether a rule's effective window overlaps the row's deduction dates
+// Rules and rows without dates are open-ended, so undated rules apply to every row
+export const isEffectiveForRow = (rule: Rule, rowWindow: DateWindow): boolean =>
+  windowsOverlap(getRuleWindow(rule), rowWindow);
+
+// Display labels for condition operators
+export const CONDITION_OPERATOR_LABELS: Record<ConditionOperator, string> = {
+  equals: "equals",
+  in: "is one of",
+  regex: "matches pattern",
+  range: "is between",
+  empty: "is empty",
+};
+
+// Display labels for how conditions combine
+export const CONDITION_MODE_LABELS: Record<ConditionMode, string> = {
+  all: "Match all conditions (AND)",
+  any: "Match any condition (OR)",
+};
+
+// Compiled patterns, cached because each one is tested against every row
+// Invalid patterns are cached as null and never match
+const patternCache = new Map<string, RegExp | null>();
+
+const compilePattern = (pattern: string): RegExp | null => {
+  if (!patternCache.has(pattern)) {
+    try {
+      patternCache.set(pattern, new RegExp(pattern));
+    } catch {
+      patternCache.set(pattern, null);
+    }
+  }
+  return patternCache.get(pattern)!;
+};
+
+// Splits the value of an "in" condition into its trimmed, non-blank entries
+const listValues = (value: string): string[] =>
+  value
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter((entry) => entry !== "");
+
+// Checks a single condition against a row; a missing column reads as blank
+export const matchesCondition = (
+  row: CSVRow,
+  condition: RuleCondition
+): boolean => {
+  const cell = (row[condition.column] ?? "").trim();
+  switch (condition.operator) {
+    case "equals":
+      return cell === condition.value.trim();
+    case "in":
+      return listValues(condition.value).includes(cell);
+    case "regex":
+      return compilePattern(condition.value)?.test(cell) ?? false;
+    case "range":
+      return cell !== "" && isWithinRange(Number(cell), condition.value.trim());
+    case "empty":
+      return cell === "";
+  }
+};
+
+// Checks a rule's conditions against a row, combining them with AND or OR
+// Rules without conditions match on deduction code and amount alone
+export const matchesConditions = (row: CSVRow, rule: Rule): boolean => {
+  const conditions = rule.conditions ?? [];
+  if (conditions.length === 0) return true;
+  return rule.conditionMode === "any"
+    ? conditions.some((condition) => matchesCondition(row, condition))
+    : conditions.every((condition) => matchesCondition(row, condition));
+};
+
+// Formats a condition for messages and diffs, e.g. 'Division is one of "East, North"'
+export const describeCondition = (condition: RuleCondition): string =>
+  condition.operator === "empty"
+    ? `${condition.column} ${CONDITION_OPERATOR_LABELS.empty}`
+    : `${condition.column} ${CONDITION_OPERATOR_LABELS[condition.operator]} "${condition.value}"`;
+
+// Formats all of a rule's conditions, joined by "and" or "or"; blank when it has none
+export const describeConditions = (rule: Rule): string =>
+  (rule.conditions ?? [])
+    .map(describeCondition)
+    .join(rule.conditionMode === "any" ? " or " : " and ");
+
+// Validates a single condition, returning messages prefixed with its position
+const validateCondition = (
+  condition: RuleCondition,
+  index: number
+): string[] => {
+  const prefix = `Condition ${index + 1}`;
+  const errors: string[] = [];
+  if (!condition.column.trim()) errors.push(`${prefix} needs a column`);
+  if (!(condition.operator in CONDITION_OPERATOR_LABELS)) {
+    errors.push(`${prefix} has an unknown operator`);
+    return errors;
+  }
+  const value = condition.value.trim();
+  if (condition.operator === "in" && listValues(value).length === 0)
+    errors.push(`${prefix} needs at least one value`);
+  if (condition.operator === "regex" && (!value || !compilePattern(value)))
+    errors.push(`${prefix} must be a valid pattern`);
+  if (condition.operator === "range" && !parseAmountRange(value))
+    errors.push(`${prefix} must be a number or range (e.g., "10-20")`);
+  return errors;
+};
+
+// Validates a single rule for completeness and correct format
+// Every required output column must have a value, and carrier, plan and coverage must be a valid combination in the lookup
+export const validateRule = (
+  rule: Rule,
+  outputColumns: OutputColumn[] = DEFAULT_OUTPUT_COLUMNS,
+  codeLookup: CodeLookup = EMPTY_CODE_LOOKUP
+): string[] => {
+  const errors: string[] = [];
+  if (!rule.deduction) errors.push("Deduction code is required");
+  if (!isValidAmount(rule.empAmount))
+    errors.push('Amount must be a number or range (e.g., "65" or "65-65.5")');
+  else if (rule.empAmount.includes("-") && !parseAmountRange(rule.empAmount))
+    errors.push("Amount range minimum must not be greater than its maximum");
+  outputColumns
+    .filter((column) => column.required && !rule.outputs[column.key])
+    .forEach((column) => errors.push(`${column.label} is required`));
+  errors.push(...validateRuleCodes(rule.outputs, codeLookup));
+  if (rule.effectiveFrom && !parseDate(rule.effectiveFrom))
+    errors.push("Effective from must be a valid date");
+  if (rule.effectiveTo && !parseDate(rule.effectiveTo))
+    errors.push("Effective to must be a valid date");
+  const window = getRuleWindow(rule);
+  if (window.start > window.end)
+    errors.push("Effective from must not be after effective to");
+  (rule.conditions ?? []).forEach((condition, index) =>
+    errors.push(...validateCondition(condition, index))
+  );
+  return errors;
+};
+
+// Validates every rule and returns only the rules that have problems
+export const validateRules = (
+  rules: Rule[],
+  outputColumns: OutputColumn[] = DEFAULT_OUTPUT_COLUMNS,
+  codeLookup: CodeLookup = EMPTY_CODE_LOOKUP
+): RuleValidationResult[] =>
+  rules
+    .map((rule, index) => ({
+      index,
+      errors: validateRule(rule, outputColumns, codeLookup),
+    }))
+    .filter((result) => result.errors.length > 0);
+
+// Creates a blank rule for the rule editor, with each output column at its default value
+export const createEmptyRule = (
+  outputColumns: OutputColumn[] = DEFAULT_OUTPUT_COLUMNS
+): Rule => ({
+  deduction: "",
+  empAmount: "",
+  outputs: Object.fromEntries(
+    outputColumns.map((column) => [column.key, column.defaultValue ?? ""])
+  ),
+});
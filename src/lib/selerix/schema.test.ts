@@ -0,0 +1,141 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  assertRequiredColumns,
+  canonicalizeRows,
+  chooseSchemaProfile,
+  createSchemaProfile,
+  detectHeaderMapping,
+  headerSimilarity,
+  restoreHeaders,
+  SchemaMappingError,
+} from "./schema";
+import type { CSVRow } from "./types";
+
+const SELERIX_HEADERS = [
+  "SSN",
+  "Empe Amt/Pct",
+  "Empe Amt/Pct Montly",
+  "Start Date",
+  "Deduction",
+  "End Date",
+  "Hlth Ins Carrie",
+  "Hlth Ins Cvrage",
+  "Hlth Ins Level",
+  "Hlth Ins Plan",
+];
+
+describe("headerSimilarity", () => {
+  it("ignores case, spacing and punctuation and scores truncated headers high", () => {
+    assert.equal(headerSimilarity("Start Date", "start_date"), 1);
+    assert.equal(headerSimilarity("Hlth Ins Carrie", "Hlth Ins Carrier"), 0.95);
+    assert.ok(headerSimilarity("SSN", "Deduction") < 0.8);
+    assert.equal(headerSimilarity("", "SSN"), 0);
+  });
+});
+
+describe("detectHeaderMapping", () => {
+  it("maps the standard Selerix export to itself", () => {
+    const mapping = detectHeaderMapping(SELERIX_HEADERS);
+    assert.deepEqual(mapping.fields, {
+      ssn: "SSN",
+      deduction: "Deduction",
+      amount: "Empe Amt/Pct",
+      monthlyAmount: "Empe Amt/Pct Montly",
+      startDate: "Start Date",
+      endDate: "End Date",
+    });
+    assert.deepEqual(mapping.outputs, {
+      carrier: "Hlth Ins Carrie",
+      coverage: "Hlth Ins Cvrage",
+      level: "Hlth Ins Level",
+      plan: "Hlth Ins Plan",
+    });
+  });
+
+  it("recognizes other exports by alias and leaves missing columns unmapped", () => {
+    const mapping = detectHeaderMapping([
+      "Social Security Number",
+      "Ded Code",
+      "Employee Amount",
+      "Effective Date",
+      "Carrier",
+    ]);
+    assert.deepEqual(mapping.fields, {
+      ssn: "Social Security Number",
+      deduction: "Ded Code",
+      amount: "Employee Amount",
+      startDate: "Effective Date",
+    });
+    assert.deepEqual(mapping.outputs, { carrier: "Carrier" });
+  });
+
+  it("uses a profile's headers when the file has them", () => {
+    const mapping = detectHeaderMapping(
+      ["Member ID", "Code", "Amt"],
+      undefined,
+      {
+        fields: { ssn: "Member ID", deduction: "Code", amount: "Amt" },
+        outputs: { carrier: "Not In File" },
+      }
+    );
+    assert.deepEqual(mapping.fields, {
+      ssn: "Member ID",
+      deduction: "Code",
+      amount: "Amt",
+    });
+    assert.deepEqual(mapping.outputs, {});
+  });
+
+  it("assigns each header at most once", () => {
+    const mapping = detectHeaderMapping(["SSN", "Amount", "Deduction"]);
+    assert.equal(mapping.fields.amount, "Amount");
+    assert.equal(mapping.fields.monthlyAmount, undefined);
+  });
+});
+
+describe("chooseSchemaProfile", () => {
+  it("picks the fitting profile that covers the most columns", () => {
+    const small = createSchemaProfile("Small", {
+      fields: { ssn: "Member ID" },
+      outputs: {},
+    });
+    const large = createSchemaProfile("Large", {
+      fields: { ssn: "Member ID", deduction: "Code" },
+      outputs: {},
+    });
+    const other = createSchemaProfile("Other", {
+      fields: { ssn: "SSN", deduction: "Code", amount: "Amt" },
+      outputs: {},
+    });
+    const profiles = [small, large, other];
+    assert.equal(chooseSchemaProfile(["Member ID", "Code"], profiles), large);
+    assert.equal(chooseSchemaProfile(["Member ID"], profiles), small);
+    assert.equal(chooseSchemaProfile(["Employee"], profiles), null);
+  });
+});
+
+describe("assertRequiredColumns", () => {
+  it("names the required fields the file lacks", () => {
+    const mapping = detectHeaderMapping(["SSN", "Start Date"]);
+    assert.throws(
+      () => assertRequiredColumns(mapping),
+      (error: unknown) =>
+        error instanceof SchemaMappingError &&
+        error.message ===
+          "Missing required columns: Deduction Code, Employee Amount"
+    );
+  });
+});
+
+describe("canonicalizeRows", () => {
+  it("renames mapped headers to the ones the engine reads and back", () => {
+    const mapping = detectHeaderMapping(["Social Security Number", "Ded Code"]);
+    const original: Record<string, string>[] = [
+      { "Social Security Number": "123456789", "Ded Code": "2400" },
+    ];
+    const rows = canonicalizeRows(original as CSVRow[], mapping);
+    assert.deepEqual(rows, [{ SSN: "123456789", Deduction: "2400" }]);
+    assert.deepEqual(restoreHeaders(rows, mapping), original);
+  });
+});
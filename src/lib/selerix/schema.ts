@@ -0,0 +1,311 @@
+import { DEFAULT_OUTPUT_COLUMNS } from "./default-rules";
+import { generateId } from "./rule-sets";
+import type {
+  CSVRow,
+  HeaderMapping,
+  LogicalField,
+  OutputColumn,
+  SchemaProfile,
+} from "./types";
+
+// A logical field: the header the engine reads it under, and names other exports use for it
+type SchemaField = {
+  header: string; // Header used internally, matching CSVRow
+  label: string;
+  required: boolean; // Processing refuses to run when the file has no column for it
+  aliases: string[];
+};
+
+// Every logical field the engine reads, in display order
+// Internal headers keep the spelling of the original Selerix export, typos included
+export const SCHEMA_FIELDS: Record<LogicalField, SchemaField> = {
+  ssn: {
+    header: "SSN",
+    label: "SSN",
+    required: true,
+    aliases: ["Social Security Number", "Employee SSN", "Empe SSN", "SocSecNo"],
+  },
+  deduction: {
+    header: "Deduction",
+    label: "Deduction Code",
+    required: true,
+    aliases: ["Deduction Code", "Ded Code", "Deduction Cd"],
+  },
+  amount: {
+    header: "Empe Amt/Pct",
+    label: "Employee Amount",
+    required: true,
+    aliases: ["Employee Amt/Pct", "Employee Amount", "Empe Amt", "Amount"],
+  },
+  monthlyAmount: {
+    header: "Empe Amt/Pct Montly",
+    label: "Monthly Amount",
+    required: false,
+    aliases: [
+      "Empe Amt/Pct Monthly",
+      "Employee Amt/Pct Monthly",
+      "Monthly Amount",
+    ],
+  },
+  startDate: {
+    header: "Start Date",
+    label: "Start Date",
+    required: false,
+    aliases: ["Begin Date", "Effective Date", "Start Dt"],
+  },
+  endDate: {
+    header: "End Date",
+    label: "End Date",
+    required: false,
+    aliases: ["Stop Date", "Term Date", "End Dt"],
+  },
+};
+
+const LOGICAL_FIELDS = Object.keys(SCHEMA_FIELDS) as LogicalField[];
+
+// Lowest similarity at which a header is taken to mean a field
+const MATCH_THRESHOLD = 0.8;
+
+// Thrown when an uploaded file has no column for a required field
+export class SchemaMappingError extends Error {
+  constructor(public readonly missing: LogicalField[]) {
+    super(
+      `Missing required columns: ${missing
+        .map((field) => SCHEMA_FIELDS[field].label)
+        .join(", ")}`
+    );
+    this.name = "SchemaMappingError";
+  }
+}
+
+// Reduces a header to lowercase letters and digits so spacing and punctuation do not matter
+const normalizeHeader = (header: string): string =>
+  header.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+const editDistance = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+// Scores how alike two headers are, from 0 to 1
+// Truncated headers ("Hlth Ins Carrie" for "Hlth Ins Carrier") score high as long as most of the name is there
+export const headerSimilarity = (a: string, b: string): number => {
+  const x = normalizeHeader(a);
+  const y = normalizeHeader(b);
+  if (!x || !y) return 0;
+  if (x === y) return 1;
+  const shorter = Math.min(x.length, y.length);
+  const longer = Math.max(x.length, y.length);
+  if ((x.startsWith(y) || y.startsWith(x)) && shorter / longer >= 0.8) {
+    return 0.95;
+  }
+  return 1 - editDistance(x, y) / longer;
+};
+
+// Finds the header for each logical field and output column
+// Headers named in the profile are used as-is when the file has them; the rest are matched by similarity,
+// best matches first, so each header is used at most once
+export const detectHeaderMapping = (
+  headers: string[],
+  outputColumns: OutputColumn[] = DEFAULT_OUTPUT_COLUMNS,
+  profile?: HeaderMapping
+): HeaderMapping => {
+  const mapping: HeaderMapping = { fields: {}, outputs: {} };
+  const used = new Set<string>();
+  const available = new Set(headers);
+
+  LOGICAL_FIELDS.forEach((field) => {
+    const header = profile?.fields[field];
+    if (header && available.has(header) && !used.has(header)) {
+      mapping.fields[field] = header;
+      used.add(header);
+    }
+  });
+  outputColumns.forEach((column) => {
+    const header = profile?.outputs[column.key];
+    if (header && available.has(header) && !used.has(header)) {
+      mapping.outputs[column.key] = header;
+      used.add(header);
+    }
+  });
+
+  // Every header similar enough to a field or column, with how to assign it
+  type Candidate = {
+    target: string; // Field or output column the header would fill
+    header: string;
+    score: number;
+    assign: () => void;
+  };
+  const candidates: Candidate[] = [];
+  const addCandidates = (
+    target: string,
+    names: string[],
+    assign: (header: string) => void
+  ) =>
+    headers.forEach((header) => {
+      const score = Math.max(
+        ...names.map((name) => headerSimilarity(header, name))
+      );
+      if (score >= MATCH_THRESHOLD) {
+        candidates.push({ target, header, score, assign: () => assign(header) });
+      }
+    });
+
+  LOGICAL_FIELDS.filter((field) => !mapping.fields[field]).forEach((field) => {
+    const { header, aliases } = SCHEMA_FIELDS[field];
+    addCandidates(field, [header, ...aliases], (match) => {
+      mapping.fields[field] = match;
+    });
+  });
+  outputColumns
+    .filter((column) => !mapping.outputs[column.key])
+    .forEach((column) => {
+      addCandidates(
+        `output:${column.key}`,
+        [column.header, column.label],
+        (match) => {
+          mapping.outputs[column.key] = match;
+        }
+      );
+    });
+
+  const assigned = new Set<string>();
+  candidates
+    .sort((a, b) => b.score - a.score)
+    .forEach((candidate) => {
+      if (assigned.has(candidate.target) || used.has(candidate.header)) return;
+      candidate.assign();
+      assigned.add(candidate.target);
+      used.add(candidate.header);
+    });
+
+  return mapping;
+};
+
+// Picks the saved profile that best fits a file's headers: every field it maps must be present,
+// and the profile covering the most columns wins. Returns null when no profile fits
+export const chooseSchemaProfile = (
+  headers: string[],
+  profiles: SchemaProfile[]
+): SchemaProfile | null => {
+  const available = new Set(headers);
+  let best: SchemaProfile | null = null;
+  let bestCount = 0;
+  profiles.forEach((profile) => {
+    const fields = Object.values(profile.fields);
+    const fits =
+      fields.length > 0 &&
+      fields.every((header) => header !== undefined && available.has(header));
+    if (!fits) return;
+    const count = [...fields, ...Object.values(profile.outputs)].filter(
+      (header) => header !== undefined && available.has(header)
+    ).length;
+    if (count > bestCount) {
+      best = profile;
+      bestCount = count;
+    }
+  });
+  return best;
+};
+
+// Lists required fields that have no column in the file
+export const findMissingFields = (mapping: HeaderMapping): LogicalField[] =>
+  LOGICAL_FIELDS.filter(
+    (field) => SCHEMA_FIELDS[field].required && !mapping.fields[field]
+  );
+
+// Throws SchemaMappingError when a required field has no column
+export const assertRequiredColumns = (mapping: HeaderMapping): void => {
+  const missing = findMissingFields(mapping);
+  if (missing.length > 0) throw new SchemaMappingError(missing);
+};
+
+// Builds the header → internal header renames for a mapping, leaving out headers that already match
+const getRenames = (
+  mapping: HeaderMapping,
+  outputColumns: OutputColumn[]
+): Map<string, string> => {
+  const renames = new Map<string, string>();
+  LOGICAL_FIELDS.forEach((field) => {
+    const header = mapping.fields[field];
+    if (header && header !== SCHEMA_FIELDS[field].header) {
+      renames.set(header, SCHEMA_FIELDS[field].header);
+    }
+  });
+  outputColumns.forEach((column) => {
+    const header = mapping.outputs[column.key];
+    if (header && header !== column.header) renames.set(header, column.header);
+  });
+  return renames;
+};
+
+const renameRow = (row: CSVRow, renames: Map<string, string>): CSVRow => {
+  if (renames.size === 0) return row;
+  const renamed = {} as CSVRow;
+  Object.keys(row).forEach((key) => {
+    renamed[renames.get(key) ?? key] = row[key];
+  });
+  return renamed;
+};
+
+const renameKeys = (rows: CSVRow[], renames: Map<string, string>): CSVRow[] =>
+  renames.size === 0 ? rows : rows.map((row) => renameRow(row, renames));
+
+const invert = (renames: Map<string, string>): Map<string, string> =>
+  new Map([...renames].map(([header, internal]) => [internal, header]));
+
+// Renames mapped columns to the headers the engine reads, keeping the column order of the file
+export const canonicalizeRows = (
+  rows: CSVRow[],
+  mapping: HeaderMapping,
+  outputColumns: OutputColumn[] = DEFAULT_OUTPUT_COLUMNS
+): CSVRow[] => renameKeys(rows, getRenames(mapping, outputColumns));
+
+// Reverses canonicalizeRows so processed rows are written back under the file's own headers
+export const restoreHeaders = (
+  rows: CSVRow[],
+  mapping: HeaderMapping,
+  outputColumns: OutputColumn[] = DEFAULT_OUTPUT_COLUMNS
+): CSVRow[] => renameKeys(rows, invert(getRenames(mapping, outputColumns)));
+
+// Row-at-a-time canonicalizeRows and restoreHeaders, for files processed as they stream in
+export const createHeaderRenamer = (
+  mapping: HeaderMapping,
+  outputColumns: OutputColumn[] = DEFAULT_OUTPUT_COLUMNS
+) => {
+  const toCanonical = getRenames(mapping, outputColumns);
+  const toFile = invert(toCanonical);
+  return {
+    canonicalize: (row: CSVRow): CSVRow => renameRow(row, toCanonical),
+    restore: (row: CSVRow): CSVRow => renameRow(row, toFile),
+    canonicalHeader: (header: string): string => toCanonical.get(header) ?? header,
+    fileHeader: (header: string): string => toFile.get(header) ?? header,
+  };
+};
+
+// Saves a header mapping as a named profile
+export const createSchemaProfile = (
+  name: string,
+  mapping: HeaderMapping
+): SchemaProfile => {
+  const now = new Date().toISOString();
+  return {
+    id: generateId(),
+    name,
+    fields: { ...mapping.fields },
+    outputs: { ...mapping.outputs },
+    createdAt: now,
+    updatedAt: now,
+  };
+};
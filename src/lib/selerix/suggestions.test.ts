@@ -0,0 +1,75 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { makeRow, makeRule } from "./fixtures";
+import { suggestRules } from "./suggestions";
+
+describe("suggestRules", () => {
+  const rules = [
+    makeRule("29-31", "AETN", {
+      outputs: { carrier: "AETN", coverage: "1", level: "2", plan: "HLTH" },
+    }),
+  ];
+  const rows = [
+    makeRow({ "Empe Amt/Pct": "30" }),
+    makeRow({ "Empe Amt/Pct": "45.10" }),
+    makeRow({ "Empe Amt/Pct": "45.30" }),
+    makeRow({ "Empe Amt/Pct": "45.30" }),
+    makeRow({ "Empe Amt/Pct": "60" }),
+    makeRow({ "Empe Amt/Pct": "5", Deduction: "1720" }),
+    makeRow({ "Empe Amt/Pct": "n/a" }),
+  ];
+
+  it("clusters uncovered amounts per deduction and pads each range by half the tolerance", () => {
+    const suggestions = suggestRules(rows, rules);
+    assert.deepEqual(
+      suggestions.map(({ deduction, rule, amounts, rowCount }) => [
+        deduction,
+        rule.empAmount,
+        amounts,
+        rowCount,
+      ]),
+      [
+        ["1720", "4.75-5.25", [5], 1],
+        ["2400", "44.85-45.55", [45.1, 45.3], 3],
+        ["2400", "59.75-60.25", [60], 1],
+      ]
+    );
+  });
+
+  it("copies outputs from the nearest rule except carrier, plan and coverage", () => {
+    const [other, tier] = suggestRules(rows, rules);
+    assert.deepEqual(tier.rule.outputs, {
+      carrier: "",
+      coverage: "",
+      level: "2",
+      plan: "",
+    });
+    // Deductions without rules take the output column defaults
+    assert.deepEqual(other.rule.outputs, {
+      carrier: "",
+      coverage: "",
+      level: "1",
+      plan: "",
+    });
+  });
+
+  it("stops short of an existing rule's range and honours the tolerance", () => {
+    const [near] = suggestRules([makeRow({ "Empe Amt/Pct": "31.20" })], rules);
+    assert.deepEqual(near.range, { min: 31.01, max: 31.45 });
+    assert.equal(
+      suggestRules(rows, rules, { tolerance: 0.1 }).filter(
+        (suggestion) => suggestion.deduction === "2400"
+      ).length,
+      3
+    );
+  });
+
+  it("works on the monthly amount the engine matches on", () => {
+    const [suggestion] = suggestRules(
+      [makeRow({ "Empe Amt/Pct": "10" })],
+      rules,
+      { payFrequency: "weekly" }
+    );
+    assert.deepEqual(suggestion.amounts, [43.33]);
+  });
+});
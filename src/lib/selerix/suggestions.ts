@@ -0,0 +1,149 @@
+import { resolveRowAmount } from "./amounts";
+import { findMatchingRule, resolveProcessOptions } from "./engine";
+import { isLookupKey } from "./lookups";
+import { createEmptyRule, parseAmountRange } from "./rules";
+import type { AmountRange, CSVRow, ProcessOptions, Rule } from "./types";
+
+// Amounts closer together than this are treated as the same premium, e.g. rounding differences between pay periods
+export const DEFAULT_SUGGESTION_TOLERANCE = 0.5;
+
+export type SuggestionOptions = ProcessOptions & {
+  tolerance?: number; // Largest gap between amounts in one cluster, also used to pad the proposed range
+};
+
+// A candidate rule for a cluster of uploaded amounts no existing rule matches
+export type RuleSuggestion = {
+  deduction: string;
+  range: AmountRange; // Proposed amount range
+  amounts: number[]; // Distinct amounts observed in the cluster, ascending
+  rowCount: number; // Rows the candidate rule would match
+  rule: Rule; // Rule ready to add, with outputs copied from the nearest rule for the deduction except carrier, plan and coverage
+};
+
+const roundCents = (value: number): number => Math.round(value * 100) / 100;
+
+// Formats a range the way rules store amounts, e.g. "65" or "64.75-65.25"
+const formatRange = ({ min, max }: AmountRange): string =>
+  min === max ? String(min) : `${min}-${max}`;
+
+// Groups sorted amounts so that neighbours within the tolerance share a cluster
+const clusterAmounts = (amounts: number[], tolerance: number): number[][] => {
+  const clusters: number[][] = [];
+  amounts.forEach((amount) => {
+    const current = clusters[clusters.length - 1];
+    if (current && amount - current[current.length - 1] <= tolerance) {
+      current.push(amount);
+    } else {
+      clusters.push([amount]);
+    }
+  });
+  return clusters;
+};
+
+// Pads a cluster by half the tolerance on each side without reaching into an existing rule's range
+const proposeRange = (
+  cluster: number[],
+  existing: AmountRange[],
+  tolerance: number
+): AmountRange => {
+  const low = cluster[0];
+  const high = cluster[cluster.length - 1];
+  // Padding never takes a positive premium below zero
+  let min = roundCents(low - tolerance / 2);
+  if (low >= 0) min = Math.max(min, 0);
+  let max = roundCents(high + tolerance / 2);
+  existing.forEach((range) => {
+    if (range.max < low) min = Math.max(min, roundCents(range.max + 0.01));
+    if (range.min > high) max = Math.min(max, roundCents(range.min - 0.01));
+  });
+  // The cluster itself is always covered, even when an existing range sits within a cent of it
+  return { min: Math.min(min, low), max: Math.max(max, high) };
+};
+
+// Distance between two ranges, zero when they touch or overlap
+const rangeDistance = (a: AmountRange, b: AmountRange): number =>
+  Math.max(0, a.min - b.max, b.min - a.max);
+
+// Proposes rules for the (Deduction, amount) combinations in the data that no existing rule matches
+// Amounts are clustered per deduction on the monthly amount the engine matches on, so the
+// candidate ranges work with the current pay frequency and monthly column settings
+// A new premium tier usually means a different coverage, so carrier, plan and coverage are left
+// for the user to choose rather than copied from the nearest rule
+export const suggestRules = (
+  rows: CSVRow[],
+  rules: Rule[],
+  options: SuggestionOptions = {}
+): RuleSuggestion[] => {
+  const { tolerance = DEFAULT_SUGGESTION_TOLERANCE, ...processOptions } =
+    options;
+  const resolved = resolveProcessOptions(processOptions);
+
+  // Row counts per uncovered amount, per deduction
+  const observed = new Map<string, Map<number, number>>();
+  rows.forEach((row) => {
+    const deduction = row.Deduction?.trim() ?? "";
+    if (!deduction) return;
+    const { amount } = resolveRowAmount(row, resolved);
+    if (isNaN(amount)) return;
+    if (findMatchingRule(row, amount, rules, resolved.matchStrategy) !== -1)
+      return;
+    const counts = observed.get(deduction) ?? new Map<number, number>();
+    counts.set(amount, (counts.get(amount) ?? 0) + 1);
+    observed.set(deduction, counts);
+  });
+
+  const suggestions: RuleSuggestion[] = [];
+  [...observed.keys()].sort().forEach((deduction) => {
+    const counts = observed.get(deduction)!;
+    const existing = rules
+      .filter((rule) => rule.deduction === deduction)
+      .map((rule) => ({ rule, range: parseAmountRange(rule.empAmount) }))
+      .filter(
+        (entry): entry is { rule: Rule; range: AmountRange } =>
+          entry.range !== null
+      );
+    const amounts = [...counts.keys()].sort((a, b) => a - b);
+
+    clusterAmounts(amounts, tolerance).forEach((cluster) => {
+      const range = proposeRange(
+        cluster,
+        existing.map((entry) => entry.range),
+        tolerance
+      );
+      const nearest = existing.reduce<(typeof existing)[number] | null>(
+        (best, entry) =>
+          !best ||
+          rangeDistance(entry.range, range) < rangeDistance(best.range, range)
+            ? entry
+            : best,
+        null
+      );
+      const rule = createEmptyRule(resolved.outputColumns);
+      suggestions.push({
+        deduction,
+        range,
+        amounts: cluster,
+        rowCount: cluster.reduce(
+          (sum, amount) => sum + counts.get(amount)!,
+          0
+        ),
+        rule: {
+          ...rule,
+          deduction,
+          empAmount: formatRange(range),
+          outputs: nearest
+            ? Object.fromEntries(
+                Object.keys(rule.outputs).map((key) => [
+                  key,
+                  isLookupKey(key)
+                    ? rule.outputs[key]
+                    : nearest.rule.outputs[key] ?? rule.outputs[key],
+                ])
+              )
+            : rule.outputs,
+        },
+      });
+    });
+  });
+  return suggestions;
+};
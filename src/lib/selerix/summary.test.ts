@@ -0,0 +1,74 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { DEFAULT_OUTPUT_COLUMNS } from "./default-rules";
+import { processRows } from "./engine";
+import { makeRow, makeRule } from "./fixtures";
+import { formatMatchRate, summarizeRun, summaryToRows } from "./summary";
+
+describe("summarizeRun", () => {
+  // Two AETN rows, one CIGNA row and one row no rule matches
+  const result = processRows(
+    [
+      makeRow({ "Empe Amt/Pct": "10.10" }),
+      makeRow({ "Empe Amt/Pct": "10.20" }),
+      makeRow({ "Empe Amt/Pct": "30" }),
+      makeRow({ "Empe Amt/Pct": "5", Deduction: "1720" }),
+    ],
+    [makeRule("10-11"), makeRule("30", "CIGNA")]
+  );
+  const summary = summarizeRun(result, DEFAULT_OUTPUT_COLUMNS);
+
+  it("totals rows, matches and monthly premium to the cent", () => {
+    assert.equal(summary.rows, 4);
+    assert.equal(summary.matched, 3);
+    assert.equal(summary.matchRate, 0.75);
+    assert.equal(summary.monthlyPremium, 55.3);
+  });
+
+  it("groups each output column by value, largest premium first and blanks last", () => {
+    const carrier = summary.byColumn.find(
+      (column) => column.columnKey === "carrier"
+    );
+    assert.deepEqual(carrier?.groups, [
+      { value: "CIGNA", rows: 1, monthlyPremium: 30 },
+      { value: "AETN", rows: 2, monthlyPremium: 20.3 },
+      { value: "", rows: 1, monthlyPremium: 5 },
+    ]);
+  });
+
+  it("reports the match rate per deduction code", () => {
+    assert.deepEqual(
+      summary.byDeduction.map(({ deduction, rows, matched, matchRate }) => ({
+        deduction,
+        rows,
+        matched,
+        matchRate,
+      })),
+      [
+        { deduction: "1720", rows: 1, matched: 0, matchRate: 0 },
+        { deduction: "2400", rows: 3, matched: 3, matchRate: 1 },
+      ]
+    );
+  });
+
+  it("flattens into report rows starting with the total", () => {
+    const rows = summaryToRows(summary);
+    assert.deepEqual(rows[0], {
+      Grouping: "Total",
+      Value: "",
+      Rows: "4",
+      Matched: "3",
+      "Match Rate": "75.0%",
+      "Monthly Premium": "55.30",
+    });
+    // Carrier has three values; coverage, level and plan a rule value and a blank each
+    assert.equal(rows.length, 1 + 9 + 2);
+  });
+});
+
+describe("formatMatchRate", () => {
+  it("shows one decimal place", () => {
+    assert.equal(formatMatchRate(0.975), "97.5%");
+    assert.equal(formatMatchRate(0), "0.0%");
+  });
+});
@@ -0,0 +1,172 @@
+import { serializeCSV } from "./csv";
+import type {
+  CSVRow,
+  OutputColumn,
+  ProcessResult,
+  RowResult,
+} from "./types";
+
+// Row count and monthly premium for one value of a grouping
+export type SummaryGroup = {
+  value: string; // Output value (e.g. carrier code), or "" for blank cells
+  rows: number;
+  monthlyPremium: number; // Sum of the monthly amounts rows were matched on
+};
+
+// Totals for each value of one output column
+export type OutputColumnSummary = {
+  columnKey: string;
+  header: string;
+  label: string;
+  groups: SummaryGroup[];
+};
+
+// Match rate for one deduction code
+export type DeductionSummary = {
+  deduction: string;
+  rows: number;
+  matched: number;
+  matchRate: number; // Matched share of rows, 0 to 1
+  monthlyPremium: number;
+};
+
+// Totals of a processing run for reconciling against carrier invoices
+export type RunSummary = {
+  rows: number;
+  matched: number;
+  matchRate: number;
+  monthlyPremium: number;
+  byColumn: OutputColumnSummary[];
+  byDeduction: DeductionSummary[];
+};
+
+// Rounds to whole cents so sums of many amounts do not show float noise
+const roundCents = (value: number): number => Math.round(value * 100) / 100;
+
+// Monthly amount a row contributes to premium totals; rows whose amount could not be read count as zero
+const premiumOf = (amount: number): number => (isNaN(amount) ? 0 : amount);
+
+// Sorts groups by premium, largest first, with blank values last
+const byPremium = (a: SummaryGroup, b: SummaryGroup): number => {
+  if (a.value === "" || b.value === "") return a.value === "" ? 1 : -1;
+  return b.monthlyPremium - a.monthlyPremium || a.value.localeCompare(b.value);
+};
+
+// Accumulates run totals one row at a time, so a run can be summarized without keeping its rows
+export const createSummaryBuilder = (outputColumns: OutputColumn[]) => {
+  const columnGroups = outputColumns.map(() => new Map<string, SummaryGroup>());
+  const deductions = new Map<string, DeductionSummary>();
+  let rows = 0;
+  let matched = 0;
+  let monthlyPremium = 0;
+
+  return {
+    add(row: CSVRow, result: RowResult): void {
+      const premium = premiumOf(result.amount);
+      rows++;
+      if (result.ruleIndex !== null) matched++;
+      monthlyPremium += premium;
+
+      outputColumns.forEach((column, index) => {
+        const groups = columnGroups[index];
+        const value = (row[column.header] ?? "").trim();
+        const group = groups.get(value) ?? { value, rows: 0, monthlyPremium: 0 };
+        group.rows++;
+        group.monthlyPremium += premium;
+        groups.set(value, group);
+      });
+
+      const deduction = (row.Deduction ?? "").trim();
+      const summary = deductions.get(deduction) ?? {
+        deduction,
+        rows: 0,
+        matched: 0,
+        matchRate: 0,
+        monthlyPremium: 0,
+      };
+      summary.rows++;
+      if (result.ruleIndex !== null) summary.matched++;
+      summary.monthlyPremium += premium;
+      deductions.set(deduction, summary);
+    },
+
+    finish(): RunSummary {
+      return {
+        rows,
+        matched,
+        matchRate: rows > 0 ? matched / rows : 0,
+        monthlyPremium: roundCents(monthlyPremium),
+        byColumn: outputColumns.map((column, index) => ({
+          columnKey: column.key,
+          header: column.header,
+          label: column.label,
+          groups: [...columnGroups[index].values()]
+            .map((group) => ({
+              ...group,
+              monthlyPremium: roundCents(group.monthlyPremium),
+            }))
+            .sort(byPremium),
+        })),
+        byDeduction: [...deductions.values()]
+          .map((summary) => ({
+            ...summary,
+            matchRate: summary.matched / summary.rows,
+            monthlyPremium: roundCents(summary.monthlyPremium),
+          }))
+          .sort((a, b) => a.deduction.localeCompare(b.deduction)),
+      };
+    },
+  };
+};
+
+// Summarizes a processing run: row counts and monthly premium per value of each output column
+// (carrier, plan, coverage, …) and the match rate per deduction code
+// Pass the run with overrides applied so the totals match the file that will be sent
+export const summarizeRun = (
+  result: ProcessResult,
+  outputColumns: OutputColumn[]
+): RunSummary => {
+  const builder = createSummaryBuilder(outputColumns);
+  result.rows.forEach((row, index) => builder.add(row, result.results[index]));
+  return builder.finish();
+};
+
+// Formats a match rate for display, e.g. "97.5%"
+export const formatMatchRate = (rate: number): string =>
+  `${(rate * 100).toFixed(1)}%`;
+
+// Flattens the summary into report rows, one section per grouping, for the CSV and Excel downloads
+export const summaryToRows = (
+  summary: RunSummary
+): Record<string, string>[] => [
+  {
+    Grouping: "Total",
+    Value: "",
+    Rows: String(summary.rows),
+    Matched: String(summary.matched),
+    "Match Rate": formatMatchRate(summary.matchRate),
+    "Monthly Premium": summary.monthlyPremium.toFixed(2),
+  },
+  ...summary.byColumn.flatMap((column) =>
+    column.groups.map((group) => ({
+      Grouping: column.label,
+      Value: group.value,
+      Rows: String(group.rows),
+      Matched: "",
+      "Match Rate": "",
+      "Monthly Premium": group.monthlyPremium.toFixed(2),
+    }))
+  ),
+  ...summary.byDeduction.map((deduction) => ({
+    Grouping: "Deduction",
+    Value: deduction.deduction,
+    Rows: String(deduction.rows),
+    Matched: String(deduction.matched),
+    "Match Rate": formatMatchRate(deduction.matchRate),
+    "Monthly Premium": deduction.monthlyPremium.toFixed(2),
+  })),
+];
+
+// Serializes the summary to CSV for reconciling against carrier invoices
+export const summaryToCSV = (summary: RunSummary): string =>
+  serializeCSV(summaryToRows(summary));
@@ -0,0 +1,224 @@
+// A column that rules can populate in the output file
+export type OutputColumn = {
+  key: string; // Identifier used in Rule.outputs, e.g. "carrier"
+  header: string; // Column header written in the output, e.g. "Hlth Ins Carrie"
+  label: string; // Name shown in the rule editor
+  required?: boolean; // Every rule must give this column a value
+  defaultValue?: string; // Value new rules start with
+};
+
+// A code rules can write, with the description shown next to it
+export type LookupCode = {
+  code: string;
+  description: string; // e.g. "Employee + Spouse"
+};
+
+export type PlanCode = LookupCode & {
+  carrier: string; // Carrier offering the plan
+};
+
+export type CoverageCode = LookupCode & {
+  plans: string[]; // Plans the coverage tier is valid for
+};
+
+// The carrier, plan and coverage codes rules may use, and which combinations are valid
+// Checks against a list are skipped while the list is empty
+export type CodeLookup = {
+  carriers: LookupCode[];
+  plans: PlanCode[];
+  coverages: CoverageCode[];
+};
+
+// How a condition tests a row's value in its column
+// "equals" and "in" compare trimmed text, "regex" tests a pattern, "range" compares numerically, "empty" checks for a blank value
+export type ConditionOperator = "equals" | "in" | "regex" | "range" | "empty";
+
+// A test against any CSV column, e.g. Action Flag equals "A" or EmployeeIdent matching "^EX"
+export type RuleCondition = {
+  column: string; // CSV header the condition reads
+  operator: ConditionOperator;
+  value: string; // Comma-separated list for "in", pattern for "regex", "min-max" for "range", unused for "empty"
+};
+
+// How a rule's conditions combine: "all" (AND) or "any" (OR)
+export type ConditionMode = "all" | "any";
+
+// Defines the structure for processing rules that determine which output fields to populate
+// Each rule maps a specific deduction code and employee amount to values for the rule set's output columns
+// The deduction code and amount are a shorthand that always applies; conditions narrow the match further
+export type Rule = {
+  deduction: string; // Deduction code from the CSV
+  empAmount: string; // Employee amount/percentage (can be single value "0" or range "65-65.5")
+  effectiveFrom?: string; // First day the rule applies (YYYY-MM-DD), open-ended when blank
+  effectiveTo?: string; // Last day the rule applies (YYYY-MM-DD), open-ended when blank
+  conditions?: RuleCondition[]; // Extra tests on other columns, e.g. a division or location column
+  conditionMode?: ConditionMode; // Defaults to "all"
+  outputs: Record<string, string>; // Values to populate, keyed by output column key
+};
+
+// Defines the structure of each row in the CSV file
+// Uses string indexing to allow dynamic access to properties
+export type CSVRow = {
+  [key: string]: string; // Allows accessing properties using string keys
+  SSN: string;
+  "Empe Amt/Pct": string; // Employee amount/percentage
+  "Empe Amt/Pct Montly": string; // Monthly employee amount/percentage
+  "Start Date": string;
+  Deduction: string; // Deduction code
+  "End Date": string;
+  "Hlth Ins Carrie": string; // Health insurance carrier (to be populated)
+  "Hlth Ins Cvrage": string; // Health insurance coverage (to be populated)
+  "Hlth Ins Level": string; // Health insurance level (to be populated)
+  "Hlth Ins Plan": string; // Health insurance plan (to be populated)
+  "Action Flag": string;
+  EmployeeIdent: string;
+};
+
+// Input columns the engine reads, independent of how a particular export names them
+export type LogicalField =
+  | "ssn"
+  | "amount"
+  | "monthlyAmount"
+  | "deduction"
+  | "startDate"
+  | "endDate";
+
+// Which header in an uploaded file holds each logical field and output column
+export type HeaderMapping = {
+  fields: Partial<Record<LogicalField, string>>; // Unmapped fields are missing from the file
+  outputs: Record<string, string>; // Output column key → header; unmapped columns are added to the file
+};
+
+// A saved header mapping for one Selerix export layout
+export type SchemaProfile = HeaderMapping & {
+  id: string;
+  name: string;
+  createdAt: string; // ISO timestamp
+  updatedAt: string; // ISO timestamp
+};
+
+// Inclusive numeric range a rule's amount covers
+export type AmountRange = {
+  min: number;
+  max: number;
+};
+
+// Inclusive range of days, as day numbers; open ends are -Infinity / Infinity
+export type DateWindow = {
+  start: number;
+  end: number;
+};
+
+// Validation problems found for a single rule, keyed by its position in the rule list
+export type RuleValidationResult = {
+  index: number;
+  errors: string[];
+};
+
+// How often employees are paid, i.e. what period "Empe Amt/Pct" covers
+export type PayFrequency = "weekly" | "bi-weekly" | "semi-monthly" | "monthly";
+
+// How the "Empe Amt/Pct Montly" column takes part in matching
+// "ignore" leaves it alone, "use" matches on it when it holds a number, "fill" writes the normalized amount into it
+export type MonthlyColumnMode = "ignore" | "use" | "fill";
+
+// Where the amount used for matching a row came from
+export type AmountBasis = "monthly-column" | "converted" | "as-is";
+
+// How to choose between several rules that match the same row
+// "first" takes the earliest rule, "error" refuses to process ambiguous rules, "most-specific" takes the narrowest range
+export type MatchStrategy = "first" | "error" | "most-specific";
+
+// What to do when the input already has a value in an output column the matching rule populates
+// "overwrite" always writes the rule value, "fill-blanks" only writes into empty cells,
+// "flag-conflicts" only writes into empty cells and reports cells whose value differs from the rule
+export type OverwritePolicy = "overwrite" | "fill-blanks" | "flag-conflicts";
+
+// How an output cell of a matched row compares before and after processing
+// filled: was blank and now has the rule value; overwritten: a different value was replaced;
+// unchanged: already had the rule value; kept: a different value was left alone;
+// conflict: a different value was left alone and flagged for review
+export type ChangeKind =
+  | "filled"
+  | "overwritten"
+  | "unchanged"
+  | "kept"
+  | "conflict";
+
+// The before/after values of one output cell
+export type CellChange = {
+  columnKey: string; // Output column key
+  header: string;
+  before: string; // Value in the input file
+  after: string; // Value written to the output
+  ruleValue: string; // Value the matching rule produced
+  kind: ChangeKind;
+};
+
+// Settings that control how rows are matched
+export type ProcessOptions = {
+  payFrequency?: PayFrequency; // Pay frequency of "Empe Amt/Pct"; amounts are normalized to monthly before matching
+  monthlyColumn?: MonthlyColumnMode;
+  matchStrategy?: MatchStrategy;
+  overwritePolicy?: OverwritePolicy;
+  outputColumns?: OutputColumn[]; // Columns rules populate, defaults to the four health insurance columns
+  codeLookup?: CodeLookup; // Codes rules are checked against, no restrictions by default
+};
+
+// Matching settings saved alongside the rules in a rule set
+export type RuleSetSettings = Required<
+  Omit<ProcessOptions, "outputColumns" | "codeLookup">
+>;
+
+// A named, saved collection of rules and the settings they were written for
+export type RuleSet = {
+  id: string;
+  name: string;
+  rules: Rule[];
+  settings: RuleSetSettings;
+  outputColumns: OutputColumn[]; // Columns the rules in this set populate
+  codeLookup: CodeLookup; // Carrier, plan and coverage codes the rules may use
+  isDefault?: boolean; // The rule set loaded when no other one has been chosen
+  version?: number; // Latest saved version, when the store keeps a history
+  createdAt: string; // ISO timestamp
+  updatedAt: string; // ISO timestamp
+};
+
+// The parts of a rule set a user edits, as exported and versioned
+export type RuleSetContent = Pick<
+  RuleSet,
+  "name" | "rules" | "settings" | "outputColumns" | "codeLookup"
+>;
+
+// Who saved a rule set and why, recorded with each version
+export type SaveInfo = {
+  author: string;
+  comment: string;
+};
+
+// An immutable snapshot of a rule set taken each time it is saved
+export type RuleSetVersion = SaveInfo & {
+  ruleSetId: string;
+  version: number; // Starts at 1 for each rule set
+  createdAt: string; // ISO timestamp
+  snapshot: RuleSetContent;
+};
+
+// Outcome of matching a single input row against the rules
+export type RowResult = {
+  rowIndex: number; // Position of the row in the input data
+  ruleIndex: number | null; // Position of the matching rule, or null when no rule matched
+  ruleKey: string | null; // Key of the matching rule when the row was processed (see ruleKey), as the rules may be edited afterwards
+  amount: number; // Monthly amount the row was matched on (NaN when the row has no numeric amount)
+  amountBasis: AmountBasis;
+  overridden?: string[]; // Output column keys set by a manual override rather than the rule
+  changes: CellChange[]; // One entry per output column when a rule matched, empty otherwise
+};
+
+// Everything produced by a processing run
+export type ProcessResult = {
+  rows: CSVRow[]; // Processed rows, in input order
+  results: RowResult[]; // Per-row match details, parallel to rows
+  matchedCount: number;
+  unmatchedCount: number;
+};
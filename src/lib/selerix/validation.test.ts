@@ -0,0 +1,87 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { makeRow } from "./fixtures";
+import { checkSSN, DEFAULT_ROW_VALIDATION, validateRow } from "./validation";
+
+describe("checkSSN", () => {
+  it("accepts nine digits with or without separators", () => {
+    assert.equal(checkSSN("123456789"), null);
+    assert.equal(checkSSN("123-45-6789"), null);
+    assert.equal(checkSSN("123 45 6789"), null);
+  });
+
+  it("rejects wrong lengths and numbers the SSA never issues", () => {
+    assert.match(checkSSN("12345678")!, /9 digits/);
+    assert.match(checkSSN("12345678a")!, /9 digits/);
+    ["000456789", "666456789", "912456789"].forEach((ssn) =>
+      assert.match(checkSSN(ssn)!, /area number/)
+    );
+    assert.match(checkSSN("123006789")!, /group number/);
+    assert.match(checkSSN("123450000")!, /serial number/);
+  });
+});
+
+describe("validateRow", () => {
+  it("finds nothing wrong with a clean row", () => {
+    assert.deepEqual(validateRow(makeRow(), 0), []);
+    assert.deepEqual(
+      validateRow(
+        makeRow({ "Start Date": "01/01/2026", "End Date": "12/31/2026" }),
+        0
+      ),
+      []
+    );
+  });
+
+  it("reports each problem cell with its check and severity", () => {
+    const issues = validateRow(
+      makeRow({
+        SSN: "000-12-3456",
+        "Empe Amt/Pct": "30.00abc",
+        "Empe Amt/Pct Montly": "n/a",
+        "Start Date": "02/01/2026",
+        "End Date": "01/01/2026",
+      }),
+      4
+    );
+    assert.deepEqual(
+      issues.map(({ rowIndex, field, check, severity }) => [
+        rowIndex,
+        field,
+        check,
+        severity,
+      ]),
+      [
+        [4, "SSN", "ssn", "error"],
+        [4, "Empe Amt/Pct", "amount", "error"],
+        [4, "Empe Amt/Pct Montly", "monthlyAmount", "warning"],
+        [4, "End Date", "dateOrder", "error"],
+      ]
+    );
+    assert.match(issues[1].message, /will be read as 30/);
+  });
+
+  it("flags missing amounts and unreadable dates but allows blank dates", () => {
+    const issues = validateRow(
+      makeRow({ "Empe Amt/Pct": "", "Start Date": "soon" }),
+      0
+    );
+    assert.deepEqual(
+      issues.map((issue) => issue.message),
+      ["Amount is missing", 'Start Date "soon" is not a date']
+    );
+  });
+
+  it("skips checks that are turned off and uses the configured severity", () => {
+    const row = makeRow({ SSN: "bad", "Empe Amt/Pct": "x" });
+    const issues = validateRow(row, 0, {
+      ...DEFAULT_ROW_VALIDATION,
+      ssn: "off",
+      amount: "warning",
+    });
+    assert.deepEqual(
+      issues.map((issue) => [issue.check, issue.severity]),
+      [["amount", "warning"]]
+    );
+  });
+});
@@ -0,0 +1,146 @@
+import { parseDate } from "./dates";
+import type { CSVRow } from "./types";
+
+// Checks the validation pass can run; each one can be reported as an error, a warning or turned off
+// ssn: nine digits following SSA numbering rules
+// dates: Start Date and End Date are recognizable dates
+// dateOrder: Start Date is not after End Date
+// amount: "Empe Amt/Pct" is present and numeric
+// monthlyAmount: "Empe Amt/Pct Montly" is numeric when filled in
+export type RowCheck = "ssn" | "dates" | "dateOrder" | "amount" | "monthlyAmount";
+
+export type RowIssueSeverity = "error" | "warning";
+
+// Severity for each check, or "off" to skip it
+export type RowValidationOptions = Record<RowCheck, RowIssueSeverity | "off">;
+
+// A problem with one cell of an input row
+export type RowIssue = {
+  rowIndex: number; // Position of the row in the input data
+  field: string; // Header of the problem cell
+  check: RowCheck;
+  severity: RowIssueSeverity;
+  message: string;
+};
+
+export const DEFAULT_ROW_VALIDATION: RowValidationOptions = {
+  ssn: "error",
+  dates: "error",
+  dateOrder: "error",
+  amount: "error",
+  monthlyAmount: "warning",
+};
+
+// Display labels for the row checks
+export const ROW_CHECK_LABELS: Record<RowCheck, string> = {
+  ssn: "SSN format",
+  dates: "Dates are readable",
+  dateOrder: "Start date on or before end date",
+  amount: "Amount is numeric",
+  monthlyAmount: "Monthly amount is numeric",
+};
+
+// Checks an SSN against the SSA numbering rules, returning why it is invalid or null when it is valid
+// SSNs carry no check digit, so the area (first 3), group (middle 2) and serial (last 4) ranges are what can be checked
+// Dashes and spaces are allowed between the parts
+export const checkSSN = (value: string): string | null => {
+  const digits = value.replace(/[-\s]/g, "");
+  if (!/^\d{9}$/.test(digits)) return "SSN must have 9 digits";
+  const area = digits.slice(0, 3);
+  if (area === "000" || area === "666" || area[0] === "9")
+    return "SSN area number cannot be 000, 666 or 900-999";
+  if (digits.slice(3, 5) === "00") return "SSN group number cannot be 00";
+  if (digits.slice(5) === "0000") return "SSN serial number cannot be 0000";
+  return null;
+};
+
+// Checks a numeric cell, returning why it cannot be used or null when it is a plain number
+// Values like "30.00abc" are flagged even though parseFloat would read the leading number
+const checkNumber = (value: string, label: string): string | null => {
+  if (!isNaN(Number(value))) return null;
+  const leading = parseFloat(value);
+  return isNaN(leading)
+    ? `${label} "${value}" is not a number`
+    : `${label} "${value}" is not a plain number and will be read as ${leading}`;
+};
+
+// Validates a single row, returning its issues in column order
+export const validateRow = (
+  row: CSVRow,
+  rowIndex: number,
+  options: RowValidationOptions = DEFAULT_ROW_VALIDATION
+): RowIssue[] => {
+  const issues: RowIssue[] = [];
+  const report = (check: RowCheck, field: string, message: string | null) => {
+    const severity = options[check];
+    if (message && severity !== "off") {
+      issues.push({ rowIndex, field, check, severity, message });
+    }
+  };
+
+  report("ssn", "SSN", checkSSN(row.SSN ?? ""));
+
+  const amount = (row["Empe Amt/Pct"] ?? "").trim();
+  report(
+    "amount",
+    "Empe Amt/Pct",
+    amount ? checkNumber(amount, "Amount") : "Amount is missing"
+  );
+  const monthly = (row["Empe Amt/Pct Montly"] ?? "").trim();
+  if (monthly) {
+    report(
+      "monthlyAmount",
+      "Empe Amt/Pct Montly",
+      checkNumber(monthly, "Monthly amount")
+    );
+  }
+
+  // Blank dates are allowed: they leave the row open-ended
+  const startText = (row["Start Date"] ?? "").trim();
+  const endText = (row["End Date"] ?? "").trim();
+  const start = parseDate(startText);
+  const end = parseDate(endText);
+  if (startText && !start)
+    report("dates", "Start Date", `Start Date "${startText}" is not a date`);
+  if (endText && !end)
+    report("dates", "End Date", `End Date "${endText}" is not a date`);
+  if (start && end && start > end)
+    report("dateOrder", "End Date", "End Date is before Start Date");
+
+  return issues;
+};
+
+// Validates every row after parsing
+export const validateRows = (
+  rows: CSVRow[],
+  options: RowValidationOptions = DEFAULT_ROW_VALIDATION
+): RowIssue[] => rows.flatMap((row, index) => validateRow(row, index, options));
+
+// Identifies a cell for looking up its issues
+export const cellKey = (rowIndex: number, field: string): string =>
+  `${rowIndex}:${field}`;
+
+// Indexes issues by cell so a grid can highlight problem cells
+export const indexIssuesByCell = (
+  issues: RowIssue[]
+): Map<string, RowIssue[]> => {
+  const byCell = new Map<string, RowIssue[]>();
+  issues.forEach((issue) => {
+    const key = cellKey(issue.rowIndex, issue.field);
+    byCell.set(key, [...(byCell.get(key) ?? []), issue]);
+  });
+  return byCell;
+};
+
+// Groups issues by row, in row order
+export const groupIssuesByRow = (
+  issues: RowIssue[]
+): { rowIndex: number; issues: RowIssue[] }[] => {
+  const byRow = new Map<number, RowIssue[]>();
+  issues.forEach((issue) => {
+    byRow.set(issue.rowIndex, [...(byRow.get(issue.rowIndex) ?? []), issue]);
+  });
+  return [...byRow.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([rowIndex, rowIssues]) => ({ rowIndex, issues: rowIssues }));
+};
@@ -0,0 +1,77 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import ExcelJS from "exceljs";
+import {
+  getSheetNames,
+  parseSheet,
+  readWorkbook,
+  WorkbookError,
+  writeWorkbook,
+} from "./workbook";
+
+describe("writeWorkbook and readWorkbook", () => {
+  it("round-trips rows as text, keeping leading zeros and sanitizing sheet names", async () => {
+    const rows = [
+      { SSN: "012345678", Deduction: "2400", "Empe Amt/Pct": "30.10" },
+      { SSN: "987654321", Deduction: "0170", "Empe Amt/Pct": "" },
+    ];
+    const data = await writeWorkbook([
+      { name: "Processed: 2026/01", rows },
+      { name: "Summary", rows: [], headers: ["Grouping", "Value"] },
+    ]);
+    const workbook = await readWorkbook(data);
+    assert.deepEqual(getSheetNames(workbook), ["Processed  2026 01", "Summary"]);
+    assert.deepEqual(parseSheet(workbook, "Processed  2026 01"), {
+      headers: ["SSN", "Deduction", "Empe Amt/Pct"],
+      rows,
+    });
+    assert.deepEqual(parseSheet(workbook, "Summary").headers, [
+      "Grouping",
+      "Value",
+    ]);
+  });
+
+  it("rejects bytes that are not an .xlsx workbook", async () => {
+    await assert.rejects(
+      readWorkbook(new TextEncoder().encode("SSN,Deduction\n")),
+      (error: unknown) =>
+        error instanceof WorkbookError &&
+        error.message.startsWith("Could not read workbook")
+    );
+  });
+});
+
+describe("parseSheet", () => {
+  it("reads numbers raw unless a digit-only format gives them leading zeros, and dates as ISO", async () => {
+    const source = new ExcelJS.Workbook();
+    const sheet = source.addWorksheet("Export");
+    sheet.addRow(["SSN", "Empe Amt/Pct", "Start Date", "Deduction"]);
+    const row = sheet.addRow([12345678, 30.1, new Date(Date.UTC(2026, 0, 15)), 170]);
+    row.getCell(1).numFmt = "000-00-0000";
+    row.getCell(2).numFmt = '"$"#,##0.00';
+    row.getCell(4).numFmt = "0000";
+    const workbook = await readWorkbook(
+      new Uint8Array(await source.xlsx.writeBuffer())
+    );
+    assert.deepEqual(parseSheet(workbook, "Export").rows, [
+      {
+        SSN: "012-34-5678",
+        "Empe Amt/Pct": "30.1",
+        "Start Date": "2026-01-15",
+        Deduction: "0170",
+      },
+    ]);
+  });
+
+  it("names a missing sheet", async () => {
+    const workbook = await readWorkbook(
+      await writeWorkbook([{ name: "Rows", rows: [] }])
+    );
+    assert.throws(
+      () => parseSheet(workbook, "Other"),
+      (error: unknown) =>
+        error instanceof WorkbookError &&
+        error.message === 'Sheet "Other" not found'
+    );
+  });
+});
@@ -0,0 +1,160 @@
+import ExcelJS from "exceljs";
+import {
+  createRowBuilder,
+  getCSVHeaders,
+  type CSVOptions,
+  type ParsedCSV,
+} from "./csv";
+import { toISODate } from "./dates";
+
+export type Workbook = ExcelJS.Workbook;
+
+// A sheet to write: its rows and, optionally, the column order
+export type WorkbookSheet = {
+  name: string;
+  rows: Record<string, string>[];
+  headers?: string[];
+};
+
+// Thrown when a workbook cannot be read or a sheet is missing
+export class WorkbookError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "WorkbookError";
+  }
+}
+
+// Excel allows at most 31 characters in a sheet name and none of : \ / ? * [ ]
+const MAX_SHEET_NAME_LENGTH = 31;
+
+// Checks whether a file name looks like an Excel workbook rather than CSV
+// Legacy .xls files are recognized so readWorkbook can reject them with a clear message
+export const isWorkbookFile = (fileName: string): boolean =>
+  /\.xlsx?$/i.test(fileName);
+
+// Reads an Excel (.xlsx) workbook from its bytes
+export const readWorkbook = async (
+  data: ArrayBuffer | Uint8Array
+): Promise<Workbook> => {
+  const workbook = new ExcelJS.Workbook();
+  try {
+    // ExcelJS reads any binary buffer here; its types only name Node's Buffer
+    await workbook.xlsx.load(
+      (data instanceof Uint8Array ? data : new Uint8Array(data)) as Buffer
+    );
+    return workbook;
+  } catch (error) {
+    throw new WorkbookError(
+      `Could not read workbook (only .xlsx files are supported): ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+};
+
+// Names of the sheets in a workbook, in tab order
+export const getSheetNames = (workbook: Workbook): string[] =>
+  workbook.worksheets.map((sheet) => sheet.name);
+
+// Renders a whole number through a digit-only format such as 000000000 or 000-00-0000,
+// the way Excel displays SSNs and codes stored as numbers; returns null for any other format
+const formatDigits = (value: number, numFmt: string | undefined): string | null => {
+  const format = (numFmt ?? "").replace(/[\\"]/g, "");
+  if (!Number.isInteger(value) || value < 0 || !/^[0\- ]*0[0\- ]*$/.test(format)) {
+    return null;
+  }
+  const slots = format.replace(/[^0]/g, "").length;
+  const digits = String(value).padStart(slots, "0");
+  const extra = digits.length - slots; // Digits that overflow the format go in front, as in Excel
+  let slot = 0;
+  return [...format]
+    .map((ch) => {
+      if (ch !== "0") return ch;
+      const text = slot === 0 ? digits.slice(0, extra + 1) : digits[extra + slot];
+      slot++;
+      return text;
+    })
+    .join("");
+};
+
+// Converts a cell to the text the engine reads
+// Numbers are read raw, so amounts formatted as currency or rounded for display match exactly,
+// except under digit-only formats, where the displayed text keeps the leading zeros of SSNs and codes
+// Dates become YYYY-MM-DD, which parseDate reads
+const cellText = (cell: ExcelJS.Cell): string => {
+  if (cell.type === ExcelJS.ValueType.Merge) return "";
+  const value = cell.value;
+  const text = (result: unknown): string => {
+    if (result === null || result === undefined) return "";
+    if (typeof result === "number") {
+      return formatDigits(result, cell.numFmt) ?? String(result);
+    }
+    if (result instanceof Date) return toISODate(result);
+    if (typeof result === "boolean") return result ? "TRUE" : "FALSE";
+    if (typeof result === "object") {
+      if ("richText" in result) {
+        return (result as ExcelJS.CellRichTextValue).richText
+          .map((part) => part.text)
+          .join("");
+      }
+      if ("text" in result) return String((result as ExcelJS.CellHyperlinkValue).text);
+      if ("result" in result) return text((result as ExcelJS.CellFormulaValue).result);
+      return ""; // Formulas without a cached result and error values
+    }
+    return String(result);
+  };
+  return text(value);
+};
+
+// Reads one sheet into row objects the same way parseCSV reads a file: the first row holds the headers
+export const parseSheet = (
+  workbook: Workbook,
+  sheetName: string,
+  options: CSVOptions = {}
+): ParsedCSV => {
+  const sheet = workbook.getWorksheet(sheetName);
+  if (!sheet) throw new WorkbookError(`Sheet "${sheetName}" not found`);
+  const builder = createRowBuilder(options);
+  const rows: ParsedCSV["rows"] = [];
+  const width = sheet.columnCount;
+  sheet.eachRow({ includeEmpty: false }, (row) => {
+    const record = Array.from({ length: width }, (_, index) =>
+      cellText(row.getCell(index + 1))
+    );
+    // Cells are never quoted, so trimming applies as it does to unquoted CSV fields
+    const built = builder.build(record);
+    if (built) rows.push(built);
+  });
+  return { headers: builder.headers, rows };
+};
+
+// Makes a name Excel accepts as a sheet name
+const toSheetName = (name: string): string =>
+  name.replace(/[:\\/?*[\]]/g, " ").slice(0, MAX_SHEET_NAME_LENGTH) || "Sheet";
+
+// Writes sheets to an .xlsx file
+// Every cell is written as text so SSNs and codes keep their leading zeros when the file is opened in Excel
+export const writeWorkbook = async (
+  sheets: WorkbookSheet[]
+): Promise<Uint8Array> => {
+  const workbook = new ExcelJS.Workbook();
+  sheets.forEach((sheet) => {
+    const headers = sheet.headers ?? getCSVHeaders(sheet.rows);
+    const worksheet = workbook.addWorksheet(toSheetName(sheet.name));
+    worksheet.addRows([
+      headers,
+      ...sheet.rows.map((row) => headers.map((h) => row[h] ?? "")),
+    ]);
+    worksheet.eachRow((row) =>
+      row.eachCell((cell) => {
+        cell.numFmt = "@";
+      })
+    );
+  });
+  // Node returns a Buffer and browsers an ArrayBuffer; wrap it so fs and Blobs both accept it
+  return new Uint8Array(await workbook.xlsx.writeBuffer());
+};
+
+// MIME type for .xlsx downloads
+export const XLSX_MIME_TYPE =
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet";
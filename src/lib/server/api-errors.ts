@@ -0,0 +1,53 @@
+import { NextResponse } from "next/server";
+import {
+  CSVParseError,
+  RuleAmbiguityError,
+  RuleSetFormatError,
+  RuleValidationError,
+  SchemaMappingError,
+} from "@/lib/selerix";
+import { RuleSetConflictError, RuleSetNotFoundError } from "./rule-set-store";
+
+// Thrown when a request is missing a field or sends one in the wrong form
+export class BadRequestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BadRequestError";
+  }
+}
+
+// Reads a JSON request body, reporting a malformed body as a bad request
+export const readJsonBody = async (request: Request): Promise<unknown> => {
+  try {
+    return await request.json();
+  } catch {
+    throw new BadRequestError("Request body must be valid JSON");
+  }
+};
+
+// Converts an error thrown by a route handler into a JSON error response
+export const errorResponse = (error: unknown) => {
+  if (
+    error instanceof RuleSetFormatError ||
+    error instanceof BadRequestError ||
+    error instanceof CSVParseError
+  ) {
+    return NextResponse.json({ error: error.message }, { status: 400 });
+  }
+  if (error instanceof RuleSetNotFoundError) {
+    return NextResponse.json({ error: error.message }, { status: 404 });
+  }
+  if (error instanceof RuleSetConflictError) {
+    return NextResponse.json({ error: error.message }, { status: 409 });
+  }
+  // The request was understood, but the file or rules cannot be processed as they are
+  if (
+    error instanceof SchemaMappingError ||
+    error instanceof RuleValidationError ||
+    error instanceof RuleAmbiguityError
+  ) {
+    return NextResponse.json({ error: error.message }, { status: 422 });
+  }
+  console.error(error);
+  return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+};
@@ -0,0 +1,80 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { BadRequestError } from "./api-errors";
+import { readMultipartUpload } from "./multipart";
+
+// A multipart POST with the given parts, in order
+const upload = (parts: [string, string | Blob][]) => {
+  const form = new FormData();
+  parts.forEach(([name, value]) => form.append(name, value));
+  return new Request("http://localhost/upload", { method: "POST", body: form });
+};
+
+// Reads the file part to text, along with the fields that came before it
+const readUpload = (request: Request) =>
+  readMultipartUpload(request, "file", async (file, fields) => ({
+    text: await new Response(file).text(),
+    fields: Object.fromEntries(fields),
+  }));
+
+// Checks that a promise fails with a BadRequestError carrying the message
+const rejectsWith = (promise: Promise<unknown>, message: string) =>
+  assert.rejects(
+    promise,
+    (error: unknown) =>
+      error instanceof BadRequestError && error.message === message
+  );
+
+describe("readMultipartUpload", () => {
+  it("streams the file part and passes the text fields and file parts sent before it", async () => {
+    const result = await readUpload(
+      upload([
+        ["ruleSetId", "abc"],
+        ["rules", new Blob(["[]"])],
+        ["file", new Blob(["SSN,Deduction\r\n"])],
+      ])
+    );
+    assert.deepEqual(result, {
+      text: "SSN,Deduction\r\n",
+      fields: { ruleSetId: "abc", rules: "[]" },
+    });
+  });
+
+  it("refuses fields sent after the file", async () => {
+    await rejectsWith(
+      readUpload(
+        upload([
+          ["file", new Blob(["SSN\r\n"])],
+          ["ruleSetId", "abc"],
+        ])
+      ),
+      'Send the "ruleSetId" field before the "file" field'
+    );
+  });
+
+  it("needs a multipart body with the file part", async () => {
+    await rejectsWith(
+      readUpload(upload([["ruleSetId", "abc"]])),
+      'Missing CSV upload in the "file" field'
+    );
+    await rejectsWith(
+      readUpload(
+        new Request("http://localhost/upload", {
+          method: "POST",
+          body: "SSN\r\n",
+          headers: { "content-type": "text/csv" },
+        })
+      ),
+      "Send the upload as multipart/form-data"
+    );
+  });
+
+  it("reports an error from onFile once the upload is read", async () => {
+    await assert.rejects(
+      readMultipartUpload(upload([["file", new Blob(["x"])]]), "file", () =>
+        Promise.reject(new Error("processing failed"))
+      ),
+      /processing failed/
+    );
+  });
+});
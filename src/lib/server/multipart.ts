@@ -0,0 +1,101 @@
+import busboy from "busboy";
+import { Readable } from "stream";
+import type { ReadableStream as NodeReadableStream } from "stream/web";
+import { BadRequestError } from "./api-errors";
+
+// Reads a multipart/form-data request as it arrives, without buffering the body
+// The part named fileField is handed to onFile as a stream while it is still being received.
+// Text fields, and other file parts (e.g. a rules file), are collected as text and passed along;
+// they must come before the file part, since by the time a later one arrives the file has been processed
+export const readMultipartUpload = <T>(
+  request: Request,
+  fileField: string,
+  onFile: (
+    file: ReadableStream<Uint8Array>,
+    fields: Map<string, string>
+  ) => Promise<T>
+): Promise<T> => {
+  const contentType = request.headers.get("content-type") ?? "";
+  if (!request.body || !contentType.startsWith("multipart/form-data")) {
+    return Promise.reject(
+      new BadRequestError("Send the upload as multipart/form-data")
+    );
+  }
+  const body = request.body;
+
+  return new Promise<T>((resolve, reject) => {
+    const fields = new Map<string, string>();
+    const fieldsRead: Promise<void>[] = []; // Other file parts still being read
+    let result: Promise<T> | null = null;
+    let failed = false;
+    const input = Readable.fromWeb(body as NodeReadableStream<Uint8Array>);
+
+    // Stops reading the body; the first error wins
+    // A file part being processed is ended with the error, and the caller hears of it only once
+    // onFile has settled, so nothing is still writing when it cleans up
+    const fail = (error: unknown) => {
+      if (failed) return;
+      failed = true;
+      input.destroy();
+      parser?.destroy(error instanceof Error ? error : undefined);
+      if (result) result.then(() => reject(error), () => reject(error));
+      else reject(error);
+    };
+    const tooLate = (name: string) =>
+      fail(
+        new BadRequestError(
+          `Send the "${name}" field before the "${fileField}" field`
+        )
+      );
+
+    let parser: busboy.Busboy | undefined;
+    try {
+      parser = busboy({ headers: { "content-type": contentType } });
+    } catch {
+      fail(new BadRequestError("Send the upload as multipart/form-data"));
+      return;
+    }
+
+    parser.on("field", (name, value) => {
+      if (result) tooLate(name);
+      else fields.set(name, value);
+    });
+    parser.on("file", (name, stream) => {
+      if (result) {
+        stream.resume();
+        tooLate(name);
+      } else if (name === fileField) {
+        const file = Readable.toWeb(stream) as ReadableStream<Uint8Array>;
+        result = Promise.all(fieldsRead).then(() => onFile(file, fields));
+        result.catch(fail);
+      } else {
+        const chunks: Buffer[] = [];
+        stream.on("data", (chunk: Buffer) => chunks.push(chunk));
+        fieldsRead.push(
+          new Promise<void>((done) =>
+            stream.on("end", () => {
+              fields.set(name, Buffer.concat(chunks).toString("utf8"));
+              done();
+            })
+          )
+        );
+      }
+    });
+    parser.on("error", () =>
+      fail(new BadRequestError("The multipart body could not be read"))
+    );
+    parser.on("close", () => {
+      if (failed) return;
+      if (!result) {
+        fail(
+          new BadRequestError(`Missing CSV upload in the "${fileField}" field`)
+        );
+      } else {
+        result.then(resolve, fail);
+      }
+    });
+
+    input.on("error", fail);
+    input.pipe(parser);
+  });
+};
@@ -0,0 +1,93 @@
+import assert from "node:assert/strict";
+import { mkdtemp, rm, writeFile } from "fs/promises";
+import os from "os";
+import path from "path";
+import { after, before, describe, it } from "node:test";
+import { createRuleSet, type RuleSet } from "@/lib/selerix";
+import { makeRule } from "@/lib/selerix/fixtures";
+import {
+  addRuleSet,
+  deleteRuleSet,
+  getDefaultRuleSet,
+  getRuleSetVersion,
+  listRuleSetVersions,
+  putRuleSet,
+  rollbackRuleSet,
+  RuleSetConflictError,
+  RuleSetNotFoundError,
+  RuleSetStoreError,
+} from "./rule-set-store";
+
+// Rule set fields the store takes as input
+const input = (ruleSet: RuleSet, isDefault = false) => ({
+  name: ruleSet.name,
+  rules: ruleSet.rules,
+  settings: ruleSet.settings,
+  outputColumns: ruleSet.outputColumns,
+  codeLookup: ruleSet.codeLookup,
+  isDefault,
+});
+
+describe("rule set store", () => {
+  let dir: string;
+  before(async () => {
+    dir = await mkdtemp(path.join(os.tmpdir(), "rule-set-store-"));
+    process.env.RULE_SET_STORE_PATH = path.join(dir, "rule-sets.json");
+  });
+  after(async () => {
+    delete process.env.RULE_SET_STORE_PATH;
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("seeds the default rule set as version 1", async () => {
+    const ruleSet = await getDefaultRuleSet();
+    assert.equal(ruleSet.name, "Default Rules");
+    assert.equal(ruleSet.version, 1);
+    const [version] = await listRuleSetVersions(ruleSet.id);
+    assert.equal(version.author, "system");
+  });
+
+  it("records every save as a new version and rolls back by saving an old snapshot", async () => {
+    const original = createRuleSet("Dental", [makeRule("30")]);
+    const added = await addRuleSet(input(original), {
+      author: "ana",
+      comment: "First",
+    });
+    await putRuleSet(
+      added.id,
+      { ...input(original), rules: [makeRule("30", "STAN")] },
+      { author: "ben", comment: "Switch carrier" }
+    );
+
+    const rolledBack = await rollbackRuleSet(added.id, 1, { author: "ana", comment: "" });
+    assert.equal(rolledBack.version, 3);
+    assert.deepEqual(rolledBack.rules, [makeRule("30")]);
+
+    const versions = await listRuleSetVersions(added.id);
+    assert.deepEqual(
+      versions.map((v) => [v.version, v.author, v.comment]),
+      [
+        [3, "ana", "Rolled back to version 1"],
+        [2, "ben", "Switch carrier"],
+        [1, "ana", "First"],
+      ]
+    );
+    // Earlier versions are never modified
+    const second = await getRuleSetVersion(added.id, 2);
+    assert.equal(second.snapshot.rules[0].outputs.carrier, "STAN");
+  });
+
+  it("rejects unknown versions and deleting the default set", async () => {
+    const ruleSet = await getDefaultRuleSet();
+    await assert.rejects(
+      rollbackRuleSet(ruleSet.id, 99, { author: "ana", comment: "" }),
+      RuleSetNotFoundError
+    );
+    await assert.rejects(deleteRuleSet(ruleSet.id), RuleSetConflictError);
+  });
+
+  it("refuses to read a corrupt store rather than reseeding it", async () => {
+    await writeFile(process.env.RULE_SET_STORE_PATH!, "{ not json", "utf8");
+    await assert.rejects(getDefaultRuleSet(), RuleSetStoreError);
+  });
+});
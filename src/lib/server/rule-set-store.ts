@@ -0,0 +1,268 @@
+import { promises as fs } from "fs";
+import path from "path";
+import {
+  createRuleSet,
+  generateId,
+  migrateRuleSet,
+  type RuleSet,
+  type RuleSetInput,
+  type RuleSetVersion,
+  type SaveInfo,
+} from "@/lib/selerix";
+
+// Thrown when a rule set id does not exist in the store
+export class RuleSetNotFoundError extends Error {
+  constructor(public readonly id: string) {
+    super(`Rule set "${id}" was not found`);
+    this.name = "RuleSetNotFoundError";
+  }
+}
+
+// Thrown when a change would leave the store in an unusable state, e.g. deleting the default set
+export class RuleSetConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RuleSetConflictError";
+  }
+}
+
+// Thrown when the store file exists but cannot be read, e.g. it was corrupted by hand
+// This is a server fault, so it is never reported to clients as a bad request
+export class RuleSetStoreError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RuleSetStoreError";
+  }
+}
+
+// Layout of the JSON file backing the store
+type StoreFile = {
+  ruleSets: RuleSet[];
+  versions: RuleSetVersion[]; // Every saved version of every rule set, never modified once written
+};
+
+// Location of the store file; RULE_SET_STORE_PATH lets IIS deployments keep it outside the app folder
+const storePath = () =>
+  process.env.RULE_SET_STORE_PATH ??
+  path.join(process.cwd(), "data", "rule-sets.json");
+
+// Writes to a temporary file first so a crash never leaves a half-written store
+const writeStore = async (store: StoreFile) => {
+  const file = storePath();
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  const temp = `${file}.${process.pid}.tmp`;
+  await fs.writeFile(temp, JSON.stringify(store, null, 2), "utf8");
+  await fs.rename(temp, file);
+};
+
+// Reads the store, seeding it with the default rules the first time
+const readStore = async (): Promise<StoreFile> => {
+  let text: string;
+  try {
+    text = await fs.readFile(storePath(), "utf8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error;
+    const seeded: StoreFile = { ruleSets: [], versions: [] };
+    const ruleSet = { ...createRuleSet("Default Rules"), isDefault: true };
+    recordVersion(seeded, ruleSet, {
+      author: "system",
+      comment: "Initial default rules",
+    });
+    seeded.ruleSets.push(ruleSet);
+    await writeStore(seeded);
+    return seeded;
+  }
+
+  try {
+    const store = JSON.parse(text);
+    // Rule sets saved before output columns were configurable are upgraded as they are read
+    return {
+      ruleSets: (store.ruleSets as RuleSet[]).map(migrateRuleSet),
+      versions: ((store.versions ?? []) as RuleSetVersion[]).map(
+        (version) => ({ ...version, snapshot: migrateRuleSet(version.snapshot) })
+      ),
+    };
+  } catch (error) {
+    throw new RuleSetStoreError(
+      `Rule set store ${storePath()} could not be read: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+};
+
+// Store access is queued so concurrent requests cannot overwrite each other's changes
+let queue: Promise<unknown> = Promise.resolve();
+const withStore = <T>(
+  action: (store: StoreFile) => T,
+  { write = false } = {}
+): Promise<T> => {
+  const next = queue.then(async () => {
+    const store = await readStore();
+    const result = action(store);
+    if (write) await writeStore(store);
+    return result;
+  });
+  queue = next.catch(() => undefined);
+  return next;
+};
+
+const update = <T>(change: (store: StoreFile) => T): Promise<T> =>
+  withStore(change, { write: true });
+
+// Appends an immutable snapshot of the rule set and stamps it with the new version number
+const recordVersion = (store: StoreFile, ruleSet: RuleSet, info: SaveInfo) => {
+  const version =
+    store.versions.filter((v) => v.ruleSetId === ruleSet.id).length + 1;
+  ruleSet.version = version;
+  store.versions.push({
+    ...info,
+    ruleSetId: ruleSet.id,
+    version,
+    createdAt: ruleSet.updatedAt,
+    snapshot: {
+      name: ruleSet.name,
+      rules: ruleSet.rules,
+      settings: ruleSet.settings,
+      outputColumns: ruleSet.outputColumns,
+      codeLookup: ruleSet.codeLookup,
+    },
+  });
+};
+
+// Marks one rule set as the default and clears the flag on the others
+const applyDefault = (store: StoreFile, id: string) => {
+  store.ruleSets = store.ruleSets.map((set) => ({
+    ...set,
+    isDefault: set.id === id,
+  }));
+};
+
+// Lists every stored rule set
+export const listRuleSets = (): Promise<RuleSet[]> =>
+  withStore((store) => store.ruleSets);
+
+// Returns a single rule set, throwing RuleSetNotFoundError if it does not exist
+export const getRuleSet = (id: string): Promise<RuleSet> =>
+  withStore((store) => {
+    const ruleSet = store.ruleSets.find((set) => set.id === id);
+    if (!ruleSet) throw new RuleSetNotFoundError(id);
+    return ruleSet;
+  });
+
+// Returns the rule set flagged as default, or the first one if none is
+export const getDefaultRuleSet = (): Promise<RuleSet> =>
+  withStore(
+    ({ ruleSets }) => ruleSets.find((set) => set.isDefault) ?? ruleSets[0]
+  );
+
+// Adds a rule set under a new server-generated id, recorded as version 1
+export const addRuleSet = (
+  input: RuleSetInput,
+  info: SaveInfo
+): Promise<RuleSet> =>
+  update((store) => {
+    const now = new Date().toISOString();
+    const ruleSet: RuleSet = {
+      ...input,
+      id: generateId(),
+      createdAt: now,
+      updatedAt: now,
+    };
+    recordVersion(store, ruleSet, info);
+    store.ruleSets.push(ruleSet);
+    if (input.isDefault) applyDefault(store, ruleSet.id);
+    return ruleSet;
+  });
+
+// Replaces a rule set (or creates it) inside an update and records the new version
+const saveRuleSet = (
+  store: StoreFile,
+  id: string,
+  input: RuleSetInput,
+  info: SaveInfo
+): RuleSet => {
+  const now = new Date().toISOString();
+  const existing = store.ruleSets.find((set) => set.id === id);
+  const ruleSet: RuleSet = {
+    ...input,
+    // The default flag can be moved to another set but not simply cleared
+    isDefault: input.isDefault || existing?.isDefault === true,
+    id,
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now,
+  };
+  recordVersion(store, ruleSet, info);
+  store.ruleSets = existing
+    ? store.ruleSets.map((set) => (set.id === id ? ruleSet : set))
+    : [...store.ruleSets, ruleSet];
+  if (ruleSet.isDefault) applyDefault(store, id);
+  return ruleSet;
+};
+
+// Creates or replaces the rule set with the given id
+export const putRuleSet = (
+  id: string,
+  input: RuleSetInput,
+  info: SaveInfo
+): Promise<RuleSet> => update((store) => saveRuleSet(store, id, input, info));
+
+// Lists every saved version of a rule set, newest first
+export const listRuleSetVersions = (id: string): Promise<RuleSetVersion[]> =>
+  withStore((store) => {
+    if (!store.ruleSets.some((set) => set.id === id)) {
+      throw new RuleSetNotFoundError(id);
+    }
+    return store.versions
+      .filter((v) => v.ruleSetId === id)
+      .sort((a, b) => b.version - a.version);
+  });
+
+// Returns one saved version of a rule set
+export const getRuleSetVersion = (
+  id: string,
+  version: number
+): Promise<RuleSetVersion> =>
+  withStore((store) => {
+    const found = store.versions.find(
+      (v) => v.ruleSetId === id && v.version === version
+    );
+    if (!found) throw new RuleSetNotFoundError(`${id}@${version}`);
+    return found;
+  });
+
+// Restores an earlier version by saving its snapshot as a new version
+export const rollbackRuleSet = (
+  id: string,
+  version: number,
+  info: SaveInfo
+): Promise<RuleSet> =>
+  update((store) => {
+    const existing = store.ruleSets.find((set) => set.id === id);
+    const target = store.versions.find(
+      (v) => v.ruleSetId === id && v.version === version
+    );
+    if (!existing || !target) {
+      throw new RuleSetNotFoundError(existing ? `${id}@${version}` : id);
+    }
+    return saveRuleSet(
+      store,
+      id,
+      { ...target.snapshot, isDefault: existing.isDefault === true },
+      { ...info, comment: info.comment || `Rolled back to version ${version}` }
+    );
+  });
+
+// Deletes a rule set; the default set cannot be deleted until another set is made default
+// Its versions are kept as part of the audit trail
+export const deleteRuleSet = (id: string): Promise<void> =>
+  update((store) => {
+    const ruleSet = store.ruleSets.find((set) => set.id === id);
+    if (!ruleSet) throw new RuleSetNotFoundError(id);
+    if (ruleSet.isDefault) {
+      throw new RuleSetConflictError(
+        "The default rule set cannot be deleted; make another set the default first"
+      );
+    }
+    store.ruleSets = store.ruleSets.filter((set) => set.id !== id);
+  });
@@ -0,0 +1,116 @@
+// Web Worker that parses, validates and matches uploaded rows off the page's main thread
+// It keeps no state between requests, so the page can terminate it at any time to cancel
+import {
+  CSVParseError,
+  getSheetNames,
+  isWorkbookFile,
+  parseCSVStream,
+  parseSheet,
+  processRows,
+  readWorkbook,
+  RuleAmbiguityError,
+  RuleValidationError,
+  validateRows,
+  WorkbookError,
+  type CSVRow,
+} from "@/lib/selerix";
+import type {
+  ParsedUpload,
+  WorkerPhase,
+  WorkerRequest,
+  WorkerResponse,
+} from "@/lib/processing-worker";
+
+// Rows matched between progress messages
+const PROGRESS_INTERVAL = 1000;
+
+// Bytes read between progress messages while parsing a CSV file
+const PROGRESS_BYTES = 1024 * 1024;
+
+const post = (message: WorkerResponse) => self.postMessage(message);
+
+const progress = (
+  id: number,
+  phase: WorkerPhase,
+  done: number,
+  total: number
+) => post({ id, type: "progress", phase, done, total });
+
+// Reads a CSV file as it streams in, reporting bytes read, or one sheet of a workbook
+// Without a sheet name the first sheet is read
+const parseUpload = async (
+  id: number,
+  file: File,
+  sheet?: string
+): Promise<ParsedUpload> => {
+  if (isWorkbookFile(file.name)) {
+    progress(id, "parse", 0, file.size);
+    const book = await readWorkbook(await file.arrayBuffer());
+    const sheetNames = getSheetNames(book);
+    const sheetName = sheet ?? sheetNames[0] ?? "";
+    const { headers, rows } = parseSheet(book, sheetName);
+    progress(id, "parse", file.size, file.size);
+    return { headers, rows, sheetNames, sheetName };
+  }
+
+  let read = 0;
+  let reported = 0;
+  const counted = file.stream().pipeThrough(
+    new TransformStream<Uint8Array, Uint8Array>({
+      transform(chunk, controller) {
+        read += chunk.byteLength;
+        if (read - reported >= PROGRESS_BYTES) {
+          reported = read;
+          progress(id, "parse", read, file.size);
+        }
+        controller.enqueue(chunk);
+      },
+    })
+  );
+  const rows: CSVRow[] = [];
+  const headers = await parseCSVStream(counted, (row) => rows.push(row));
+  progress(id, "parse", file.size, file.size);
+  return { headers, rows, sheetNames: [], sheetName: "" };
+};
+
+const handle = async (request: WorkerRequest): Promise<unknown> => {
+  switch (request.type) {
+    case "parse":
+      return parseUpload(request.id, request.file, request.sheet);
+    case "validate":
+      return validateRows(request.rows, request.options);
+    case "process":
+      // Reports progress every PROGRESS_INTERVAL rows and when the last row is done
+      return processRows(
+        request.rows,
+        request.rules,
+        request.options,
+        (done, total) => {
+          if (done % PROGRESS_INTERVAL === 0 || done === total) {
+            progress(request.id, "process", done, total);
+          }
+        }
+      );
+  }
+};
+
+// Errors raised for bad input, whose message is meant for the user
+const isExpectedError = (error: unknown): error is Error =>
+  error instanceof CSVParseError ||
+  error instanceof WorkbookError ||
+  error instanceof RuleValidationError ||
+  error instanceof RuleAmbiguityError;
+
+self.onmessage = async (event: MessageEvent<WorkerRequest>) => {
+  const { id } = event.data;
+  try {
+    post({ id, type: "result", result: await handle(event.data) });
+  } catch (error) {
+    post({
+      id,
+      type: "error",
+      message: error instanceof Error ? error.message : String(error),
+      expected: isExpectedError(error),
+    });
+  }
+};